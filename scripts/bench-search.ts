@@ -0,0 +1,160 @@
+// Search latency on a synthetic collection, before and after the search
+// indexes are built. Runs against a throwaway data directory, never your own.
+//
+//   npx tsx scripts/bench-search.ts [--rows 20000] [--queries 30]
+
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseArgs } from 'util';
+
+const { values: args } = parseArgs({
+  options: {
+    rows: { type: 'string', default: '20000' },
+    queries: { type: 'string', default: '30' },
+  },
+});
+const ROWS = Number.parseInt(args.rows!, 10);
+const QUERIES = Number.parseInt(args.queries!, 10);
+const BATCH = 1_000;
+const DIM = 1024;
+const CLUSTERS = 64;
+const LANGUAGES = ['TypeScript', 'Python', 'Go', 'Rust', 'Java', 'C++', 'Ruby', 'Swift', 'Kotlin', 'Zig', ''];
+const WORDS = ['parser', 'cli', 'database', 'framework', 'editor', 'compiler', 'terminal', 'graph', 'cache', 'router'];
+
+const dataDir = mkdtempSync(join(tmpdir(), 'starepo-bench-'));
+process.env.XDG_DATA_HOME = join(dataDir, 'data');
+process.env.XDG_CONFIG_HOME = join(dataDir, 'config');
+const storage = await import('../src/lib/storage.js');
+
+// Deterministic PRNG so runs are comparable.
+let seed = 42;
+function random(): number {
+  seed = (seed * 1_103_515_245 + 12_345) % 2 ** 31;
+  return seed / 2 ** 31;
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.hypot(...vector);
+  return vector.map((value) => value / norm);
+}
+
+// Embeddings cluster by subject, so vectors are drawn around a few centroids.
+const centroids = Array.from({ length: CLUSTERS }, () => Array.from({ length: DIM }, () => random() - 0.5));
+function syntheticVector(): number[] {
+  const centroid = centroids[Math.floor(random() * CLUSTERS)];
+  return normalize(centroid.map((value) => value + (random() - 0.5) * 0.6));
+}
+
+function syntheticRepo(i: number): import('../src/lib/storage.js').RepoInput {
+  const word = WORDS[i % WORDS.length];
+  const starredAt = new Date(Date.UTC(2016, 0, 1) + random() * 10 * 365 * 86_400_000).toISOString();
+  return {
+    id: i,
+    full_name: `owner${i % 500}/${word}-${i}`,
+    name: `${word}-${i}`,
+    description: `A ${word} written for benchmark ${i}`,
+    html_url: `https://github.com/owner${i % 500}/${word}-${i}`,
+    homepage: '',
+    language: LANGUAGES[Math.floor(random() * LANGUAGES.length)],
+    topics: [word, WORDS[(i * 7) % WORDS.length]],
+    stars_count: Math.floor(random() ** 3 * 50_000),
+    forks_count: 0,
+    starred_at: starredAt,
+    updated_at: starredAt,
+    vector: syntheticVector(),
+  };
+}
+
+async function time<T>(fn: () => Promise<T>): Promise<{ ms: number; result: T }> {
+  const start = performance.now();
+  const result = await fn();
+  return { ms: performance.now() - start, result };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+const queryVectors = Array.from({ length: QUERIES }, syntheticVector);
+// `approximate` cases compare their results with the exact scan (recall).
+const cases: Array<{ name: string; approximate?: boolean; run: (i: number) => Promise<Array<{ full_name: string }>> }> = [
+  { name: 'vector top 20', approximate: true, run: (i) => storage.searchVector(queryVectors[i], 20) },
+  {
+    name: 'vector top 20, language',
+    approximate: true,
+    run: (i) => storage.searchVector(queryVectors[i], 20, { language: 'rust' }),
+  },
+  {
+    name: 'list top 20 by stars',
+    run: () => storage.listRepos({ orderBy: 'stars_count', descending: true, limit: 20 }),
+  },
+  {
+    name: 'list, language + starred range',
+    run: (i) => storage.listRepos({ language: LANGUAGES[i % 10], starredAfter: '2024-01-01', limit: 50 }),
+  },
+];
+
+async function measure(): Promise<{ latency: Map<string, number>; results: Map<string, string[][]> }> {
+  const latency = new Map<string, number>();
+  const results = new Map<string, string[][]>();
+  for (const { name, run } of cases) {
+    await run(0);   // warm-up (table open, caches)
+    const samples: number[] = [];
+    const names: string[][] = [];
+    for (let i = 0; i < QUERIES; i++) {
+      const { ms, result } = await time(() => run(i));
+      samples.push(ms);
+      names.push(result.map((repo) => repo.full_name));
+    }
+    latency.set(name, median(samples));
+    results.set(name, names);
+  }
+  return { latency, results };
+}
+
+// Share of the exact top results the indexed search still returns.
+function recall(exact: string[][], approximate: string[][]): number {
+  let hits = 0;
+  let total = 0;
+  exact.forEach((names, i) => {
+    const found = new Set(approximate[i]);
+    hits += names.filter((name) => found.has(name)).length;
+    total += names.length;
+  });
+  return total > 0 ? hits / total : 1;
+}
+
+try {
+  console.log(`Inserting ${ROWS} synthetic repos (${DIM}-d vectors)...`);
+  const insert = await time(async () => {
+    for (let start = 0; start < ROWS; start += BATCH) {
+      const batch = Array.from({ length: Math.min(BATCH, ROWS - start) }, (_, i) => syntheticRepo(start + i));
+      await storage.upsertRepos(batch);
+    }
+  });
+  console.log(`  ${(insert.ms / 1000).toFixed(1)} s`);
+
+  console.log(`Measuring ${QUERIES} queries per case without indexes...`);
+  const before = await measure();
+
+  console.log('Building indexes...');
+  const build = await time(() => storage.updateRepoIndexes({ vectorMinRows: 0 }));
+  console.log(`  ${build.result.created.join(', ')} in ${(build.ms / 1000).toFixed(1)} s`);
+
+  console.log('Measuring with indexes...');
+  const after = await measure();
+
+  console.log('');
+  console.log(`${'case'.padEnd(32)} ${'scan (ms)'.padStart(10)} ${'indexed (ms)'.padStart(13)} ${'recall'.padStart(7)}`);
+  for (const { name, approximate } of cases) {
+    const overlap = approximate ? `${(recall(before.results.get(name)!, after.results.get(name)!) * 100).toFixed(0)}%` : '-';
+    console.log(
+      `${name.padEnd(32)} ${before.latency.get(name)!.toFixed(1).padStart(10)} ` +
+      `${after.latency.get(name)!.toFixed(1).padStart(13)} ${overlap.padStart(7)}`
+    );
+  }
+} finally {
+  rmSync(dataDir, { recursive: true, force: true });
+}
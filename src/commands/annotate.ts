@@ -0,0 +1,105 @@
+import { readStdin } from '../lib/stdin.js';
+import { parseRepoFullName } from './star.js';
+import { getRepoByName, listRepoFullNames, markEmbeddingsStale, Repo } from '../lib/storage.js';
+import { addTags, getAnnotation, listTags, removeTags, setNote, RepoAnnotation } from '../lib/annotations.js';
+import { withWriteLock } from '../lib/lock.js';
+
+export interface AnnotationChanges {
+  addTags?: string[];
+  removeTags?: string[];
+  note?: string;          // '' clears the note
+}
+
+export interface AnnotateCommandOptions {
+  wait?: boolean;         // wait for another process's write lock instead of failing
+}
+
+// Annotations attach to stored stars only; GitHub names are case-insensitive,
+// so the stored casing wins.
+export async function findStoredRepo(input: string): Promise<Repo> {
+  const fullName = parseRepoFullName(input);
+  const exact = await getRepoByName(fullName);
+  if (exact) return exact;
+  const stored = (await listRepoFullNames()).find((name) => name.toLowerCase() === fullName.toLowerCase());
+  const repo = stored ? await getRepoByName(stored) : null;
+  if (!repo) throw new Error(`Repository "${fullName}" not found. Try running \`starepo sync\` first.`);
+  return repo;
+}
+
+function annotationText(annotation: RepoAnnotation | null): string {
+  return `${annotation?.tags.join(' ') ?? ''}\n${annotation?.note ?? ''}`;
+}
+
+// Tags and notes are part of the embedded text, so a changed annotation drops
+// the repo's vector; the next `embed` or sync regenerates it.
+export async function annotateRepo(
+  repo: Repo,
+  changes: AnnotationChanges,
+  options: AnnotateCommandOptions = {},
+): Promise<RepoAnnotation | null> {
+  return withWriteLock('annotate', async () => {
+    const before = await getAnnotation(repo.full_name);
+    let annotation = before;
+    if (changes.addTags?.length) annotation = await addTags(repo.full_name, changes.addTags);
+    if (changes.removeTags?.length) annotation = await removeTags(repo.full_name, changes.removeTags);
+    if (changes.note !== undefined) annotation = await setNote(repo.full_name, changes.note);
+    if (repo.has_embedding && annotationText(annotation) !== annotationText(before)) {
+      await markEmbeddingsStale([repo.full_name]);
+    }
+    return annotation;
+  }, { wait: options.wait });
+}
+
+function formatTags(fullName: string, annotation: RepoAnnotation | null): string {
+  return `Tags on ${fullName}: ${annotation?.tags.join(', ') || '(none)'}`;
+}
+
+export async function runTagAdd(input: string, tags: string[], options: AnnotateCommandOptions = {}): Promise<void> {
+  const repo = await findStoredRepo(input);
+  console.log(formatTags(repo.full_name, await annotateRepo(repo, { addTags: tags }, options)));
+}
+
+export async function runTagRemove(input: string, tags: string[], options: AnnotateCommandOptions = {}): Promise<void> {
+  const repo = await findStoredRepo(input);
+  console.log(formatTags(repo.full_name, await annotateRepo(repo, { removeTags: tags }, options)));
+}
+
+export async function runTagList(options: { json?: boolean } = {}): Promise<void> {
+  const tags = await listTags();
+  if (options.json) {
+    console.log(JSON.stringify(tags, null, 2));
+    return;
+  }
+  if (tags.length === 0) {
+    console.log('No tags yet. Add one with `starepo tag add <owner/repo> <tag>`.');
+    return;
+  }
+  const width = Math.max(...tags.map(({ tag }) => tag.length));
+  for (const { tag, count } of tags) console.log(`${tag.padEnd(width)}  ${count}`);
+}
+
+// Without text, prints the current note; "-" reads the note from stdin.
+export async function runNote(
+  input: string,
+  text: string | undefined,
+  options: AnnotateCommandOptions & { clear?: boolean } = {},
+): Promise<void> {
+  const repo = await findStoredRepo(input);
+
+  if (options.clear) {
+    await annotateRepo(repo, { note: '' }, options);
+    console.log(`Cleared the note on ${repo.full_name}.`);
+    return;
+  }
+
+  if (text === undefined) {
+    const annotation = await getAnnotation(repo.full_name);
+    console.log(annotation?.note || `No note on ${repo.full_name}.`);
+    return;
+  }
+
+  const note = text === '-' ? await readStdin() : text;
+  if (!note.trim()) throw new Error('The note is empty. Use --clear to remove a note.');
+  await annotateRepo(repo, { note }, options);
+  console.log(`Saved the note on ${repo.full_name}.`);
+}
@@ -1,9 +1,49 @@
-import { getToken, saveToken } from '../lib/config.js';
-import { runDeviceFlow, createOctokit, getAuthenticatedUser } from '../lib/github.js';
+import {
+  getToken,
+  saveToken,
+  saveTokenCommand,
+  resolveToken,
+  runTokenCommand,
+  clearToken,
+  getGitHubHost,
+} from '../lib/config.js';
+import { runDeviceFlow, createOctokit, getAuthenticatedUser, WRITE_SCOPES } from '../lib/github.js';
+import { readStdin } from '../lib/stdin.js';
+
+export interface AuthOptions {
+  force?: boolean;
+  token?: string;           // personal access token
+  tokenFromStdin?: boolean;
+  tokenCommand?: string;    // credential helper, e.g. `gh auth token`
+  write?: boolean;          // request the scope needed for star/unstar
+}
+
+// Non-interactive logins: the credential is checked against the API before
+// anything is written, so a typo never replaces a working login.
+async function saveProvidedCredential(options: AuthOptions): Promise<string> {
+  if (options.tokenCommand) {
+    const token = runTokenCommand(options.tokenCommand);
+    const user = await getAuthenticatedUser(createOctokit(token));
+    saveTokenCommand(options.tokenCommand);
+    console.log(`Authenticated as: ${user} (token from \`${options.tokenCommand}\`)`);
+    return token;
+  }
+
+  const token = options.tokenFromStdin ? await readStdin() : options.token?.trim();
+  if (!token) throw new Error('No token provided. Pass it to --token or pipe it on stdin.');
+  const user = await getAuthenticatedUser(createOctokit(token));
+  saveToken(token);
+  console.log(`Authenticated as: ${user}`);
+  return token;
+}
+
+export async function runAuth(options: AuthOptions = {}): Promise<string> {
+  if (options.token !== undefined || options.tokenFromStdin || options.tokenCommand) {
+    return saveProvidedCredential(options);
+  }
 
-export async function runAuth(options: { force?: boolean } = {}): Promise<string> {
   const existing = getToken();
-  if (existing && !options.force) {
+  if (existing && !options.force && !options.write) {
     try {
       const octokit = createOctokit(existing);
       const user = await getAuthenticatedUser(octokit);
@@ -15,7 +55,7 @@ export async function runAuth(options: { force?: boolean } = {}): Promise<string
   }
 
   console.log('Starting GitHub authentication via Device Flow...');
-  const { token } = await runDeviceFlow();
+  const { token } = await runDeviceFlow(options.write ? WRITE_SCOPES : undefined);
   saveToken(token);
 
   const octokit = createOctokit(token);
@@ -25,6 +65,34 @@ export async function runAuth(options: { force?: boolean } = {}): Promise<string
   return token;
 }
 
+export async function runAuthStatus(): Promise<void> {
+  const host = new URL(getGitHubHost().oauthHost).host;
+  const resolved = resolveToken();
+  if (!resolved) {
+    console.log(`Not logged in to ${host}. Run \`starepo auth\` to authenticate.`);
+    return;
+  }
+
+  try {
+    const user = await getAuthenticatedUser(createOctokit(resolved.token));
+    console.log(`Logged in to ${host} as ${user} (token from ${resolved.source}).`);
+  } catch (err) {
+    console.log(
+      `Token from ${resolved.source} is not valid for ${host}: ${err instanceof Error ? err.message : String(err)}`
+    );
+  }
+}
+
+export async function runLogout(): Promise<void> {
+  clearToken();
+  console.log('Removed stored credentials.');
+  for (const name of ['STAREPO_TOKEN', 'GITHUB_TOKEN']) {
+    if (process.env[name]?.trim()) {
+      console.log(`Note: ${name} is still set in the environment and will keep being used.`);
+    }
+  }
+}
+
 export async function ensureAuth(): Promise<string> {
   const token = getToken();
   if (!token) {
@@ -0,0 +1,44 @@
+import { statSync } from 'fs';
+import { backupIncompatibilities, createBackup, restoreBackup, BackupManifest } from '../lib/backup.js';
+import { withWriteLock } from '../lib/lock.js';
+import { formatSize } from '../lib/format.js';
+
+export interface BackupCommandOptions {
+  wait?: boolean;       // wait for another process's write lock instead of failing
+}
+
+export interface RestoreCommandOptions {
+  force?: boolean;
+  wait?: boolean;       // wait for another process's write lock instead of failing
+}
+
+function formatTables(manifest: BackupManifest): string {
+  const entries = Object.entries(manifest.tables);
+  if (entries.length === 0) return 'no tables';
+  return entries.map(([name, rows]) => `${name} ${rows}`).join(', ');
+}
+
+// Holding the write lock keeps sync, embed and edits out while the tables,
+// meta and history are read, so the archive is one consistent snapshot.
+export async function runBackup(path: string, options: BackupCommandOptions = {}): Promise<void> {
+  const manifest = await withWriteLock('backup', () => createBackup(path), { wait: options.wait });
+  console.log(`Backup written to ${path} (${formatSize(statSync(path).size)}).`);
+  console.log(`  Tables: ${formatTables(manifest)}`);
+  console.log(`  Schema v${manifest.schema_version}, embeddings: ${
+    manifest.embedding_model ? `${manifest.embedding_model}@${manifest.embedding_version}` : 'none'
+  }`);
+}
+
+export async function runRestore(path: string, options: RestoreCommandOptions = {}): Promise<void> {
+  const manifest = await withWriteLock('restore', () => restoreBackup(path, options), { wait: options.wait });
+  console.log(`Restored backup from ${manifest.created_at} (starepo ${manifest.starepo_version}).`);
+  console.log(`  Tables: ${formatTables(manifest)}`);
+
+  const problems = backupIncompatibilities(manifest);
+  if (problems.length > 0) {
+    console.warn(`Restored with --force although ${problems.join('; ')}.`);
+    if (manifest.embedding_model) {
+      console.warn('Run `starepo embed --force` to rebuild the vectors with the current model.');
+    }
+  }
+}
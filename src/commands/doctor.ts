@@ -0,0 +1,209 @@
+import { getMeta, resolveToken, ResolvedToken } from '../lib/config.js';
+import { createOctokit, getAuthenticatedUser } from '../lib/github.js';
+import { EMBEDDING_MODEL, EMBEDDING_VERSION, getEmbeddingMetadata } from '../lib/embeddings.js';
+import { withWriteLock } from '../lib/lock.js';
+import {
+  CURRENT_SCHEMA_VERSION,
+  dedupeRepoRows,
+  inspectRepoTable,
+  rebuildFTSIndex,
+  repairEmbeddingFlags,
+  rerunSchemaMigrations,
+  setHasEmbeddings,
+  RepoTableHealth,
+} from '../lib/storage.js';
+
+export type DoctorStatus = 'ok' | 'warn' | 'fail' | 'fixed';
+
+export interface DoctorCheck {
+  name: string;
+  status: DoctorStatus;
+  detail: string;
+}
+
+export interface DoctorReport {
+  checks: DoctorCheck[];
+  problems: number;       // checks still failing
+}
+
+export interface DoctorCommandOptions {
+  fix?: boolean;          // repair what can be repaired locally
+  wait?: boolean;         // wait for another writer instead of failing (with `fix`)
+  json?: boolean;
+}
+
+const MAX_NAMES_SHOWN = 5;
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+function formatNames(names: string[]): string {
+  const shown = names.slice(0, MAX_NAMES_SHOWN).join(', ');
+  return names.length > MAX_NAMES_SHOWN ? `${shown} and ${names.length - MAX_NAMES_SHOWN} more` : shown;
+}
+
+// Opening the table runs pending migrations, so a version behind the current
+// one is already repaired by the time the columns are inspected.
+async function checkSchema(storedVersion: string | null, health: RepoTableHealth, fix: boolean): Promise<DoctorCheck> {
+  const name = 'schema';
+  if (health.missingColumns.length > 0) {
+    const missing = health.missingColumns.join(', ');
+    if (!fix) return { name, status: 'fail', detail: `Columns missing from a half-finished migration: ${missing}.` };
+    await rerunSchemaMigrations();
+    return { name, status: 'fixed', detail: `Re-ran the schema migrations and added ${missing}.` };
+  }
+  if (storedVersion !== null && !/^\d+$/.test(storedVersion.trim())) {
+    const detail = `The stored schema version "${storedVersion}" is not a number, so migrations may have been skipped.`;
+    if (!fix) return { name, status: 'fail', detail };
+    await rerunSchemaMigrations();
+    return { name, status: 'fixed', detail: `Re-ran the schema migrations up to version ${CURRENT_SCHEMA_VERSION}.` };
+  }
+  const previous = Number.parseInt(storedVersion ?? '', 10);
+  if (previous > CURRENT_SCHEMA_VERSION) {
+    return {
+      name,
+      status: 'fail',
+      detail: `Version ${previous} was written by a newer starepo (this one knows ${CURRENT_SCHEMA_VERSION}); upgrade starepo.`,
+    };
+  }
+  if (previous < CURRENT_SCHEMA_VERSION) {
+    return { name, status: 'fixed', detail: `Migrated from version ${previous} to ${CURRENT_SCHEMA_VERSION}.` };
+  }
+  return { name, status: 'ok', detail: `Version ${CURRENT_SCHEMA_VERSION}.` };
+}
+
+async function checkDuplicates(health: RepoTableHealth, fix: boolean): Promise<DoctorCheck> {
+  const name = 'duplicates';
+  if (health.duplicateNames.length === 0) return { name, status: 'ok', detail: `${health.rows} repos, no duplicates.` };
+  const names = formatNames(health.duplicateNames);
+  if (!fix) return { name, status: 'fail', detail: `Stored more than once: ${names}.` };
+  const removed = await dedupeRepoRows(health.duplicateNames);
+  return { name, status: 'fixed', detail: `Removed ${removed} duplicate rows of ${names}.` };
+}
+
+async function checkEmbeddingFlags(health: RepoTableHealth, fix: boolean): Promise<DoctorCheck> {
+  const name = 'vectors';
+  const { flaggedWithoutVector, staleVectors } = health;
+  if (flaggedWithoutVector.length === 0) {
+    // Annotation edits leave the old vector in place until `embed` runs.
+    if (staleVectors.length > 0) {
+      return {
+        name,
+        status: 'warn',
+        detail: `${staleVectors.length} repos keep an outdated vector (${formatNames(staleVectors)}); run \`starepo embed\`.`,
+      };
+    }
+    return { name, status: 'ok', detail: `${health.embeddedRows} of ${health.rows} repos embedded.` };
+  }
+  const issue = `marked embedded without a vector: ${formatNames(flaggedWithoutVector)}`;
+  if (!fix) return { name, status: 'fail', detail: `${issue}.` };
+  await repairEmbeddingFlags(health);
+  return { name, status: 'fixed', detail: `Corrected the flags (${issue}). Run \`starepo embed\` to embed the repos without a vector.` };
+}
+
+function checkEmbeddingCache(health: RepoTableHealth, fix: boolean): DoctorCheck {
+  const name = 'embedding cache';
+  const cached = getMeta('has_embeddings');
+  const actual = health.embeddedRows > 0;
+  if (cached === null || cached === String(actual)) return { name, status: 'ok', detail: 'Matches the table.' };
+  if (!fix) return { name, status: 'fail', detail: `meta.json says has_embeddings=${cached}, the table says ${actual}.` };
+  setHasEmbeddings(actual);
+  return { name, status: 'fixed', detail: `Set has_embeddings to ${actual}.` };
+}
+
+// Vectors from another model or text layout are not comparable with query
+// vectors; regenerating them needs the model, so this is never auto-fixed.
+function checkEmbeddingModel(health: RepoTableHealth): DoctorCheck {
+  const name = 'embedding model';
+  const current = `${EMBEDDING_MODEL} v${EMBEDDING_VERSION}`;
+  if (health.embeddedRows === 0) return { name, status: 'ok', detail: `No vectors yet (will use ${current}).` };
+  const { model, version } = getEmbeddingMetadata();
+  if (model === EMBEDDING_MODEL && version === EMBEDDING_VERSION) return { name, status: 'ok', detail: `${current}.` };
+  const stored = model && version ? `${model} v${version}` : 'an unrecorded model';
+  return {
+    name,
+    status: 'fail',
+    detail: `Vectors were built with ${stored}, this starepo uses ${current}. Run \`starepo embed --force\`.`,
+  };
+}
+
+async function checkFTSIndex(health: RepoTableHealth, fix: boolean): Promise<DoctorCheck> {
+  const name = 'full-text index';
+  if (health.rows === 0) return { name, status: 'ok', detail: 'Nothing to index yet.' };
+  if (health.missingFTSColumns.length === 0) return { name, status: 'ok', detail: 'Present.' };
+  const missing = health.missingFTSColumns.join(', ');
+  if (!fix) return { name, status: 'fail', detail: `Not indexed: ${missing}. Keyword search scans every row.` };
+  await rebuildFTSIndex();
+  return { name, status: 'fixed', detail: `Rebuilt the index for ${missing}.` };
+}
+
+async function checkToken(): Promise<DoctorCheck> {
+  const name = 'token';
+  let resolved: ResolvedToken | null;
+  try {
+    resolved = resolveToken();
+  } catch (err) {
+    return { name, status: 'fail', detail: errorMessage(err) };
+  }
+  if (!resolved) return { name, status: 'warn', detail: 'Not logged in; `sync` will start `starepo auth`.' };
+  try {
+    const user = await getAuthenticatedUser(createOctokit(resolved.token));
+    return { name, status: 'ok', detail: `Logged in as ${user} (token from ${resolved.source}).` };
+  } catch (err) {
+    return {
+      name,
+      status: 'fail',
+      detail: `Token from ${resolved.source} was rejected: ${errorMessage(err)}. Run \`starepo auth --force\`.`,
+    };
+  }
+}
+
+async function runChecks(fix: boolean): Promise<DoctorCheck[]> {
+  const storedVersion = getMeta('schema_version');
+  const health = await inspectRepoTable();
+  const checks = [
+    await checkSchema(storedVersion, health, fix),
+    await checkDuplicates(health, fix),
+    await checkEmbeddingFlags(health, fix),
+  ];
+  // Flag repairs and dedupes change what the cache and model checks see.
+  const current = fix ? await inspectRepoTable() : health;
+  checks.push(
+    checkEmbeddingCache(current, fix),
+    checkEmbeddingModel(current),
+    await checkFTSIndex(current, fix),
+  );
+  return checks;
+}
+
+export async function diagnose(options: Pick<DoctorCommandOptions, 'fix' | 'wait'> = {}): Promise<DoctorReport> {
+  const local = options.fix
+    ? await withWriteLock('doctor --fix', () => runChecks(true), { wait: options.wait })
+    : await runChecks(false);
+  const checks = [...local, await checkToken()];
+  return { checks, problems: checks.filter((check) => check.status === 'fail').length };
+}
+
+export async function runDoctor(options: DoctorCommandOptions = {}): Promise<DoctorReport> {
+  const report = await diagnose(options);
+
+  if (options.json) {
+    console.log(JSON.stringify(report, null, 2));
+    return report;
+  }
+
+  const width = Math.max(...report.checks.map((check) => check.name.length));
+  for (const check of report.checks) {
+    console.log(`${`[${check.status}]`.padEnd(7)} ${check.name.padEnd(width)}  ${check.detail}`);
+  }
+  console.log('');
+  if (report.problems === 0) {
+    console.log('No problems found.');
+  } else {
+    console.log(options.fix
+      ? `${report.problems} problem(s) need attention; see the hints above.`
+      : `${report.problems} problem(s) found. Run \`starepo doctor --fix\` to repair what can be repaired.`);
+  }
+  return report;
+}
@@ -5,8 +5,19 @@ import {
   generateAndStoreEmbeddings,
   getEmbeddingStatus,
 } from '../lib/embeddings.js';
+import { withWriteLock } from '../lib/lock.js';
+import { updateSearchIndexes } from './sync.js';
 
-export async function runEmbed(options: { force?: boolean } = {}): Promise<void> {
+export interface EmbedCommandOptions {
+  force?: boolean;
+  wait?: boolean;       // wait for another process's write lock instead of failing
+}
+
+export async function runEmbed(options: EmbedCommandOptions = {}): Promise<void> {
+  await withWriteLock('embed', () => embedRepos(options), { wait: options.wait });
+}
+
+async function embedRepos(options: EmbedCommandOptions): Promise<void> {
   const status = await getEmbeddingStatus();
 
   if (status.totalRepos === 0) {
@@ -61,4 +72,5 @@ export async function runEmbed(options: { force?: boolean } = {}): Promise<void>
   const coveredRepos = Math.min(result.totalRepos, result.processedRepos + result.skippedRepos);
   console.log(`Embedding coverage is now ${coveredRepos}/${result.totalRepos}.`);
   console.log('Semantic search is now available.');
+  await updateSearchIndexes();
 }
@@ -0,0 +1,69 @@
+import { createWriteStream } from 'fs';
+import { once } from 'events';
+import { finished } from 'stream/promises';
+import { streamRepos, RepoQueryFilters } from '../lib/storage.js';
+import {
+  createRowFormatter,
+  formatHtml,
+  formatMarkdown,
+  groupRepos,
+  ExportFormat,
+  ExportGroupBy,
+} from '../lib/export.js';
+
+export interface ExportCommandOptions {
+  filters?: RepoQueryFilters;
+  format?: ExportFormat;
+  groupBy?: ExportGroupBy;    // markdown / html only
+  title?: string;
+  output?: string;            // file path; stdout when omitted or "-"
+}
+
+const DEFAULT_TITLE = 'Starred repositories';
+
+async function write(stream: NodeJS.WritableStream, text: string): Promise<void> {
+  if (text && !stream.write(text)) await once(stream, 'drain');
+}
+
+// Writes every matching repo to `stream` and returns how many were written.
+// Row formats stream batch by batch; Markdown and HTML need all rows first to
+// group them, which is still cheap because vectors are never read.
+export async function exportRepos(stream: NodeJS.WritableStream, options: ExportCommandOptions = {}): Promise<number> {
+  const format = options.format ?? 'json';
+  const filters = options.filters ?? {};
+
+  if (format === 'markdown' || format === 'html') {
+    const repos = [];
+    for await (const batch of streamRepos(filters)) repos.push(...batch);
+    const groups = groupRepos(repos, options.groupBy ?? 'language');
+    const title = options.title ?? DEFAULT_TITLE;
+    await write(stream, format === 'markdown' ? formatMarkdown(groups, title) : formatHtml(groups, title));
+    return repos.length;
+  }
+
+  const formatter = createRowFormatter(format);
+  let count = 0;
+  await write(stream, formatter.begin());
+  for await (const batch of streamRepos(filters)) {
+    for (const repo of batch) await write(stream, formatter.row(repo, count++));
+  }
+  await write(stream, formatter.end(count));
+  return count;
+}
+
+export async function runExport(options: ExportCommandOptions = {}): Promise<void> {
+  if (!options.output || options.output === '-') {
+    await exportRepos(process.stdout, options);
+    return;
+  }
+
+  const stream = createWriteStream(options.output, { encoding: 'utf-8' });
+  let count: number;
+  try {
+    count = await exportRepos(stream, options);
+  } finally {
+    stream.end();
+  }
+  await finished(stream);
+  console.log(`Exported ${count} repositories to ${options.output}.`);
+}
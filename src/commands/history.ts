@@ -0,0 +1,64 @@
+import { readSyncHistory, SyncHistoryEntry } from '../lib/history.js';
+
+export interface HistoryCommandOptions {
+  limit?: number;
+  repo?: string;      // only runs that added or removed this repo
+  json?: boolean;
+}
+
+const MAX_NAMES_PER_RUN = 10;
+
+function matchesRepo(entry: SyncHistoryEntry, repo: string): boolean {
+  const target = repo.toLowerCase();
+  return [...entry.added, ...entry.removed].some((fullName) => fullName.toLowerCase() === target);
+}
+
+// Newest first; `repo` narrows both the runs and the names printed for them.
+export function getSyncHistory(options: Pick<HistoryCommandOptions, 'limit' | 'repo'> = {}): SyncHistoryEntry[] {
+  let entries = readSyncHistory().reverse();
+  if (options.repo) entries = entries.filter((entry) => matchesRepo(entry, options.repo!));
+  return options.limit !== undefined ? entries.slice(0, options.limit) : entries;
+}
+
+function formatNames(prefix: string, names: string[], repo?: string): string[] {
+  const shown = repo ? names.filter((fullName) => fullName.toLowerCase() === repo.toLowerCase()) : names;
+  const lines = shown.slice(0, MAX_NAMES_PER_RUN).map((fullName) => `  ${prefix} ${fullName}`);
+  if (shown.length > MAX_NAMES_PER_RUN) lines.push(`  ${prefix} ... and ${shown.length - MAX_NAMES_PER_RUN} more`);
+  return lines;
+}
+
+function formatEntry(entry: SyncHistoryEntry, repo?: string): string {
+  const details = [
+    `+${entry.added.length}`,
+    `-${entry.removed.length}`,
+    entry.metadata_changed !== null ? `${entry.metadata_changed} refreshed` : '',
+    entry.embedded > 0 ? `${entry.embedded} embedded` : '',
+    `${entry.total} total`,
+  ].filter(Boolean).join(', ');
+  const mode = entry.resumed ? `${entry.mode}, resumed` : entry.mode;
+  return [
+    `${new Date(entry.finished_at).toLocaleString()}  ${mode}  (${details})`,
+    ...formatNames('+', entry.added, repo),
+    ...formatNames('-', entry.removed, repo),
+  ].join('\n');
+}
+
+export async function runHistory(options: HistoryCommandOptions = {}): Promise<void> {
+  const entries = getSyncHistory(options);
+
+  if (options.json) {
+    console.log(JSON.stringify(entries, null, 2));
+    return;
+  }
+
+  if (entries.length === 0) {
+    console.log(options.repo
+      ? `No recorded sync added or removed ${options.repo}.`
+      : 'No sync history yet. It is recorded from the next `starepo sync` on.');
+    return;
+  }
+
+  for (const entry of entries) {
+    console.log(`${formatEntry(entry, options.repo)}\n`);
+  }
+}
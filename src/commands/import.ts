@@ -0,0 +1,123 @@
+import { readFileSync } from 'fs';
+import { readStdin } from '../lib/stdin.js';
+import { runEmbed } from './embed.js';
+import { updateSearchIndexes } from './sync.js';
+import { isStarredRepoItem, mapToRepoInput } from '../lib/github.js';
+import { upsertRepos, deleteReposMissingFromFullNames, getStats, RepoInput } from '../lib/storage.js';
+import { withWriteLock } from '../lib/lock.js';
+
+export interface ImportCommandOptions {
+  replace?: boolean;        // delete stored repos that are missing from the file
+  noEmbeddings?: boolean;
+  wait?: boolean;           // wait for another process's write lock instead of failing
+}
+
+export interface ImportResult {
+  imported: number;
+  skipped: number;          // entries that are not star+json items
+  removed: string[];
+}
+
+// Splits a file into its top-level JSON values. This covers a single array,
+// `gh api --paginate` output (one array per page, back to back), `--slurp`
+// output (an array of page arrays) and NDJSON (one object per line).
+export function parseJsonValues(text: string): unknown[] {
+  const values: unknown[] = [];
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+    } else if (depth === 0) {
+      if (ch === '[' || ch === '{') {
+        start = i;
+        depth = 1;
+      } else if (!/\s/.test(ch)) {
+        throw new Error(`Invalid JSON at offset ${i}: expected an array or object.`);
+      }
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === '[' || ch === '{') {
+      depth++;
+    } else if (ch === ']' || ch === '}') {
+      depth--;
+      if (depth === 0) {
+        try {
+          values.push(JSON.parse(text.slice(start, i + 1)));
+        } catch (err) {
+          throw new Error(`Invalid JSON at offset ${start}: ${err instanceof Error ? err.message : String(err)}`);
+        }
+      }
+    }
+  }
+  if (depth !== 0) throw new Error('Invalid JSON: the input ends in the middle of a value.');
+  return values;
+}
+
+function flattenItems(value: unknown): unknown[] {
+  return Array.isArray(value) ? value.flatMap(flattenItems) : [value];
+}
+
+// Validates and maps items exactly like the live starred feed. Later entries
+// win when a repo appears twice (e.g. overlapping exports).
+export function parseStarsExport(text: string): { repos: RepoInput[]; skipped: number } {
+  const byName = new Map<string, RepoInput>();
+  let skipped = 0;
+  for (const item of parseJsonValues(text).flatMap(flattenItems)) {
+    if (!isStarredRepoItem(item)) {
+      skipped++;
+      continue;
+    }
+    const repo = mapToRepoInput(item);
+    byName.set(repo.full_name, repo);
+  }
+  return { repos: [...byName.values()], skipped };
+}
+
+export async function importStars(text: string, options: ImportCommandOptions = {}): Promise<ImportResult> {
+  const { repos, skipped } = parseStarsExport(text);
+  if (repos.length === 0) {
+    throw new Error(
+      'No starred repositories found in the input. Export them with ' +
+      '`gh api user/starred --paginate -H "Accept: application/vnd.github.star+json"`.'
+    );
+  }
+
+  await upsertRepos(repos);
+  // Replace only after the upsert, so a failed write never empties the index.
+  const removed = options.replace ? await deleteReposMissingFromFullNames(repos.map((repo) => repo.full_name)) : [];
+  return { imported: repos.length, skipped, removed };
+}
+
+export async function runImport(file: string, options: ImportCommandOptions = {}): Promise<void> {
+  const text = file === '-' ? await readStdin() : readFileSync(file, 'utf-8');
+  await withWriteLock('import', () => importAndEmbed(text, options), { wait: options.wait });
+}
+
+async function importAndEmbed(text: string, options: ImportCommandOptions): Promise<void> {
+  const result = await importStars(text, options);
+
+  console.log(`Imported ${result.imported} starred repositories.`);
+  if (result.skipped > 0) {
+    console.warn(
+      `Skipped ${result.skipped} entries that are not starred repositories ` +
+      '(was the export made with the application/vnd.github.star+json media type?).'
+    );
+  }
+  if (result.removed.length > 0) console.log(`Removed ${result.removed.length} repos missing from the file.`);
+  const { count } = await getStats();
+  console.log(`Local database: ${count} stars.`);
+
+  if (!options.noEmbeddings) {
+    console.log();
+    await runEmbed({ wait: options.wait });
+  } else {
+    await updateSearchIndexes();
+  }
+}
@@ -1,26 +1,37 @@
-import { listRepos, getRepoByName, getStats, Repo } from '../lib/storage.js';
-import { hybridSearch } from '../lib/search.js';
-import { parsePositiveIntOption, sortRepos, SortField, SortOrder } from '../lib/sort.js';
+import { getRepoByName, getStats, Repo, UnstarredFilter } from '../lib/storage.js';
+import { parseTopics } from '../lib/topics.js';
+import { getListsForRepo } from '../lib/lists.js';
+import { getAnnotation } from '../lib/annotations.js';
+import { hybridSearch, listSortedRepos } from '../lib/search.js';
+import { parsePositiveIntOption, SortField, SortOrder } from '../lib/sort.js';
+import { getStarHistory, sparkline } from '../lib/star-history.js';
 
 export interface ListCommandOptions {
   query?: string;
   language?: string;
   topic?: string;
+  list?: string;
+  tag?: string;
   starredAfter?: string;
   starredBefore?: string;
+  excludeArchived?: boolean;
+  excludeForks?: boolean;
+  license?: string;
+  owner?: string;
+  unstarred?: UnstarredFilter;
   limit?: number;
   sort?: SortField;
   order?: SortOrder;
+  growthDays?: number;
   json?: boolean;
 }
 
 function formatRepo(repo: Repo): string {
-  const topics = (() => {
-    try { return (JSON.parse(repo.topics) as string[]).join(', '); }
-    catch { return repo.topics; }
-  })();
+  const topics = parseTopics(repo.topics).join(', ');
   return [
-    `${repo.full_name}${repo.language ? ` [${repo.language}]` : ''}`,
+    `${repo.full_name}${repo.language ? ` [${repo.language}]` : ''}${
+      repo.unstarred_at ? `  (unstarred ${repo.unstarred_at.slice(0, 10)})` : ''
+    }`,
     `  ${repo.description || '(no description)'}`,
     `  ${repo.html_url}`,
     topics ? `  Topics: ${topics}` : '',
@@ -39,20 +50,36 @@ export async function runList(options: ListCommandOptions = {}): Promise<void> {
     repos = await hybridSearch(options.query, limit, {
       language: options.language,
       topic: options.topic,
+      list: options.list,
+      tag: options.tag,
       starredAfter: options.starredAfter,
       starredBefore: options.starredBefore,
+      excludeArchived: options.excludeArchived,
+      excludeForks: options.excludeForks,
+      license: options.license,
+      owner: options.owner,
+      unstarred: options.unstarred,
       sort: options.sort,
       order: options.order,
+      growthDays: options.growthDays,
     });
   } else {
-    const all = await listRepos({
+    repos = await listSortedRepos(limit, {
       language: options.language,
       topic: options.topic,
+      list: options.list,
+      tag: options.tag,
       starredAfter: options.starredAfter,
       starredBefore: options.starredBefore,
-      limit: undefined,
+      excludeArchived: options.excludeArchived,
+      excludeForks: options.excludeForks,
+      license: options.license,
+      owner: options.owner,
+      unstarred: options.unstarred,
+      sort,
+      order,
+      growthDays: options.growthDays,
     });
-    repos = sortRepos(all, sort, order).slice(0, limit);
   }
 
   if (options.json) {
@@ -79,10 +106,11 @@ export async function runInfo(fullName: string): Promise<void> {
     process.exit(1);
   }
 
-  const topics = (() => {
-    try { return (JSON.parse(repo.topics) as string[]).join(', '); }
-    catch { return repo.topics; }
-  })();
+  const topics = parseTopics(repo.topics).join(', ');
+  const lists = await getListsForRepo(repo.full_name);
+  const annotation = await getAnnotation(repo.full_name);
+  const history = await getStarHistory(repo.full_name);
+  const flags = [repo.archived && 'archived', repo.fork && 'fork', repo.visibility].filter(Boolean);
 
   console.log([
     `Name:        ${repo.full_name}`,
@@ -90,10 +118,24 @@ export async function runInfo(fullName: string): Promise<void> {
     `Description: ${repo.description || '(none)'}`,
     `Language:    ${repo.language || '(none)'}`,
     `Topics:      ${topics || '(none)'}`,
+    `Owner:       ${repo.owner_login}${repo.owner_type ? ` (${repo.owner_type})` : ''}`,
+    `License:     ${repo.license || '(none)'}`,
+    `Status:      ${flags.join(', ') || 'unknown'}`,
+    `Lists:       ${lists.join(', ') || '(none)'}`,
+    `Tags:        ${annotation?.tags.join(', ') || '(none)'}`,
+    `Note:        ${annotation?.note.replace(/\n/g, '\n             ') || '(none)'}`,
     `Stars:       ${repo.stars_count}`,
+    ...(history.length > 1
+      ? [`Star trend:  ${sparkline(history.map((sample) => sample.stars_count))}  ` +
+        `${history[0].stars_count} → ${history[history.length - 1].stars_count} since ${history[0].day}`]
+      : []),
     `Forks:       ${repo.forks_count}`,
+    `Open issues: ${repo.open_issues_count ?? 0}`,
     `Homepage:    ${repo.homepage || '(none)'}`,
     `Starred at:  ${repo.starred_at || 'unknown'}`,
+    ...(repo.unstarred_at ? [`Unstarred:   ${repo.unstarred_at}`] : []),
+    `Created at:  ${repo.created_at || 'unknown'}`,
     `Updated at:  ${repo.updated_at || 'unknown'}`,
+    `Pushed at:   ${repo.pushed_at || 'unknown'}`,
   ].join('\n'));
 }
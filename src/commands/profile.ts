@@ -0,0 +1,28 @@
+import {
+  createProfile,
+  getActiveProfile,
+  listProfiles,
+  removeProfile,
+} from '../lib/config.js';
+
+export interface ProfileCommandOptions {
+  active?: string;        // the global --profile, which profile commands do not apply
+}
+
+export async function runProfileList(options: ProfileCommandOptions = {}): Promise<void> {
+  const active = options.active ?? getActiveProfile();
+  for (const name of listProfiles()) {
+    console.log(`${name === active ? '*' : ' '} ${name}`);
+  }
+}
+
+export async function runProfileAdd(name: string): Promise<void> {
+  createProfile(name);
+  console.log(`Created profile "${name}".`);
+  console.log(`Log in with \`starepo --profile ${name} auth\`, then run \`starepo --profile ${name} sync\`.`);
+}
+
+export async function runProfileRemove(name: string, options: ProfileCommandOptions = {}): Promise<void> {
+  removeProfile(name, options.active ?? getActiveProfile());
+  console.log(`Removed profile "${name}" with its credentials, metadata and database.`);
+}
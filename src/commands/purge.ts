@@ -0,0 +1,36 @@
+import { deleteReposByName, listUnstarredRepoNames } from '../lib/storage.js';
+import { withWriteLock } from '../lib/lock.js';
+
+export interface PurgeCommandOptions {
+  olderThanMs?: number;   // only tombstones unstarred at least this long ago
+  dryRun?: boolean;
+  wait?: boolean;         // wait for another process's write lock instead of failing
+}
+
+const MAX_NAMES_SHOWN = 20;
+
+// Permanently deletes tombstoned (unstarred) repos.
+export async function purgeUnstarred(options: PurgeCommandOptions = {}): Promise<string[]> {
+  const before = options.olderThanMs !== undefined ? new Date(Date.now() - options.olderThanMs) : undefined;
+  if (options.dryRun) return listUnstarredRepoNames(before);
+  return withWriteLock('purge', async () => {
+    const names = await listUnstarredRepoNames(before);
+    await deleteReposByName(names);
+    return names;
+  }, { wait: options.wait });
+}
+
+export async function runPurge(options: PurgeCommandOptions = {}): Promise<void> {
+  const names = await purgeUnstarred(options);
+
+  if (names.length === 0) {
+    console.log('No unstarred repos to purge.');
+    return;
+  }
+
+  console.log(options.dryRun
+    ? `Would purge ${names.length} unstarred repos:`
+    : `Purged ${names.length} unstarred repos:`);
+  for (const name of names.slice(0, MAX_NAMES_SHOWN)) console.log(`  ${name}`);
+  if (names.length > MAX_NAMES_SHOWN) console.log(`  ... and ${names.length - MAX_NAMES_SHOWN} more`);
+}
@@ -0,0 +1,66 @@
+import { listRepoFullNames, RepoQueryFilters } from '../lib/storage.js';
+import { listRecentReleases, StoredRelease } from '../lib/releases.js';
+import { getMeta } from '../lib/config.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ReleasesCommandOptions {
+  days?: number;
+  language?: string;
+  topic?: string;
+  list?: string;
+  tag?: string;
+  limit?: number;
+  json?: boolean;
+}
+
+// Recent releases among the stored stars, newest first. Repo filters narrow the
+// star set first, so unstarred repos with a leftover release row never show up.
+export async function getRecentReleases(
+  filters: RepoQueryFilters,
+  days = 14,
+  limit?: number
+): Promise<StoredRelease[]> {
+  const fullNames = await listRepoFullNames(filters);
+  if (fullNames.length === 0) return [];
+  return listRecentReleases({ since: new Date(Date.now() - days * DAY_MS), fullNames, limit });
+}
+
+function formatRelease(release: StoredRelease): string {
+  const date = release.published_at.slice(0, 10);
+  const title = release.name && release.name !== release.tag_name ? `  ${release.name}` : '';
+  return [
+    `${release.full_name}  ${release.tag_name}  (${date})${title}`,
+    release.notes ? `  ${release.notes}` : '',
+    `  ${release.url}`,
+  ].filter(Boolean).join('\n');
+}
+
+export async function runReleases(options: ReleasesCommandOptions = {}): Promise<void> {
+  if (!getMeta('last_release_sync')) {
+    console.log('No release data yet. Run `starepo sync --releases` first.');
+    return;
+  }
+
+  const days = options.days ?? 14;
+  const releases = await getRecentReleases(
+    { language: options.language, topic: options.topic, list: options.list, tag: options.tag },
+    days,
+    options.limit,
+  );
+
+  if (options.json) {
+    console.log(JSON.stringify(releases.map(({ published_at_ts: _, ...release }) => release), null, 2));
+    return;
+  }
+
+  if (releases.length === 0) {
+    console.log(`No releases in the last ${days} days.`);
+    return;
+  }
+
+  console.log(`${releases.length} release(s) in the last ${days} days:\n`);
+  for (const release of releases) {
+    console.log(`${formatRelease(release)}\n`);
+  }
+}
@@ -1,26 +1,36 @@
 import { hybridSearch } from '../lib/search.js';
-import { Repo } from '../lib/storage.js';
+import { Repo, UnstarredFilter, hasRepoFilters } from '../lib/storage.js';
+import { parseTopics } from '../lib/topics.js';
 import { parsePositiveIntOption, type SortField, type SortOrder } from '../lib/sort.js';
 
 export interface SearchCommandOptions {
   query?: string;
   language?: string;
   topic?: string;
+  list?: string;
+  tag?: string;
   starredAfter?: string;
   starredBefore?: string;
+  excludeArchived?: boolean;
+  excludeForks?: boolean;
+  license?: string;
+  owner?: string;
+  unstarred?: UnstarredFilter;
   limit?: number;
   sort?: SortField;
   order?: SortOrder;
+  growthDays?: number;
   json?: boolean;
 }
 
+function formatUnstarred(repo: Repo): string {
+  return repo.unstarred_at ? `  (unstarred ${repo.unstarred_at.slice(0, 10)})` : '';
+}
+
 function formatRepo(repo: Repo, index: number): string {
-  const topics = (() => {
-    try { return (JSON.parse(repo.topics) as string[]).slice(0, 5).join(', '); }
-    catch { return repo.topics; }
-  })();
+  const topics = parseTopics(repo.topics).slice(0, 5).join(', ');
   const lines = [
-    `${index + 1}. ${repo.full_name}${repo.language ? ` [${repo.language}]` : ''}`,
+    `${index + 1}. ${repo.full_name}${repo.language ? ` [${repo.language}]` : ''}${formatUnstarred(repo)}`,
     `   ${repo.description ?? '(no description)'}`,
     `   ${repo.html_url}`,
   ];
@@ -32,12 +42,10 @@ function formatRepo(repo: Repo, index: number): string {
 export async function runSearch(query: string | undefined, options: SearchCommandOptions = {}): Promise<void> {
   const finalQuery = (query ?? options.query ?? '').trim();
   const limit = parsePositiveIntOption(options.limit ?? 10, 'limit');
-  const hasStructuredFilters = Boolean(
-    options.language || options.topic || options.starredAfter || options.starredBefore
-  );
+  const hasStructuredFilters = hasRepoFilters(options);
 
   if (!finalQuery && !hasStructuredFilters) {
-    console.error('Please provide a query (positional or --query), or at least one filter (--lang/--topic/--since/--until/--days).');
+    console.error('Please provide a query (positional or --query), or at least one filter (--lang/--topic/--list/--tag/--since/--until/--days/--no-archived/--exclude-forks/--license/--owner/--only-unstarred).');
     process.exit(1);
   }
 
@@ -50,10 +58,18 @@ export async function runSearch(query: string | undefined, options: SearchComman
   const results = await hybridSearch(finalQuery, limit, {
     language: options.language,
     topic: options.topic,
+    list: options.list,
+    tag: options.tag,
     starredAfter: options.starredAfter,
     starredBefore: options.starredBefore,
+    excludeArchived: options.excludeArchived,
+    excludeForks: options.excludeForks,
+    license: options.license,
+    owner: options.owner,
+    unstarred: options.unstarred,
     sort: options.sort,
     order: options.order,
+    growthDays: options.growthDays,
   });
 
   if (results.length === 0) {
@@ -9,27 +9,20 @@ import {
   McpError,
 } from '@modelcontextprotocol/sdk/types.js';
 import { hybridSearch } from '../lib/search.js';
-import { listRepos, getRepoByName, getStats, Repo } from '../lib/storage.js';
+import { listRepos, getRepoByName, getStats, hasRepoFilters, RepoQueryFilters, UnstarredFilter } from '../lib/storage.js';
+import { repoToObject } from '../lib/export.js';
+import { getCollectionStats } from '../lib/stats.js';
+import { getListsForRepo } from '../lib/lists.js';
+import { getAnnotation, normalizeTag } from '../lib/annotations.js';
 import { parsePositiveIntOption } from '../lib/sort.js';
 import { resolveStarredTimeRange } from '../lib/time.js';
 import { VERSION } from '../lib/version.js';
+import { startWatcher, stopWatcherOnSignal } from '../lib/watch.js';
 import { runSync } from './sync.js';
-
-function repoToObject(repo: Repo): Record<string, unknown> {
-  return {
-    id: repo.id,
-    full_name: repo.full_name,
-    name: repo.name,
-    description: repo.description,
-    url: repo.html_url,
-    homepage: repo.homepage,
-    language: repo.language,
-    topics: (() => { try { return JSON.parse(repo.topics); } catch { return []; } })(),
-    stars: repo.stars_count,
-    forks: repo.forks_count,
-    starred_at: repo.starred_at,
-  };
-}
+import { getRecentReleases } from './releases.js';
+import { starRepos, unstarRepos, parseRepoFullName, StarResult } from './star.js';
+import { annotateRepo, findStoredRepo } from './annotate.js';
+import { normalizeGitHubLogin, runInCollection } from '../lib/config.js';
 
 function resolveTimeRange(args: Record<string, unknown> | undefined): { starredAfter?: string; starredBefore?: string } {
   try {
@@ -44,6 +37,30 @@ function resolveTimeRange(args: Record<string, unknown> | undefined): { starredA
   }
 }
 
+function resolveUnstarred(args: Record<string, unknown> | undefined): UnstarredFilter | undefined {
+  if (args?.include_unstarred && args?.only_unstarred) {
+    throw new McpError(ErrorCode.InvalidParams, 'Use either include_unstarred or only_unstarred, not both.');
+  }
+  return args?.only_unstarred ? 'only' : args?.include_unstarred ? 'include' : undefined;
+}
+
+function resolveFilters(args: Record<string, unknown> | undefined): RepoQueryFilters {
+  const range = resolveTimeRange(args);
+  return {
+    language: args?.language as string | undefined,
+    topic: args?.topic as string | undefined,
+    list: args?.list as string | undefined,
+    tag: args?.tag as string | undefined,
+    starredAfter: range.starredAfter,
+    starredBefore: range.starredBefore,
+    excludeArchived: args?.exclude_archived as boolean | undefined,
+    excludeForks: args?.exclude_forks as boolean | undefined,
+    license: args?.license as string | undefined,
+    owner: args?.owner as string | undefined,
+    unstarred: resolveUnstarred(args),
+  };
+}
+
 function resolveLimit(args: Record<string, unknown> | undefined, defaultLimit: number): number {
   try {
     return parsePositiveIntOption(args?.limit ?? defaultLimit, 'limit');
@@ -53,7 +70,59 @@ function resolveLimit(args: Record<string, unknown> | undefined, defaultLimit: n
   }
 }
 
-export async function runServe(): Promise<void> {
+function resolveRepoNames(args: Record<string, unknown> | undefined): string[] {
+  const repos = args?.repos;
+  if (!Array.isArray(repos) || repos.length === 0 || !repos.every((repo) => typeof repo === 'string')) {
+    throw new McpError(ErrorCode.InvalidParams, 'repos must be a non-empty array of "owner/repo" strings');
+  }
+  try {
+    return [...new Set(repos.map(parseRepoFullName))];
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new McpError(ErrorCode.InvalidParams, message);
+  }
+}
+
+function resolveTags(value: unknown, label: string): string[] | undefined {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || !value.every((tag) => typeof tag === 'string')) {
+    throw new McpError(ErrorCode.InvalidParams, `${label} must be an array of strings`);
+  }
+  try {
+    return value.map(normalizeTag);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new McpError(ErrorCode.InvalidParams, message);
+  }
+}
+
+function starResultsToContent(results: StarResult[]) {
+  return {
+    content: [{ type: 'text', text: JSON.stringify(results, null, 2) }],
+    isError: results.every((result) => !result.ok),
+  };
+}
+
+function resolveUser(args: Record<string, unknown> | undefined): string | undefined {
+  const user = args?.user as string | undefined;
+  if (!user) return undefined;
+  try {
+    return normalizeGitHubLogin(user);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new McpError(ErrorCode.InvalidParams, message);
+  }
+}
+
+export interface ServeOptions {
+  watchIntervalMs?: number;   // keep the index fresh with a background sync loop
+}
+
+export async function runServe(options: ServeOptions = {}): Promise<void> {
+  // stdout carries the MCP protocol, so anything a tool prints (sync progress
+  // and summaries) is sent to stderr, where clients keep server logs.
+  console.log = (...args: unknown[]) => console.error(...args);
+
   const server = new Server(
     { name: 'starepo', version: VERSION },
     { capabilities: { tools: {}, resources: {} } }
@@ -70,10 +139,19 @@ export async function runServe(): Promise<void> {
             query: { type: 'string', description: 'Search query (keyword or natural language)' },
             language: { type: 'string', description: 'Filter by programming language' },
             topic: { type: 'string', description: 'Filter by topic tag' },
+            list: { type: 'string', description: 'Filter by GitHub star list name' },
+            tag: { type: 'string', description: 'Filter by one of your own tags (see annotate_star)' },
             since: { type: 'string', description: 'Filter stars on/after date (ISO format)' },
             until: { type: 'string', description: 'Filter stars on/before date (ISO format)' },
             days: { type: 'number', description: 'Filter stars from last N days' },
+            exclude_archived: { type: 'boolean', description: 'Leave out archived repositories' },
+            exclude_forks: { type: 'boolean', description: 'Leave out forks' },
+            license: { type: 'string', description: 'Filter by license SPDX id (e.g. "MIT")' },
+            owner: { type: 'string', description: 'Filter by repository owner login' },
+            include_unstarred: { type: 'boolean', description: 'Also return repos you have unstarred (hidden by default)' },
+            only_unstarred: { type: 'boolean', description: 'Return only repos you have unstarred' },
             limit: { type: 'number', description: 'Max results (default: 10)' },
+            user: { type: 'string', description: 'Search another GitHub user\'s stars synced with `sync --user` (default: your own)' },
           },
         },
       },
@@ -85,11 +163,20 @@ export async function runServe(): Promise<void> {
           properties: {
             language: { type: 'string', description: 'Filter by programming language' },
             topic: { type: 'string', description: 'Filter by topic tag' },
+            list: { type: 'string', description: 'Filter by GitHub star list name' },
+            tag: { type: 'string', description: 'Filter by one of your own tags (see annotate_star)' },
             query: { type: 'string', description: 'Search query (keyword or natural language)' },
             since: { type: 'string', description: 'Filter stars on/after date (ISO format)' },
             until: { type: 'string', description: 'Filter stars on/before date (ISO format)' },
             days: { type: 'number', description: 'Filter stars from last N days' },
+            exclude_archived: { type: 'boolean', description: 'Leave out archived repositories' },
+            exclude_forks: { type: 'boolean', description: 'Leave out forks' },
+            license: { type: 'string', description: 'Filter by license SPDX id (e.g. "MIT")' },
+            owner: { type: 'string', description: 'Filter by repository owner login' },
+            include_unstarred: { type: 'boolean', description: 'Also return repos you have unstarred (hidden by default)' },
+            only_unstarred: { type: 'boolean', description: 'Return only repos you have unstarred' },
             limit: { type: 'number', description: 'Max results (default: 50)' },
+            user: { type: 'string', description: 'List another GitHub user\'s stars synced with `sync --user` (default: your own)' },
           },
         },
       },
@@ -100,6 +187,7 @@ export async function runServe(): Promise<void> {
           type: 'object',
           properties: {
             full_name: { type: 'string', description: 'Repository full name (e.g., "owner/repo")' },
+            user: { type: 'string', description: 'Look in another GitHub user\'s synced stars (default: your own)' },
           },
           required: ['full_name'],
         },
@@ -111,33 +199,111 @@ export async function runServe(): Promise<void> {
           type: 'object',
           properties: {
             force: { type: 'boolean', description: 'Force full sync (default: incremental if last_sync exists)' },
+            refresh: { type: 'boolean', description: 'Re-pull metadata (stars, forks, topics) for existing stars' },
+            releases: { type: 'boolean', description: 'Also record the latest release of every starred repo' },
+            user: { type: 'string', description: 'Sync another GitHub user\'s public stars into a separate collection' },
           },
         },
       },
+      {
+        name: 'recent_releases',
+        description: 'List recent releases of starred repositories, newest first (requires sync with releases).',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            days: { type: 'number', description: 'Releases published in the last N days (default: 14)' },
+            language: { type: 'string', description: 'Filter by programming language' },
+            topic: { type: 'string', description: 'Filter by topic tag' },
+            list: { type: 'string', description: 'Filter by GitHub star list name' },
+            tag: { type: 'string', description: 'Filter by one of your own tags (see annotate_star)' },
+            limit: { type: 'number', description: 'Max results (default: 50)' },
+            user: { type: 'string', description: 'Look in another GitHub user\'s synced stars (default: your own)' },
+          },
+        },
+      },
+      {
+        name: 'annotate_star',
+        description: 'Add or remove your own tags on a starred repository and set its private note. ' +
+          'Notes and tags are searchable by search_stars.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            full_name: { type: 'string', description: 'Repository full name (e.g., "owner/repo")' },
+            add_tags: { type: 'array', items: { type: 'string' }, description: 'Tags to add (e.g. "evaluated")' },
+            remove_tags: { type: 'array', items: { type: 'string' }, description: 'Tags to remove' },
+            note: { type: 'string', description: 'Replaces the note; an empty string clears it' },
+            user: { type: 'string', description: 'Annotate a repo in another GitHub user\'s synced stars (default: your own)' },
+          },
+          required: ['full_name'],
+        },
+        annotations: {
+          title: 'Annotate a starred repository',
+          readOnlyHint: false,
+          destructiveHint: false,
+          idempotentHint: true,
+          openWorldHint: false,
+        },
+      },
+      {
+        name: 'star_repos',
+        description: 'Star repositories on GitHub for the signed-in user and add them to the local index.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            repos: { type: 'array', items: { type: 'string' }, description: 'Repositories as "owner/repo" or URLs' },
+          },
+          required: ['repos'],
+        },
+        annotations: {
+          title: 'Star repositories on GitHub',
+          readOnlyHint: false,
+          destructiveHint: false,
+          idempotentHint: true,
+          openWorldHint: true,
+        },
+      },
+      {
+        name: 'unstar_repos',
+        description: 'Unstar repositories on GitHub for the signed-in user and mark them unstarred in the local index.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            repos: { type: 'array', items: { type: 'string' }, description: 'Repositories as "owner/repo" or URLs' },
+          },
+          required: ['repos'],
+        },
+        annotations: {
+          title: 'Unstar repositories on GitHub',
+          readOnlyHint: false,
+          destructiveHint: true,
+          idempotentHint: true,
+          openWorldHint: true,
+        },
+      },
     ],
   }));
 
   server.setRequestHandler(CallToolRequestSchema, async (request) => {
     const { name, arguments: args } = request.params;
+    // Each call runs inside its own collection scope, so concurrent calls for
+    // different users never share a database.
+    return runInCollection(resolveUser(args), () => callTool(name, args));
+  });
 
+  async function callTool(name: string, args: Record<string, unknown> | undefined) {
     switch (name) {
       case 'search_stars': {
         const query = (args?.query as string | undefined) ?? '';
-        const range = resolveTimeRange(args);
+        const filters = resolveFilters(args);
         const limit = resolveLimit(args, 10);
-        const hasFilter = Boolean(args?.language || args?.topic || range.starredAfter || range.starredBefore);
-        if (!query && !hasFilter) {
+        if (!query && !hasRepoFilters(filters)) {
           throw new McpError(
             ErrorCode.InvalidParams,
-            'Provide query or at least one filter (language/topic/since/until/days).'
+            'Provide query or at least one filter ' +
+            '(language/topic/list/tag/since/until/days/exclude_archived/exclude_forks/license/owner/only_unstarred).'
           );
         }
-        const results = await hybridSearch(query, limit, {
-          language: args?.language as string | undefined,
-          topic: args?.topic as string | undefined,
-          starredAfter: range.starredAfter,
-          starredBefore: range.starredBefore,
-        });
+        const results = await hybridSearch(query, limit, filters);
         return {
           content: [{ type: 'text', text: JSON.stringify(results.map(repoToObject), null, 2) }],
         };
@@ -145,22 +311,11 @@ export async function runServe(): Promise<void> {
 
       case 'list_stars': {
         const query = args?.query as string | undefined;
-        const range = resolveTimeRange(args);
+        const filters = resolveFilters(args);
         const limit = resolveLimit(args, 50);
         const repos = query
-          ? await hybridSearch(query, limit, {
-            language: args?.language as string | undefined,
-            topic: args?.topic as string | undefined,
-            starredAfter: range.starredAfter,
-            starredBefore: range.starredBefore,
-          })
-          : await listRepos({
-            language: args?.language as string | undefined,
-            topic: args?.topic as string | undefined,
-            starredAfter: range.starredAfter,
-            starredBefore: range.starredBefore,
-            limit,
-          });
+          ? await hybridSearch(query, limit, filters)
+          : await listRepos({ ...filters, limit });
         return {
           content: [{ type: 'text', text: JSON.stringify(repos.map(repoToObject), null, 2) }],
         };
@@ -175,14 +330,26 @@ export async function runServe(): Promise<void> {
             content: [{ type: 'text', text: `Repository "${fullName}" not found. Run sync_stars first.` }],
           };
         }
+        const lists = await getListsForRepo(repo.full_name);
+        const annotation = await getAnnotation(repo.full_name);
         return {
-          content: [{ type: 'text', text: JSON.stringify(repoToObject(repo), null, 2) }],
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              ...repoToObject(repo),
+              lists,
+              tags: annotation?.tags ?? [],
+              note: annotation?.note ?? '',
+            }, null, 2),
+          }],
         };
       }
 
       case 'sync_stars': {
         await runSync({
           force: (args?.force as boolean | undefined) ?? false,
+          refresh: args?.refresh as boolean | undefined,
+          ...(args?.releases ? { releases: true } : {}),
         });
         const stats = await getStats();
         return {
@@ -190,10 +357,52 @@ export async function runServe(): Promise<void> {
         };
       }
 
+      case 'recent_releases': {
+        const limit = resolveLimit(args, 50);
+        let days: number;
+        try {
+          days = parsePositiveIntOption(args?.days ?? 14, 'days', 3650);
+        } catch (err) {
+          const message = err instanceof Error ? err.message : String(err);
+          throw new McpError(ErrorCode.InvalidParams, message);
+        }
+        const releases = await getRecentReleases({
+          language: args?.language as string | undefined,
+          topic: args?.topic as string | undefined,
+          list: args?.list as string | undefined,
+          tag: args?.tag as string | undefined,
+        }, days, limit);
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify(releases.map(({ published_at_ts: _, ...release }) => release), null, 2),
+          }],
+        };
+      }
+
+      case 'annotate_star': {
+        const fullName = args?.full_name as string;
+        if (!fullName) throw new McpError(ErrorCode.InvalidParams, 'full_name is required');
+        const annotation = await annotateRepo(await findStoredRepo(fullName), {
+          addTags: resolveTags(args?.add_tags, 'add_tags'),
+          removeTags: resolveTags(args?.remove_tags, 'remove_tags'),
+          note: args?.note as string | undefined,
+        });
+        return {
+          content: [{ type: 'text', text: JSON.stringify(annotation ?? { full_name: fullName, tags: [], note: '' }, null, 2) }],
+        };
+      }
+
+      case 'star_repos':
+        return starResultsToContent(await starRepos(resolveRepoNames(args)));
+
+      case 'unstar_repos':
+        return starResultsToContent(await unstarRepos(resolveRepoNames(args)));
+
       default:
         throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
     }
-  });
+  }
 
   server.setRequestHandler(ListResourcesRequestSchema, async () => ({
     resources: [
@@ -203,6 +412,12 @@ export async function runServe(): Promise<void> {
         description: 'Overview of all your GitHub starred repositories',
         mimeType: 'application/json',
       },
+      {
+        uri: 'starepo://stats',
+        name: 'Collection Statistics',
+        description: 'Languages, top topics and owners, stars per year/month, embedding coverage and size on disk',
+        mimeType: 'application/json',
+      },
     ],
   }));
 
@@ -221,6 +436,12 @@ export async function runServe(): Promise<void> {
       };
     }
 
+    if (uri === 'starepo://stats') {
+      return {
+        contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(await getCollectionStats(), null, 2) }],
+      };
+    }
+
     const match = uri.match(/^starepo:\/\/stars\/(.+)$/);
     if (match) {
       const repo = await getRepoByName(match[1]);
@@ -235,4 +456,11 @@ export async function runServe(): Promise<void> {
 
   const transport = new StdioServerTransport();
   await server.connect(transport);
+
+  if (options.watchIntervalMs) {
+    const log = (message: string) => console.error(message);
+    const watcher = startWatcher({ intervalMs: options.watchIntervalMs, run: () => runSync(), log });
+    server.onclose = () => { void watcher.stop(); };
+    void stopWatcherOnSignal(watcher, log).then(() => process.exit(0));
+  }
 }
@@ -0,0 +1,162 @@
+import { readFileSync } from 'fs';
+import { ensureAuth } from './auth.js';
+import { createOctokit, fetchRepository, starRepository, unstarRepository } from '../lib/github.js';
+import { upsertRepos, retireRepos, listRepoFullNames, getRepoByName, Repo, RepoInput } from '../lib/storage.js';
+import { getAnnotations } from '../lib/annotations.js';
+import { generateEmbedding, repoToText } from '../lib/embeddings.js';
+import { withWriteLock } from '../lib/lock.js';
+import { readStdin } from '../lib/stdin.js';
+
+export interface StarCommandOptions {
+  file?: string;            // one repo per line; "-" reads stdin
+  noEmbeddings?: boolean;
+  wait?: boolean;           // wait for another process's write lock instead of failing
+}
+
+export interface StarResult {
+  fullName: string;
+  ok: boolean;
+  error?: string;
+}
+
+const REPO_URL = /^https?:\/\/[^/]+\/([^/\s]+)\/([^/\s?#]+?)(?:\.git)?\/?(?:[?#].*)?$/;
+const FULL_NAME = /^[A-Za-z0-9-]+\/[A-Za-z0-9._-]+$/;
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+// Accepts owner/repo or a repository URL pasted from the browser.
+export function parseRepoFullName(input: string): string {
+  const value = input.trim();
+  const url = value.match(REPO_URL);
+  const fullName = url ? `${url[1]}/${url[2]}` : value.replace(/\.git$/, '');
+  if (!FULL_NAME.test(fullName)) throw new Error(`Invalid repository "${input}". Use owner/repo.`);
+  return fullName;
+}
+
+// Bulk input: whitespace- or comma-separated names, `#` starts a comment.
+export function parseRepoList(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/(^|\s)#.*$/, '').trim())
+    .filter(Boolean)
+    .flatMap((line) => line.split(/[\s,]+/).filter(Boolean))
+    .map(parseRepoFullName);
+}
+
+async function collectRepoNames(names: string[], options: StarCommandOptions): Promise<string[]> {
+  const fullNames = names.map(parseRepoFullName);
+  if (options.file) {
+    const text = options.file === '-' ? await readStdin() : readFileSync(options.file, 'utf-8');
+    fullNames.push(...parseRepoList(text));
+  }
+  if (fullNames.length === 0) {
+    throw new Error('No repositories given. Pass owner/repo arguments or --file <path> ("-" for stdin).');
+  }
+  return [...new Set(fullNames)];
+}
+
+// New stars get a vector right away so semantic search finds them without a
+// separate `starepo embed`; if the model cannot load, only the vector is lost.
+async function withEmbeddings(repos: RepoInput[]): Promise<RepoInput[]> {
+  if (repos.length === 0) return repos;
+  try {
+    const annotations = await getAnnotations(repos.map((repo) => repo.full_name));
+    const embedded: RepoInput[] = [];
+    for (const repo of repos) {
+      const text = repoToText({ ...repo, topics: JSON.stringify(repo.topics) }, annotations.get(repo.full_name));
+      const vector = await generateEmbedding(text);
+      embedded.push({ ...repo, vector });
+    }
+    return embedded;
+  } catch (err) {
+    console.warn(`Could not generate embeddings (${errorMessage(err)}). Run \`starepo embed\` later.`);
+    return repos;
+  }
+}
+
+// Starring a repo that is already starred is a no-op on GitHub, so a stored
+// row keeps its star date; upsertRepos keeps its vector, and only repos
+// without one are embedded.
+async function storeStarredRepos(repos: RepoInput[], options: StarCommandOptions): Promise<void> {
+  const stored = new Map<string, Repo>();
+  for (const repo of repos) {
+    const existing = await getRepoByName(repo.full_name);
+    if (existing) stored.set(repo.full_name, existing);
+  }
+  const merged = repos.map((repo) => {
+    const existing = stored.get(repo.full_name);
+    return existing && !existing.unstarred_at ? { ...repo, starred_at: existing.starred_at } : repo;
+  });
+  const needsVector = (repo: RepoInput) => !options.noEmbeddings && !stored.get(repo.full_name)?.has_embedding;
+  await upsertRepos([
+    ...merged.filter((repo) => !needsVector(repo)),
+    ...await withEmbeddings(merged.filter(needsVector)),
+  ]);
+}
+
+export async function starRepos(fullNames: string[], options: StarCommandOptions = {}): Promise<StarResult[]> {
+  const octokit = createOctokit(await ensureAuth());
+  const results: StarResult[] = [];
+  const starred: RepoInput[] = [];
+
+  for (const fullName of fullNames) {
+    try {
+      const repo = await fetchRepository(octokit, fullName);
+      await starRepository(octokit, repo.full_name);
+      starred.push(repo);
+      results.push({ fullName: repo.full_name, ok: true });
+    } catch (err) {
+      results.push({ fullName, ok: false, error: errorMessage(err) });
+    }
+  }
+
+  if (starred.length > 0) {
+    await withWriteLock('star', () => storeStarredRepos(starred, options), { wait: options.wait });
+  }
+  return results;
+}
+
+export async function unstarRepos(fullNames: string[], options: Pick<StarCommandOptions, 'wait'> = {}): Promise<StarResult[]> {
+  const octokit = createOctokit(await ensureAuth());
+  // GitHub names are case-insensitive; match the casing stored locally.
+  const localNames = new Map((await listRepoFullNames()).map((name) => [name.toLowerCase(), name]));
+  const results: StarResult[] = [];
+  const removed: string[] = [];
+
+  for (const input of fullNames) {
+    const fullName = localNames.get(input.toLowerCase()) ?? input;
+    try {
+      await unstarRepository(octokit, fullName);
+      removed.push(fullName);
+      results.push({ fullName, ok: true });
+    } catch (err) {
+      results.push({ fullName, ok: false, error: errorMessage(err) });
+    }
+  }
+
+  if (removed.length > 0) await withWriteLock('unstar', () => retireRepos(removed), { wait: options.wait });
+  return results;
+}
+
+// Returns how many repos failed; the CLI exits non-zero when any did.
+function reportResults(results: StarResult[], verb: string): number {
+  for (const result of results) {
+    if (result.ok) console.log(`${verb} ${result.fullName}`);
+    else console.error(`Failed: ${result.fullName}: ${result.error}`);
+  }
+  const failed = results.filter((result) => !result.ok).length;
+  if (results.length > 1) console.log(`\n${verb} ${results.length - failed} of ${results.length} repositories.`);
+  return failed;
+}
+
+export async function runStar(names: string[], options: StarCommandOptions = {}): Promise<number> {
+  const fullNames = await collectRepoNames(names, options);
+  return reportResults(await starRepos(fullNames, options), 'Starred');
+}
+
+export async function runUnstar(names: string[], options: StarCommandOptions = {}): Promise<number> {
+  const fullNames = await collectRepoNames(names, options);
+  return reportResults(await unstarRepos(fullNames, options), 'Unstarred');
+}
@@ -0,0 +1,57 @@
+import { getCollectionStats, CountEntry, DEFAULT_STATS_TOP } from '../lib/stats.js';
+import { formatSize } from '../lib/format.js';
+
+export interface StatsCommandOptions {
+  top?: number;           // entries per breakdown
+  json?: boolean;
+}
+
+const BAR_WIDTH = 30;
+const MONTHS_SHOWN = 12;
+
+function formatPercent(part: number, total: number): string {
+  return total > 0 ? `${((part / total) * 100).toFixed(1)}%` : '0.0%';
+}
+
+// One row per entry: name, count, share of the collection, and a bar scaled
+// to the largest count in the section.
+function printSection(title: string, entries: CountEntry[], total: number): void {
+  if (entries.length === 0) return;
+  console.log(`\n${title}:`);
+  const width = Math.max(...entries.map((entry) => entry.name.length));
+  const countWidth = Math.max(...entries.map((entry) => String(entry.count).length));
+  const max = Math.max(...entries.map((entry) => entry.count));
+  for (const entry of entries) {
+    const bar = '█'.repeat(Math.max(1, Math.round((entry.count / max) * BAR_WIDTH)));
+    console.log(
+      `  ${entry.name.padEnd(width)}  ${String(entry.count).padStart(countWidth)}  ` +
+      `${formatPercent(entry.count, total).padStart(6)}  ${bar}`
+    );
+  }
+}
+
+export async function runStats(options: StatsCommandOptions = {}): Promise<void> {
+  const stats = await getCollectionStats(options.top ?? DEFAULT_STATS_TOP);
+
+  if (options.json) {
+    console.log(JSON.stringify(stats, null, 2));
+    return;
+  }
+
+  if (stats.total === 0) {
+    console.log('No starred repos indexed yet. Run `starepo sync` first.');
+    return;
+  }
+
+  const { embeddings } = stats;
+  const model = embeddings.model ? `, ${embeddings.model} v${embeddings.version}${embeddings.current ? '' : ' (outdated)'}` : '';
+  console.log(`${stats.total} starred repos, last synced ${stats.last_sync ? new Date(stats.last_sync).toLocaleString() : 'never'}`);
+  console.log(`Embeddings: ${embeddings.embedded} of ${stats.total} (${formatPercent(embeddings.embedded, stats.total)})${model}`);
+  console.log(`On disk:    ${formatSize(stats.db_size_bytes)}`);
+
+  printSection(`Languages (${stats.distinct.languages})`, stats.languages, stats.total);
+  printSection(`Top topics (${stats.distinct.topics})`, stats.topics, stats.total);
+  printSection(`Top owners (${stats.distinct.owners})`, stats.owners, stats.total);
+  printSection('Starred per year', stats.starred_by_year, stats.total);
+  printSection(`Starred per month (last ${MONTHS_SHOWN})`, stats.starred_by_month.slice(-MONTHS_SHOWN), stats.total);
+}
@@ -1,7 +1,31 @@
+import type { Octokit } from '@octokit/rest';
 import { ensureAuth } from './auth.js';
-import { createOctokit, fetchAllStars, fetchStarsSince } from '../lib/github.js';
-import { upsertRepos, getStats, deleteReposMissingFromFullNames } from '../lib/storage.js';
-import { getMeta, setMeta } from '../lib/config.js';
+import {
+  createOctokit,
+  streamStars,
+  fetchStarLists,
+  fetchStarredTotalCount,
+  fetchStarredFullNames,
+  fetchRepoMetadata,
+  fetchLatestReleases,
+} from '../lib/github.js';
+import {
+  upsertRepos,
+  getStats,
+  countRepos,
+  deleteReposMissingFromFullNames,
+  listRepoFullNames,
+  applyRepoMetadata,
+  updateRepoIndexes,
+} from '../lib/storage.js';
+import { replaceStarLists } from '../lib/lists.js';
+import { saveReleases } from '../lib/releases.js';
+import { recordStarCounts } from '../lib/star-history.js';
+import { appendSyncHistory, SyncMode } from '../lib/history.js';
+import { startWatcher, stopWatcherOnSignal } from '../lib/watch.js';
+import { withWriteLock } from '../lib/lock.js';
+import { formatRateLimits, getRateLimits } from '../lib/rate-limit.js';
+import { getMeta, setMeta, deleteMeta, getCollectionUser } from '../lib/config.js';
 import {
   EMBEDDING_MODEL,
   EMBEDDING_MODEL_DOWNLOAD_NOTE,
@@ -10,101 +34,364 @@ import {
   getEmbeddingStatus,
 } from '../lib/embeddings.js';
 
-export async function runSync(options: { force?: boolean; noEmbeddings?: boolean } = {}): Promise<void> {
+async function syncStarLists(octokit: Octokit, user?: string): Promise<void> {
+  // Lists come from the GraphQL API and are not essential for search, so a
+  // failure here (e.g. a token without GraphQL access) must not fail the sync.
+  try {
+    const lists = await fetchStarLists(octokit, user);
+    const memberships = await replaceStarLists(lists);
+    console.log(`Synced ${lists.length} star lists (${memberships} memberships).`);
+  } catch (err) {
+    console.warn(`Skipping star lists: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+// Incremental sync only walks new stars, so unstars are detected separately:
+// compare the remote total against the local row count and only fetch the
+// (identifier-only) starred list when they disagree.
+async function removeUnstarredRepos(octokit: Octokit, user?: string): Promise<string[]> {
+  try {
+    const remoteTotal = await fetchStarredTotalCount(octokit, user);
+    if (remoteTotal === await countRepos()) return [];
+    const fullNames = await fetchStarredFullNames(octokit, user);
+    return await deleteReposMissingFromFullNames(fullNames);
+  } catch (err) {
+    console.warn(`Could not check for unstarred repos: ${err instanceof Error ? err.message : String(err)}`);
+    return [];
+  }
+}
+
+// Folds this run's writes into the search indexes and builds the ones the
+// collection has grown into. Like lists, a failure only costs search speed.
+export async function updateSearchIndexes(): Promise<void> {
+  try {
+    const { created } = await updateRepoIndexes();
+    if (created.length > 0) console.log(`Built search indexes on ${created.join(', ')}.`);
+  } catch (err) {
+    console.warn(`Could not update search indexes: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+// Progress lines rewrite themselves with \r, which only makes sense on a
+// terminal; otherwise (log files, `serve` where stdout is the MCP channel)
+// they go to stderr.
+function writeProgress(text: string): void {
+  (process.stdout.isTTY ? process.stdout : process.stderr).write(text);
+}
+
+function reportRateLimits(octokit: Octokit): void {
+  const quota = formatRateLimits(getRateLimits(octokit));
+  if (quota) console.log(quota);
+}
+
+const REFRESH_BATCH_SIZE = 50;
+const RELEASES_BATCH_SIZE = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SyncOptions {
+  force?: boolean;
+  noEmbeddings?: boolean;
+  refresh?: boolean;
+  refreshMaxAgeDays?: number;
+  releases?: boolean;
+  wait?: boolean;         // wait for another process's write lock instead of failing
+}
+
+function isRefreshDue(options: SyncOptions): boolean {
+  if (options.refresh) return true;
+  if (options.refreshMaxAgeDays === undefined) return false;
+  const lastRefresh = getMeta('last_refresh');
+  if (!lastRefresh) return true;
+  return Date.now() - new Date(lastRefresh).getTime() >= options.refreshMaxAgeDays * DAY_MS;
+}
+
+// Incremental sync never revisits older stars, so their counts and topics go
+// stale. A refresh re-pulls metadata for every stored repo in batches and
+// rewrites only the rows that changed.
+async function refreshRepoMetadata(octokit: Octokit): Promise<number> {
+  const fullNames = await listRepoFullNames();
+  console.log(`Refreshing metadata for ${fullNames.length} repos...`);
+
+  let changed = 0;
+  for (let i = 0; i < fullNames.length; i += REFRESH_BATCH_SIZE) {
+    const batch = fullNames.slice(i, i + REFRESH_BATCH_SIZE);
+    const metadata = await fetchRepoMetadata(octokit, batch);
+    changed += await applyRepoMetadata(metadata);
+    await recordStarCounts(metadata);
+    writeProgress(`\r  Refreshed ${Math.min(i + REFRESH_BATCH_SIZE, fullNames.length)}/${fullNames.length}...`);
+  }
+  if (fullNames.length > 0) console.log();
+
+  setMeta('last_refresh', new Date().toISOString());
+  console.log(`Metadata refresh complete: ${changed} repos changed.`);
+  return changed;
+}
+
+// Release tracking is opt-in because it costs one GraphQL batch per 50 stars on
+// every run. Like star lists, a failure only skips this step.
+async function syncReleases(octokit: Octokit): Promise<void> {
+  try {
+    const fullNames = await listRepoFullNames();
+    console.log(`Checking latest releases for ${fullNames.length} repos...`);
+
+    let withRelease = 0;
+    for (let i = 0; i < fullNames.length; i += RELEASES_BATCH_SIZE) {
+      const batch = fullNames.slice(i, i + RELEASES_BATCH_SIZE);
+      const releases = await fetchLatestReleases(octokit, batch);
+      await saveReleases(batch, releases);
+      withRelease += releases.length;
+      writeProgress(`\r  Checked ${Math.min(i + RELEASES_BATCH_SIZE, fullNames.length)}/${fullNames.length}...`);
+    }
+    if (fullNames.length > 0) console.log();
+
+    setMeta('last_release_sync', new Date().toISOString());
+    console.log(`Release sync complete: ${withRelease} repos have a published release.`);
+  } catch (err) {
+    console.warn(`Skipping releases: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+// Fills vectors for repos that have none; returns how many were generated.
+async function embedMissingRepos(): Promise<number> {
+  const embeddingStatus = await getEmbeddingStatus();
+  console.log(
+    `\nEmbedding coverage: ${embeddingStatus.embeddedRepos}/${embeddingStatus.totalRepos} ready, ` +
+    `${embeddingStatus.missingRepos} missing.`
+  );
+  if (embeddingStatus.metadataStatus === 'outdated') {
+    console.log(
+      `Stored embeddings use ${embeddingStatus.metadata.model}@${embeddingStatus.metadata.version}; ` +
+      `sync only fills missing vectors. Run \`starepo embed --force\` to rebuild with ${EMBEDDING_MODEL}@${EMBEDDING_VERSION}.`
+    );
+  }
+
+  if (embeddingStatus.missingRepos === 0) {
+    console.log('Embeddings already up to date.');
+    console.log('Semantic search is now available.');
+    return 0;
+  }
+
+  console.log('Generating embeddings for semantic search...');
+  console.log(`(${EMBEDDING_MODEL_DOWNLOAD_NOTE})`);
+  const result = await generateAndStoreEmbeddings({
+    onProgress: (done, total) => {
+      writeProgress(`\r  Embedding: ${done}/${total}`);
+    },
+  });
+  console.log(`\nEmbeddings ready. Processed ${result.processedRepos} repositories.`);
+  if (result.metadataStatusBefore === 'outdated') {
+    console.log(
+      `Older vectors still remain. Run \`starepo embed --force\` to fully rebuild with ${EMBEDDING_MODEL}@${EMBEDDING_VERSION}.`
+    );
+  }
+  console.log('Semantic search is now available.');
+  return result.processedRepos;
+}
+
+interface SyncCheckpoint {
+  mode: 'full' | 'incremental';
+  page: number;         // next page to fetch
+  since?: string;       // incremental lower bound of the interrupted run
+  startedAt: string;
+  fetched: number;
+}
+
+function readCheckpoint(): SyncCheckpoint | null {
+  const raw = getMeta('sync_checkpoint');
+  if (!raw) return null;
+  try {
+    const checkpoint = JSON.parse(raw) as SyncCheckpoint;
+    return Number.isInteger(checkpoint.page) && checkpoint.page > 0 ? checkpoint : null;
+  } catch {
+    return null;
+  }
+}
+
+let _activeSync: Promise<void> | null = null;
+
+// One sync at a time per process: the watch loop and the MCP sync_stars tool
+// share the database handles and the page checkpoint. Across processes the
+// collection's write lock keeps e.g. a cron sync and `serve --watch` apart.
+export function runSync(options: SyncOptions = {}): Promise<void> {
+  if (_activeSync) return Promise.reject(new Error('A sync is already running in this process.'));
+  const sync = withWriteLock('sync', () => syncStars(options), { wait: options.wait })
+    .finally(() => { _activeSync = null; });
+  _activeSync = sync;
+  return sync;
+}
+
+export function isSyncRunning(): boolean {
+  return _activeSync !== null;
+}
+
+// `sync --watch`: stays resident and runs a sync every interval. The embedding
+// model is loaded once and reused by every cycle; --force only applies to the
+// first cycle, later ones are incremental.
+export async function runSyncWatch(options: SyncOptions, intervalMs: number): Promise<void> {
+  console.log(`Watching stars: syncing every ${intervalMs / 60_000} minutes. Press Ctrl-C to stop.`);
+  const watcher = startWatcher({
+    intervalMs,
+    run: (cycle) => runSync(cycle === 1 ? options : { ...options, force: false }),
+  });
+  await stopWatcherOnSignal(watcher, (message) => console.log(message));
+  console.log('Watch stopped.');
+}
+
+async function syncStars(options: SyncOptions): Promise<void> {
   const token = await ensureAuth();
   const octokit = createOctokit(token);
 
-  let repos;
+  // `sync --user <login>` runs inside that user's collection (see config.getCollectionDir).
+  const user = getCollectionUser() ?? undefined;
+  const whose = user ? ` of ${user}` : '';
+  if (user) setMeta('owner_login', user);
+
+  // --force always starts a fresh full walk; otherwise an interrupted run is resumed.
+  const checkpoint = options.force ? null : readCheckpoint();
   const lastSync = getMeta('last_sync');
-  const isIncremental = !options.force && !!lastSync;
+  const isIncremental = checkpoint ? checkpoint.mode === 'incremental' : !options.force && !!lastSync;
+  const mode: SyncMode = isIncremental ? 'incremental' : options.force ? 'forced' : 'full';
+  const since = isIncremental ? new Date(checkpoint?.since ?? lastSync!) : undefined;
+  const startedAt = checkpoint?.startedAt ?? new Date().toISOString();
+  const startPage = checkpoint?.page ?? 1;
+  let fetched = checkpoint?.fetched ?? 0;
+  const fetchedNames: string[] = [];
+  // Snapshot for the history log: fetched repos outside it were added by this run.
+  const knownNames = new Set(await listRepoFullNames());
 
-  if (isIncremental) {
-    const since = new Date(lastSync!);
-    console.log(`Incremental sync: fetching stars since ${since.toLocaleString()}...`);
-    repos = await fetchStarsSince(octokit, since, (count) => {
-      process.stdout.write(`\r  Fetched ${count} new stars...`);
+  const recordRun = async (removed: string[], metadataChanged: number | null, embedded: number) => {
+    appendSyncHistory({
+      started_at: startedAt,
+      finished_at: new Date().toISOString(),
+      mode,
+      resumed: !!checkpoint,
+      added: fetchedNames.filter((fullName) => !knownNames.has(fullName)),
+      removed,
+      metadata_changed: metadataChanged,
+      embedded,
+      total: await countRepos(),
     });
+  };
+
+  if (checkpoint) {
+    console.log(
+      `Resuming interrupted ${checkpoint.mode} sync from page ${checkpoint.page} ` +
+      `(${checkpoint.fetched} repos already saved)...`
+    );
+  } else if (isIncremental) {
+    console.log(`Incremental sync: fetching stars${whose} since ${since!.toLocaleString()}...`);
+  } else if (options.force) {
+    console.log(`Full sync (forced): fetching all starred repositories${whose}...`);
   } else {
-    if (options.force) {
-      console.log('Full sync (forced): fetching all starred repositories...');
-    } else {
-      console.log('Full sync: fetching all starred repositories...');
-    }
-    repos = await fetchAllStars(octokit, (count) => {
-      process.stdout.write(`\r  Fetched ${count} repos...`);
-    });
+    console.log(`Full sync: fetching all starred repositories${whose}...`);
   }
 
+  // Each page is written as soon as it arrives and followed by a checkpoint,
+  // so an interrupted run loses at most one page of work.
+  await streamStars(octokit, async (repos, page) => {
+    if (repos.length > 0) {
+      await upsertRepos(repos);
+      await recordStarCounts(repos);
+    }
+    fetched += repos.length;
+    fetchedNames.push(...repos.map((repo) => repo.full_name));
+    const next: SyncCheckpoint = {
+      mode: isIncremental ? 'incremental' : 'full',
+      page: page + 1,
+      since: since?.toISOString(),
+      startedAt,
+      fetched,
+    };
+    setMeta('sync_checkpoint', JSON.stringify(next));
+    writeProgress(isIncremental ? `\r  Fetched ${fetched} new stars...` : `\r  Fetched ${fetched} repos...`);
+  }, { startPage, since, user });
+
   console.log();
 
-  if (repos.length === 0) {
+  await syncStarLists(octokit, user);
+
+  if (fetched === 0) {
     if (!isIncremental) {
       // Full sync with an empty remote result means the user currently has no starred repos,
       // so the local cache must be fully cleared to stay in sync.
       const removed = await deleteReposMissingFromFullNames([]);
-      setMeta('last_sync', new Date().toISOString());
-      if (removed > 0) {
-        console.log(`Removed ${removed} stale repos from local database.`);
+      deleteMeta('sync_checkpoint');
+      setMeta('last_sync', startedAt);
+      if (removed.length > 0) {
+        console.log(`Removed ${removed.length} stale repos from local database.`);
       } else {
         console.log('No starred repositories found. Local database is already up to date.');
       }
       const { count } = await getStats();
       console.log(`\nSync complete: ${count} total stars.`);
+      reportRateLimits(octokit);
+      await recordRun(removed, null, 0);
       return;
     }
 
+    deleteMeta('sync_checkpoint');
     console.log('No new stars found.');
+    const removed = await removeUnstarredRepos(octokit, user);
+    if (removed.length > 0) {
+      console.log(`Removed ${removed.length} unstarred repos from local database.`);
+    }
+    const refreshed = isRefreshDue(options) ? await refreshRepoMetadata(octokit) : null;
+    if (removed.length > 0 || refreshed !== null) {
+      const { count } = await getStats();
+      const refreshedNote = refreshed !== null ? `, ${refreshed} refreshed` : '';
+      console.log(`\nSync complete: ${count} total stars (0 new, ${removed.length} removed${refreshedNote}).`);
+    }
+    if (options.releases) await syncReleases(octokit);
+    reportRateLimits(octokit);
+    await recordRun(removed, refreshed, 0);
+    await updateSearchIndexes();
     return;
   }
 
-  process.stdout.write(`Saving ${repos.length} repos to local database...`);
-  await upsertRepos(repos);
-  console.log(' Done.');
+  console.log(`Saved ${fetched} repos to local database.`);
 
-  if (!isIncremental) {
-    const removed = await deleteReposMissingFromFullNames(repos.map((repo) => repo.full_name));
-    if (removed > 0) {
-      console.log(`Removed ${removed} stale repos from local database.`);
+  let removed: string[];
+  if (isIncremental) {
+    removed = await removeUnstarredRepos(octokit, user);
+    if (removed.length > 0) {
+      console.log(`Removed ${removed.length} unstarred repos from local database.`);
+    }
+  } else {
+    // A resumed full walk only saw the pages fetched in this process, so the
+    // keep-set comes from the identifier-only walk instead.
+    const keepNames = checkpoint ? await fetchStarredFullNames(octokit, user) : fetchedNames;
+    removed = await deleteReposMissingFromFullNames(keepNames);
+    if (removed.length > 0) {
+      console.log(`Removed ${removed.length} stale repos from local database.`);
     }
   }
 
-  setMeta('last_sync', new Date().toISOString());
+  deleteMeta('sync_checkpoint');
+  setMeta('last_sync', startedAt);
 
-  const { count } = await getStats();
-  console.log(`\nSync complete: ${count} total stars.`);
-
-  if (!options.noEmbeddings) {
-    const embeddingStatus = await getEmbeddingStatus();
-    console.log(
-      `\nEmbedding coverage: ${embeddingStatus.embeddedRepos}/${embeddingStatus.totalRepos} ready, ` +
-      `${embeddingStatus.missingRepos} missing.`
-    );
-    if (embeddingStatus.metadataStatus === 'outdated') {
-      console.log(
-        `Stored embeddings use ${embeddingStatus.metadata.model}@${embeddingStatus.metadata.version}; ` +
-        `sync only fills missing vectors. Run \`starepo embed --force\` to rebuild with ${EMBEDDING_MODEL}@${EMBEDDING_VERSION}.`
-      );
-    }
+  let refreshed: number | null = null;
+  if (!isIncremental) {
+    // A full sync already re-pulled every repo's metadata.
+    setMeta('last_refresh', startedAt);
+  } else if (isRefreshDue(options)) {
+    refreshed = await refreshRepoMetadata(octokit);
+  }
 
-    if (embeddingStatus.missingRepos === 0) {
-      console.log('Embeddings already up to date.');
-      console.log('Semantic search is now available.');
-      return;
-    }
+  const { count } = await getStats();
+  const refreshedNote = refreshed !== null ? `, ${refreshed} refreshed` : '';
+  console.log(
+    `\nSync complete: ${count} total stars ` +
+    `(${fetched} ${isIncremental ? 'new' : 'fetched'}, ${removed.length} removed${refreshedNote}).`
+  );
+  if (options.releases) await syncReleases(octokit);
+  reportRateLimits(octokit);
 
-    console.log('Generating embeddings for semantic search...');
-    console.log(`(${EMBEDDING_MODEL_DOWNLOAD_NOTE})`);
-    const result = await generateAndStoreEmbeddings({
-      onProgress: (done, total) => {
-        process.stdout.write(`\r  Embedding: ${done}/${total}`);
-      },
-    });
-    console.log(`\nEmbeddings ready. Processed ${result.processedRepos} repositories.`);
-    if (result.metadataStatusBefore === 'outdated') {
-      console.log(
-        `Older vectors still remain. Run \`starepo embed --force\` to fully rebuild with ${EMBEDDING_MODEL}@${EMBEDDING_VERSION}.`
-      );
-    }
-    console.log('Semantic search is now available.');
+  // The run is logged even when embedding fails: the star changes did land.
+  let embedded = 0;
+  try {
+    if (!options.noEmbeddings) embedded = await embedMissingRepos();
+  } finally {
+    await recordRun(removed, refreshed, embedded);
   }
+  await updateSearchIndexes();
 }
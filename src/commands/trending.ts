@@ -0,0 +1,66 @@
+import { listRepoFullNames, RepoQueryFilters } from '../lib/storage.js';
+import { getStarGrowth, StarGrowth } from '../lib/star-history.js';
+
+export interface TrendingCommandOptions {
+  days?: number;
+  relative?: boolean;     // rank by growth instead of stars gained
+  language?: string;
+  topic?: string;
+  list?: string;
+  tag?: string;
+  limit?: number;
+  json?: boolean;
+}
+
+// Stars ranked by growth over the window. Only repos that gained stars are
+// returned; with `relative`, repos without a baseline count rank last.
+export async function getTrendingStars(
+  filters: RepoQueryFilters,
+  days = 30,
+  options: { relative?: boolean; limit?: number } = {},
+): Promise<StarGrowth[]> {
+  const fullNames = await listRepoFullNames(filters);
+  if (fullNames.length === 0) return [];
+  const growth = [...(await getStarGrowth(days, { fullNames })).values()].filter((entry) => entry.stars_gained > 0);
+  const ranked = growth.sort((a, b) => (options.relative
+    ? (b.growth ?? -1) - (a.growth ?? -1)
+    : b.stars_gained - a.stars_gained
+  ) || a.full_name.localeCompare(b.full_name));
+  return options.limit !== undefined ? ranked.slice(0, options.limit) : ranked;
+}
+
+function formatPercent(growth: number | null): string {
+  return growth === null ? 'new' : `+${(growth * 100).toFixed(1)}%`;
+}
+
+export async function runTrending(options: TrendingCommandOptions = {}): Promise<void> {
+  const days = options.days ?? 30;
+  const trending = await getTrendingStars(
+    { language: options.language, topic: options.topic, list: options.list, tag: options.tag },
+    days,
+    { relative: options.relative, limit: options.limit ?? 20 },
+  );
+
+  if (options.json) {
+    console.log(JSON.stringify(trending, null, 2));
+    return;
+  }
+
+  if (trending.length === 0) {
+    console.log(
+      `No star growth recorded in the last ${days} days. ` +
+      'Counts are recorded on every `starepo sync`; growth shows up once a later sync or `sync --refresh` sees new stars.'
+    );
+    return;
+  }
+
+  console.log(`Fastest-growing stars over the last ${days} days${options.relative ? ' (by relative growth)' : ''}:\n`);
+  const width = Math.max(...trending.map((entry) => entry.full_name.length));
+  trending.forEach((entry, i) => {
+    const gained = `+${entry.stars_gained}`.padStart(7);
+    console.log(
+      `${String(i + 1).padStart(3)}. ${entry.full_name.padEnd(width)}  ${gained}  ${formatPercent(entry.growth).padStart(8)}  ` +
+      `${entry.stars_before} → ${entry.stars_now} since ${entry.from_day}`
+    );
+  });
+}
@@ -2,24 +2,63 @@
 import { Command } from 'commander';
 import { realpathSync } from 'fs';
 import { fileURLToPath } from 'url';
-import { runAuth } from './commands/auth.js';
-import { runSync } from './commands/sync.js';
+import { runAuth, runAuthStatus, runLogout } from './commands/auth.js';
+import { runSync, runSyncWatch } from './commands/sync.js';
 import { runSearch } from './commands/search.js';
 import { runList, runInfo } from './commands/list.js';
 import { runServe } from './commands/serve.js';
 import { runEmbed } from './commands/embed.js';
+import { runStar, runUnstar } from './commands/star.js';
+import { runReleases } from './commands/releases.js';
+import { runImport } from './commands/import.js';
+import { runExport } from './commands/export.js';
+import { runBackup, runRestore } from './commands/backup.js';
+import { runHistory } from './commands/history.js';
+import { runPurge } from './commands/purge.js';
+import { runDoctor } from './commands/doctor.js';
+import { runStats } from './commands/stats.js';
+import { runTrending } from './commands/trending.js';
+import { runTagAdd, runTagRemove, runTagList, runNote } from './commands/annotate.js';
+import { runProfileList, runProfileAdd, runProfileRemove } from './commands/profile.js';
 import { getStats } from './lib/storage.js';
-import { parseListOptions } from './lib/sort.js';
+import { useProfile, useCollectionUser } from './lib/config.js';
+import { parseListOptions, parsePositiveIntOption, parseRepoFilterOptions } from './lib/sort.js';
+import { EXPORT_FORMATS, EXPORT_GROUP_FIELDS, ExportFormat, ExportGroupBy } from './lib/export.js';
+import { parseDuration } from './lib/time.js';
 import { VERSION } from './lib/version.js';
 
 export interface CliDeps {
   runAuth: typeof runAuth;
+  runAuthStatus: typeof runAuthStatus;
+  runLogout: typeof runLogout;
   runSync: typeof runSync;
+  runSyncWatch: typeof runSyncWatch;
   runSearch: typeof runSearch;
   runList: typeof runList;
   runInfo: typeof runInfo;
   runServe: typeof runServe;
   runEmbed: typeof runEmbed;
+  runStar: typeof runStar;
+  runUnstar: typeof runUnstar;
+  runReleases: typeof runReleases;
+  runImport: typeof runImport;
+  runExport: typeof runExport;
+  runBackup: typeof runBackup;
+  runRestore: typeof runRestore;
+  runHistory: typeof runHistory;
+  runPurge: typeof runPurge;
+  runDoctor: typeof runDoctor;
+  runStats: typeof runStats;
+  runTrending: typeof runTrending;
+  runTagAdd: typeof runTagAdd;
+  runTagRemove: typeof runTagRemove;
+  runTagList: typeof runTagList;
+  runNote: typeof runNote;
+  runProfileList: typeof runProfileList;
+  runProfileAdd: typeof runProfileAdd;
+  runProfileRemove: typeof runProfileRemove;
+  useProfile: typeof useProfile;
+  useCollectionUser: typeof useCollectionUser;
   getStats: typeof getStats;
   parseListOptions: typeof parseListOptions;
   version: string;
@@ -30,12 +69,36 @@ export interface CliDeps {
 
 const defaultDeps: CliDeps = {
   runAuth,
+  runAuthStatus,
+  runLogout,
   runSync,
+  runSyncWatch,
   runSearch,
   runList,
   runInfo,
   runServe,
   runEmbed,
+  runStar,
+  runUnstar,
+  runReleases,
+  runImport,
+  runExport,
+  runBackup,
+  runRestore,
+  runHistory,
+  runPurge,
+  runDoctor,
+  runStats,
+  runTrending,
+  runTagAdd,
+  runTagRemove,
+  runTagList,
+  runNote,
+  runProfileList,
+  runProfileAdd,
+  runProfileRemove,
+  useProfile,
+  useCollectionUser,
   getStats,
   parseListOptions,
   version: VERSION,
@@ -54,14 +117,50 @@ export function createProgram(deps: CliDeps = defaultDeps): Command {
   program
     .name('starepo')
     .description('Search your GitHub stars with semantic search and MCP server support')
-    .version(deps.version);
+    .version(deps.version)
+    .option('--profile <name>', 'Use a named profile with its own token, metadata and database (env: STAREPO_PROFILE)');
 
-  program
+  // Profiles are selected before any command touches the config or data dirs.
+  // `profile` subcommands manage profiles themselves, so they skip the lookup
+  // and get the selected name as `active` instead.
+  program.hook('preAction', (_thisCommand, actionCommand) => {
+    if (actionCommand.parent?.name() === 'profile') return;
+    const profile = program.opts().profile ?? process.env.STAREPO_PROFILE?.trim();
+    if (profile) deps.useProfile(profile);
+    const user = actionCommand.opts().user;
+    if (user) deps.useCollectionUser(user);
+  });
+
+  const auth = program
     .command('auth')
     .description('Authenticate with GitHub (runs automatically on first use)')
     .option('-f, --force', 'Force re-authentication even if already logged in')
+    .option('--token [pat]', 'Use a personal access token (reads stdin when no value or "-" is given)')
+    .option('--token-command <command>', 'Run a command that prints a token on every use (e.g. "gh auth token")')
+    .option('--write', 'Request the public_repo scope needed by `star` and `unstar`')
     .action(async (opts) => {
-      await deps.runAuth({ force: opts.force });
+      const fromStdin = opts.token === true || opts.token === '-';
+      await deps.runAuth({
+        force: opts.force,
+        ...(opts.write ? { write: true } : {}),
+        ...(fromStdin ? { tokenFromStdin: true } : {}),
+        ...(typeof opts.token === 'string' && !fromStdin ? { token: opts.token } : {}),
+        ...(opts.tokenCommand ? { tokenCommand: opts.tokenCommand } : {}),
+      });
+    });
+
+  auth
+    .command('status')
+    .description('Show the current GitHub identity and where its token comes from')
+    .action(async () => {
+      await deps.runAuthStatus();
+    });
+
+  auth
+    .command('logout')
+    .description('Remove the stored GitHub credentials')
+    .action(async () => {
+      await deps.runLogout();
     });
 
   program
@@ -69,16 +168,91 @@ export function createProgram(deps: CliDeps = defaultDeps): Command {
     .description('Sync your GitHub starred repositories')
     .option('-f, --force', 'Force full sync (default: incremental if last_sync exists)')
     .option('--no-embeddings', 'Skip generating embeddings after sync')
+    .option('--refresh', 'Re-pull metadata (stars, forks, topics, ...) for existing stars')
+    .option('--refresh-max-age <days>', 'Refresh metadata only when the last refresh is older than N days')
+    .option('--releases', 'Also record the latest release of every starred repo')
+    .option('-u, --user <login>', 'Sync another GitHub user\'s public stars into a separate collection')
+    .option('--watch', 'Stay running and sync on an interval (stop with Ctrl-C)')
+    .option('--interval <duration>', 'Time between watch syncs, e.g. 90s, 30m, 2h', '30m')
+    .option('--wait', 'If another starepo process is writing to the index, wait for it instead of failing')
     .action(async (opts) => {
-      await deps.runSync({ force: opts.force, noEmbeddings: !opts.embeddings });
+      const options = {
+        force: opts.force,
+        wait: opts.wait,
+        noEmbeddings: !opts.embeddings,
+        refresh: opts.refresh,
+        ...(opts.releases ? { releases: true } : {}),
+        refreshMaxAgeDays: opts.refreshMaxAge !== undefined
+          ? parsePositiveIntOption(opts.refreshMaxAge, '--refresh-max-age', 3650)
+          : undefined,
+      };
+      if (opts.watch) {
+        await deps.runSyncWatch(options, parseDuration(opts.interval, '--interval'));
+      } else {
+        await deps.runSync(options);
+      }
     });
 
   program
     .command('embed')
     .description('Generate embeddings for semantic search')
     .option('-f, --force', 'Regenerate all embeddings (even if they exist)')
+    .option('--wait', 'If another starepo process is writing to the index, wait for it instead of failing')
     .action(async (opts) => {
-      await deps.runEmbed({ force: opts.force });
+      await deps.runEmbed({ force: opts.force, wait: opts.wait });
+    });
+
+  program
+    .command('star [repos...]')
+    .description('Star repositories on GitHub and add them to the local index')
+    .option('-F, --file <path>', 'Read owner/repo names from a file, one per line ("-" for stdin)')
+    .option('--no-embeddings', 'Skip generating embeddings for the new stars')
+    .option('--wait', 'If another starepo process is writing to the index, wait for it instead of failing')
+    .action(async (repos: string[], opts) => {
+      let failed: number;
+      try {
+        failed = await deps.runStar(repos, { file: opts.file, noEmbeddings: !opts.embeddings, wait: opts.wait });
+      } catch (err) {
+        deps.error(errorMessage(err));
+        deps.exit(1);
+      }
+      if (failed > 0) deps.exit(1);
+    });
+
+  program
+    .command('unstar [repos...]')
+    .description('Unstar repositories on GitHub and remove them from the local index')
+    .option('-F, --file <path>', 'Read owner/repo names from a file, one per line ("-" for stdin)')
+    .option('--wait', 'If another starepo process is writing to the index, wait for it instead of failing')
+    .action(async (repos: string[], opts) => {
+      let failed: number;
+      try {
+        failed = await deps.runUnstar(repos, { file: opts.file, wait: opts.wait });
+      } catch (err) {
+        deps.error(errorMessage(err));
+        deps.exit(1);
+      }
+      if (failed > 0) deps.exit(1);
+    });
+
+  program
+    .command('import <file>')
+    .description('Import stars from a `gh api user/starred` export (JSON or NDJSON, "-" for stdin) without GitHub access')
+    .option('--replace', 'Remove stored repos that are missing from the file (default: merge)')
+    .option('--no-embeddings', 'Skip generating embeddings for the imported repos')
+    .option('-u, --user <login>', 'Import into another GitHub user\'s collection (see `sync --user`)')
+    .option('--wait', 'If another starepo process is writing to the index, wait for it instead of failing')
+    .action(async (file: string, opts) => {
+      try {
+        await deps.runImport(file, {
+          ...(opts.replace ? { replace: true } : {}),
+          noEmbeddings: !opts.embeddings,
+          wait: opts.wait,
+        });
+      } catch (err) {
+        deps.error(errorMessage(err));
+        deps.exit(1);
+      }
     });
 
   program
@@ -87,18 +261,30 @@ export function createProgram(deps: CliDeps = defaultDeps): Command {
     .option('-q, --query <query>', 'Search query (same as positional <query>)')
     .option('-l, --lang <language>', 'Filter by programming language')
     .option('-t, --topic <topic>', 'Filter by topic tag')
+    .option('--list <name>', 'Filter by GitHub star list')
+    .option('--tag <tag>', 'Filter by your own tag (see `tag add`)')
     .option('--since <date>', 'Filter stars on/after date (e.g. 2026-03-01)')
     .option('--until <date>', 'Filter stars on/before date (e.g. 2026-03-08)')
     .option('--days <number>', 'Filter stars from the last N days')
+    .option('--no-archived', 'Exclude archived repositories')
+    .option('--exclude-forks', 'Exclude forks')
+    .option('--license <spdx>', 'Filter by license SPDX id (e.g. MIT, Apache-2.0)')
+    .option('--owner <login>', 'Filter by repository owner')
+    .option('--include-unstarred', 'Also show repos you have unstarred')
+    .option('--only-unstarred', 'Show only repos you have unstarred')
+    .option('-u, --user <login>', 'Search another GitHub user\'s stars (see `sync --user`)')
     .option('-n, --limit <number>', 'Max number of results', '10')
-    .option('--sort <field>', 'Sort by: stars, forks, starred, updated, relevance (default: relevance)')
+    .option('--sort <field>', 'Sort by: stars, forks, starred, updated, growth, relevance (default: relevance)')
+    .option('--growth-days <number>', 'Window of --sort growth in days', '30')
     .option('--order <direction>', 'Sort direction: asc or desc (default: desc)')
     .option('--json', 'Output as JSON')
     .action(async (query: string | undefined, opts) => {
       try {
         const { count } = await deps.getStats();
         if (count === 0) {
-          deps.log('No local data found. Run `starepo sync` first.');
+          deps.log(opts.user
+            ? `No local data for ${opts.user}. Run \`starepo sync --user ${opts.user}\` first.`
+            : 'No local data found. Run `starepo sync` first.');
           deps.exit(1);
         }
         const parsed = deps.parseListOptions(opts);
@@ -118,11 +304,21 @@ export function createProgram(deps: CliDeps = defaultDeps): Command {
     .option('-q, --query <query>', 'Search query (keyword or semantic)')
     .option('-l, --lang <language>', 'Filter by programming language')
     .option('-t, --topic <topic>', 'Filter by topic tag')
+    .option('--list <name>', 'Filter by GitHub star list')
+    .option('--tag <tag>', 'Filter by your own tag (see `tag add`)')
     .option('--since <date>', 'Filter stars on/after date (e.g. 2026-03-01)')
     .option('--until <date>', 'Filter stars on/before date (e.g. 2026-03-08)')
     .option('--days <number>', 'Filter stars from the last N days')
+    .option('--no-archived', 'Exclude archived repositories')
+    .option('--exclude-forks', 'Exclude forks')
+    .option('--license <spdx>', 'Filter by license SPDX id (e.g. MIT, Apache-2.0)')
+    .option('--owner <login>', 'Filter by repository owner')
+    .option('--include-unstarred', 'Also show repos you have unstarred')
+    .option('--only-unstarred', 'Show only repos you have unstarred')
+    .option('-u, --user <login>', 'List another GitHub user\'s stars (see `sync --user`)')
     .option('-n, --limit <number>', 'Max number of results', '50')
-    .option('--sort <field>', 'Sort by: stars, forks, starred, updated (default: starred)')
+    .option('--sort <field>', 'Sort by: stars, forks, starred, updated, growth (default: starred)')
+    .option('--growth-days <number>', 'Window of --sort growth in days', '30')
     .option('--order <direction>', 'Sort direction: asc or desc (default: desc)')
     .option('--json', 'Output as JSON')
     .action(async (opts) => {
@@ -138,18 +334,307 @@ export function createProgram(deps: CliDeps = defaultDeps): Command {
       }
     });
 
+  program
+    .command('backup <path>')
+    .description('Write the local index (vectors, metadata, history) to a single checksummed archive')
+    .option('-u, --user <login>', 'Back up another GitHub user\'s collection (see `sync --user`)')
+    .option('--wait', 'If another starepo process is writing to the index, wait for it instead of failing')
+    .action(async (path: string, opts) => {
+      try {
+        await deps.runBackup(path, { wait: opts.wait });
+      } catch (err) {
+        deps.error(errorMessage(err));
+        deps.exit(1);
+      }
+    });
+
+  program
+    .command('restore <path>')
+    .description('Replace the local index with a backup archive')
+    .option('-f, --force', 'Restore even if the archive comes from another collection or its schema or embedding model does not match')
+    .option('-u, --user <login>', 'Restore into another GitHub user\'s collection (see `sync --user`)')
+    .option('--wait', 'If another starepo process is writing to the index, wait for it instead of failing')
+    .action(async (path: string, opts) => {
+      try {
+        await deps.runRestore(path, { force: opts.force, wait: opts.wait });
+      } catch (err) {
+        deps.error(errorMessage(err));
+        deps.exit(1);
+      }
+    });
+
+  program
+    .command('export')
+    .description('Export every matching star as JSON, NDJSON, CSV, Markdown or HTML')
+    .option('-f, --format <format>', `Output format: ${EXPORT_FORMATS.join(', ')}`, 'json')
+    .option('-o, --output <file>', 'Write to a file instead of stdout')
+    .option('--group-by <field>', 'Group Markdown/HTML output by: language, topic', 'language')
+    .option('--title <text>', 'Heading of Markdown/HTML output')
+    .option('-l, --lang <language>', 'Filter by programming language')
+    .option('-t, --topic <topic>', 'Filter by topic tag')
+    .option('--list <name>', 'Filter by GitHub star list')
+    .option('--tag <tag>', 'Filter by your own tag (see `tag add`)')
+    .option('--since <date>', 'Filter stars on/after date (e.g. 2026-03-01)')
+    .option('--until <date>', 'Filter stars on/before date (e.g. 2026-03-08)')
+    .option('--days <number>', 'Filter stars from the last N days')
+    .option('--no-archived', 'Exclude archived repositories')
+    .option('--exclude-forks', 'Exclude forks')
+    .option('--license <spdx>', 'Filter by license SPDX id (e.g. MIT, Apache-2.0)')
+    .option('--owner <login>', 'Filter by repository owner')
+    .option('--include-unstarred', 'Also show repos you have unstarred')
+    .option('--only-unstarred', 'Show only repos you have unstarred')
+    .option('-u, --user <login>', 'Export another GitHub user\'s stars (see `sync --user`)')
+    .action(async (opts) => {
+      try {
+        if (!EXPORT_FORMATS.includes(opts.format)) {
+          throw new Error(`Invalid --format value "${opts.format}". Must be one of: ${EXPORT_FORMATS.join(', ')}`);
+        }
+        if (!EXPORT_GROUP_FIELDS.includes(opts.groupBy)) {
+          throw new Error(`Invalid --group-by value "${opts.groupBy}". Must be one of: ${EXPORT_GROUP_FIELDS.join(', ')}`);
+        }
+        await deps.runExport({
+          filters: parseRepoFilterOptions(opts),
+          format: opts.format as ExportFormat,
+          groupBy: opts.groupBy as ExportGroupBy,
+          title: opts.title,
+          output: opts.output,
+        });
+      } catch (err) {
+        deps.error(errorMessage(err));
+        deps.exit(1);
+      }
+    });
+
+  program
+    .command('releases')
+    .description('Show recent releases of your starred repositories (needs `sync --releases`)')
+    .option('--days <number>', 'Releases published in the last N days', '14')
+    .option('-l, --lang <language>', 'Filter by programming language')
+    .option('-t, --topic <topic>', 'Filter by topic tag')
+    .option('--list <name>', 'Filter by GitHub star list')
+    .option('--tag <tag>', 'Filter by your own tag (see `tag add`)')
+    .option('-u, --user <login>', 'Show releases among another GitHub user\'s stars (see `sync --user`)')
+    .option('-n, --limit <number>', 'Max number of releases', '50')
+    .option('--json', 'Output as JSON')
+    .action(async (opts) => {
+      try {
+        await deps.runReleases({
+          days: parsePositiveIntOption(opts.days, '--days', 3650),
+          language: opts.lang,
+          topic: opts.topic,
+          list: opts.list,
+          tag: opts.tag,
+          limit: parsePositiveIntOption(opts.limit, '--limit'),
+          json: opts.json,
+        });
+      } catch (err) {
+        deps.error(errorMessage(err));
+        deps.exit(1);
+      }
+    });
+
+  program
+    .command('trending')
+    .description('Rank your stars by stars gained recently (recorded on every sync)')
+    .option('--days <number>', 'Growth over the last N days', '30')
+    .option('--relative', 'Rank by relative growth instead of stars gained')
+    .option('-l, --lang <language>', 'Filter by programming language')
+    .option('-t, --topic <topic>', 'Filter by topic tag')
+    .option('--list <name>', 'Filter by GitHub star list')
+    .option('--tag <tag>', 'Filter by your own tag (see `tag add`)')
+    .option('-u, --user <login>', 'Rank another GitHub user\'s stars (see `sync --user`)')
+    .option('-n, --limit <number>', 'Max number of repos', '20')
+    .option('--json', 'Output as JSON')
+    .action(async (opts) => {
+      try {
+        await deps.runTrending({
+          days: parsePositiveIntOption(opts.days, '--days', 3650),
+          relative: opts.relative,
+          language: opts.lang,
+          topic: opts.topic,
+          list: opts.list,
+          tag: opts.tag,
+          limit: parsePositiveIntOption(opts.limit, '--limit'),
+          json: opts.json,
+        });
+      } catch (err) {
+        deps.error(errorMessage(err));
+        deps.exit(1);
+      }
+    });
+
+  program
+    .command('history')
+    .description('Show past sync runs with the repos each one added or removed')
+    .option('--repo <owner/repo>', 'Only runs that added or removed this repo')
+    .option('-u, --user <login>', 'Show the sync history of another GitHub user\'s stars (see `sync --user`)')
+    .option('-n, --limit <number>', 'Max number of runs', '20')
+    .option('--json', 'Output as JSON')
+    .action(async (opts) => {
+      try {
+        await deps.runHistory({
+          repo: opts.repo,
+          limit: parsePositiveIntOption(opts.limit, '--limit'),
+          json: opts.json,
+        });
+      } catch (err) {
+        deps.error(errorMessage(err));
+        deps.exit(1);
+      }
+    });
+
+  program
+    .command('stats')
+    .description('Summarize the collection: languages, topics, owners, stars over time, embeddings, size')
+    .option('-u, --user <login>', 'Summarize another GitHub user\'s stars (see `sync --user`)')
+    .option('-n, --top <number>', 'Entries per breakdown', '10')
+    .option('--json', 'Output as JSON')
+    .action(async (opts) => {
+      try {
+        await deps.runStats({
+          top: parsePositiveIntOption(opts.top, '--top'),
+          json: opts.json,
+        });
+      } catch (err) {
+        deps.error(errorMessage(err));
+        deps.exit(1);
+      }
+    });
+
+  program
+    .command('purge')
+    .description('Permanently delete unstarred repos kept as history')
+    .option('--older-than <duration>', 'Only repos unstarred at least this long ago, e.g. 90d, 12h')
+    .option('--dry-run', 'List what would be deleted without deleting it')
+    .option('-u, --user <login>', 'Purge another GitHub user\'s collection (see `sync --user`)')
+    .option('--wait', 'If another starepo process is writing to the index, wait for it instead of failing')
+    .action(async (opts) => {
+      try {
+        await deps.runPurge({
+          olderThanMs: opts.olderThan !== undefined ? parseDuration(opts.olderThan, '--older-than') : undefined,
+          dryRun: opts.dryRun,
+          wait: opts.wait,
+        });
+      } catch (err) {
+        deps.error(errorMessage(err));
+        deps.exit(1);
+      }
+    });
+
+  program
+    .command('doctor')
+    .description('Check the local index and login for problems that hurt search')
+    .option('--fix', 'Repair what can be repaired locally')
+    .option('--wait', 'With --fix, wait for another starepo process writing to the index instead of failing')
+    .option('-u, --user <login>', 'Check another GitHub user\'s collection (see `sync --user`)')
+    .option('--json', 'Output the report as JSON')
+    .action(async (opts) => {
+      let problems: number;
+      try {
+        ({ problems } = await deps.runDoctor({ fix: opts.fix, wait: opts.wait, json: opts.json }));
+      } catch (err) {
+        deps.error(errorMessage(err));
+        deps.exit(1);
+      }
+      if (problems > 0) deps.exit(1);
+    });
+
   program
     .command('info <owner/repo>')
     .description('Show detailed info about a starred repository')
+    .option('-u, --user <login>', 'Look in another GitHub user\'s stars (see `sync --user`)')
     .action(async (fullName: string) => {
       await deps.runInfo(fullName);
     });
 
+  const tag = program
+    .command('tag')
+    .description('Manage your own tags on starred repositories');
+
+  tag
+    .command('add <owner/repo> <tags...>')
+    .description('Add tags to a starred repository')
+    .option('-u, --user <login>', 'Tag a repo in another GitHub user\'s stars (see `sync --user`)')
+    .option('--wait', 'If another starepo process is writing to the index, wait for it instead of failing')
+    .action(async (fullName: string, tags: string[], opts) => {
+      try {
+        await deps.runTagAdd(fullName, tags, { wait: opts.wait });
+      } catch (err) {
+        deps.error(errorMessage(err));
+        deps.exit(1);
+      }
+    });
+
+  tag
+    .command('remove <owner/repo> <tags...>')
+    .description('Remove tags from a starred repository')
+    .option('-u, --user <login>', 'Untag a repo in another GitHub user\'s stars (see `sync --user`)')
+    .option('--wait', 'If another starepo process is writing to the index, wait for it instead of failing')
+    .action(async (fullName: string, tags: string[], opts) => {
+      try {
+        await deps.runTagRemove(fullName, tags, { wait: opts.wait });
+      } catch (err) {
+        deps.error(errorMessage(err));
+        deps.exit(1);
+      }
+    });
+
+  tag
+    .command('list')
+    .description('List your tags with the number of repositories carrying each')
+    .option('-u, --user <login>', 'List tags in another GitHub user\'s stars (see `sync --user`)')
+    .option('--json', 'Output as JSON')
+    .action(async (opts) => {
+      await deps.runTagList({ json: opts.json });
+    });
+
+  program
+    .command('note <owner/repo> [text]')
+    .description('Show or set your private note on a starred repository ("-" reads stdin)')
+    .option('--clear', 'Remove the note')
+    .option('-u, --user <login>', 'Annotate a repo in another GitHub user\'s stars (see `sync --user`)')
+    .option('--wait', 'If another starepo process is writing to the index, wait for it instead of failing')
+    .action(async (fullName: string, text: string | undefined, opts) => {
+      try {
+        await deps.runNote(fullName, text, { clear: opts.clear, wait: opts.wait });
+      } catch (err) {
+        deps.error(errorMessage(err));
+        deps.exit(1);
+      }
+    });
+
+  const profile = program
+    .command('profile')
+    .description('Manage named profiles (separate GitHub accounts or collections)');
+
+  profile
+    .command('list')
+    .description('List profiles (* marks the active one)')
+    .action(async () => {
+      await deps.runProfileList({ active: program.opts().profile });
+    });
+
+  profile
+    .command('add <name>')
+    .description('Create a profile')
+    .action(async (name: string) => {
+      await deps.runProfileAdd(name);
+    });
+
+  profile
+    .command('remove <name>')
+    .description('Delete a profile with its credentials, metadata and database (not the active one)')
+    .action(async (name: string) => {
+      await deps.runProfileRemove(name, { active: program.opts().profile });
+    });
+
   program
     .command('serve')
     .description('Start the MCP server (stdio mode for Claude Desktop / Cursor)')
-    .action(async () => {
-      await deps.runServe();
+    .option('--watch', 'Also sync in the background on an interval')
+    .option('--interval <duration>', 'Time between background syncs, e.g. 90s, 30m, 2h', '30m')
+    .action(async (opts) => {
+      await deps.runServe(opts.watch ? { watchIntervalMs: parseDuration(opts.interval, '--interval') } : {});
     });
 
   return program;
@@ -0,0 +1,189 @@
+import * as lancedb from '@lancedb/lancedb';
+import { Schema, Field, Utf8 } from 'apache-arrow';
+import { getDBPath } from './config.js';
+import { openOrCreateTable, escapeSqlString, buildFullNameInClause } from './db.js';
+import {
+  mergeInsert,
+  deleteRows,
+  createFTSIndex,
+  missingFTSColumns,
+  ftsSearchQuery,
+  querySelectToArray,
+} from './lance-helpers.js';
+
+// Personal tags and notes on starred repos (`tag`, `note`). They live in a
+// side table keyed by full_name, so syncs, upserts and deletes of the `repos`
+// table never touch them; unstarring a repo keeps its annotation for when it
+// is starred again.
+
+export interface RepoAnnotation {
+  full_name: string;
+  tags: string[];
+  note: string;
+  updated_at: string;
+}
+
+interface AnnotationRow {
+  full_name: string;
+  tags: string;         // JSON array string
+  tags_text: string;    // space-separated, for full-text search
+  note: string;
+  updated_at: string;
+}
+
+const TABLE_NAME = 'repo_annotations';
+const TAG_PATTERN = /^[a-z0-9][a-z0-9._-]*$/;
+
+interface AnnotationTableState {
+  table: lancedb.Table;
+  ftsIndexReady: boolean;
+}
+
+const _tables = new Map<string, AnnotationTableState>();   // keyed by DB path (one per collection)
+
+async function getAnnotationsTable(): Promise<AnnotationTableState> {
+  const path = getDBPath();
+  const cached = _tables.get(path);
+  if (cached) return cached;
+  const table = await openOrCreateTable(TABLE_NAME, new Schema([
+    new Field('full_name', new Utf8()),
+    new Field('tags', new Utf8()),
+    new Field('tags_text', new Utf8()),
+    new Field('note', new Utf8()),
+    new Field('updated_at', new Utf8()),
+  ]));
+  const state = { table, ftsIndexReady: false };
+  _tables.set(path, state);
+  return state;
+}
+
+// Tags are case-insensitive single words, e.g. "evaluated" or "used-in-prod".
+export function normalizeTag(tag: string): string {
+  const normalized = tag.trim().toLowerCase();
+  if (!TAG_PATTERN.test(normalized)) {
+    throw new Error(`Invalid tag "${tag}". Use letters, digits, ".", "_" or "-", starting with a letter or digit.`);
+  }
+  return normalized;
+}
+
+function parseTags(tags: string): string[] {
+  try { return JSON.parse(tags) as string[]; } catch { return []; }
+}
+
+function rowToAnnotation(row: AnnotationRow): RepoAnnotation {
+  return { full_name: row.full_name, tags: parseTags(row.tags), note: row.note, updated_at: row.updated_at };
+}
+
+function fullNameWhereClause(fullName: string): string {
+  return `full_name = '${escapeSqlString(fullName)}'`;
+}
+
+export async function getAnnotation(fullName: string): Promise<RepoAnnotation | null> {
+  const { table } = await getAnnotationsTable();
+  const rows = await querySelectToArray<AnnotationRow>(
+    table, ['full_name', 'tags', 'note', 'updated_at'], fullNameWhereClause(fullName),
+  );
+  return rows[0] ? rowToAnnotation(rows[0]) : null;
+}
+
+export async function getAnnotations(fullNames: string[]): Promise<Map<string, RepoAnnotation>> {
+  if (fullNames.length === 0) return new Map();
+  const { table } = await getAnnotationsTable();
+  const rows = await querySelectToArray<AnnotationRow>(
+    table, ['full_name', 'tags', 'note', 'updated_at'], buildFullNameInClause(fullNames),
+  );
+  return new Map(rows.map((row) => [row.full_name, rowToAnnotation(row)]));
+}
+
+// Writes the annotation, or removes the row once it has neither tags nor a
+// note. Returns what is stored afterwards (null when nothing is).
+async function saveAnnotation(fullName: string, tags: string[], note: string): Promise<RepoAnnotation | null> {
+  const state = await getAnnotationsTable();
+  if (tags.length === 0 && !note) {
+    await deleteRows(state.table, fullNameWhereClause(fullName));
+    return null;
+  }
+  const row: AnnotationRow = {
+    full_name: fullName,
+    tags: JSON.stringify(tags),
+    tags_text: tags.join(' '),
+    note,
+    updated_at: new Date().toISOString(),
+  };
+  await mergeInsert(state.table, 'full_name', [row as unknown as Record<string, unknown>]);
+  return rowToAnnotation(row);
+}
+
+export async function addTags(fullName: string, tags: string[]): Promise<RepoAnnotation | null> {
+  const current = await getAnnotation(fullName);
+  const merged = [...new Set([...(current?.tags ?? []), ...tags.map(normalizeTag)])].sort();
+  return saveAnnotation(fullName, merged, current?.note ?? '');
+}
+
+export async function removeTags(fullName: string, tags: string[]): Promise<RepoAnnotation | null> {
+  const current = await getAnnotation(fullName);
+  if (!current) return null;
+  const removed = new Set(tags.map(normalizeTag));
+  return saveAnnotation(fullName, current.tags.filter((tag) => !removed.has(tag)), current.note);
+}
+
+// An empty note clears it.
+export async function setNote(fullName: string, note: string): Promise<RepoAnnotation | null> {
+  const current = await getAnnotation(fullName);
+  return saveAnnotation(fullName, current?.tags ?? [], note.trim());
+}
+
+async function getTaggedRows(): Promise<Array<Pick<AnnotationRow, 'full_name' | 'tags'>>> {
+  const { table } = await getAnnotationsTable();
+  return querySelectToArray<Pick<AnnotationRow, 'full_name' | 'tags'>>(table, ['full_name', 'tags'], "tags_text != ''");
+}
+
+export async function getTaggedNames(tag: string): Promise<string[]> {
+  const normalized = tag.trim().toLowerCase();
+  if (!normalized) return [];
+  return (await getTaggedRows())
+    .filter((row) => parseTags(row.tags).includes(normalized))
+    .map((row) => row.full_name);
+}
+
+// Every tag in use with the number of repos carrying it, most used first.
+export async function listTags(): Promise<Array<{ tag: string; count: number }>> {
+  const counts = new Map<string, number>();
+  for (const row of await getTaggedRows()) {
+    for (const tag of parseTags(row.tags)) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+// Full-text search over notes and tags; returns matching repo names, best
+// match first. Falls back to a substring scan when the index is unavailable.
+export async function searchAnnotationNames(query: string, limit = 20): Promise<string[]> {
+  const state = await getAnnotationsTable();
+  if (await state.table.countRows() === 0) return [];
+
+  if (!state.ftsIndexReady) {
+    try {
+      const missing = await missingFTSColumns(state.table, ['note', 'tags_text']);
+      if (missing.length > 0) await createFTSIndex(state.table, 'annotations_fts_idx', missing);
+      state.ftsIndexReady = true;
+    } catch {
+      // the search below scans unindexed rows
+    }
+  }
+
+  try {
+    const rows = await ftsSearchQuery(state.table, query, ['full_name'], undefined, limit);
+    return rows.map((row) => row.full_name);
+  } catch {
+    const pattern = query.toLowerCase();
+    const rows = await querySelectToArray<Pick<AnnotationRow, 'full_name' | 'note' | 'tags_text'>>(
+      state.table, ['full_name', 'note', 'tags_text'],
+    );
+    return rows
+      .filter((row) => row.note.toLowerCase().includes(pattern) || row.tags_text.includes(pattern))
+      .slice(0, limit)
+      .map((row) => row.full_name);
+  }
+}
@@ -0,0 +1,292 @@
+import * as lancedb from '@lancedb/lancedb';
+import { createReadStream, createWriteStream, existsSync, readFileSync, renameSync, rmSync, writeFileSync } from 'fs';
+import { createHash } from 'crypto';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { StringDecoder } from 'string_decoder';
+import { createGzip, createGunzip } from 'zlib';
+import { getDB } from './db.js';
+import { getActiveProfile, getAllMeta, getCollectionUser, getDBPath, getHistoryFilePath, replaceMeta } from './config.js';
+import { queryIPCBatches, tableFromIPC, tableSchemaIPC } from './lance-helpers.js';
+import { CURRENT_SCHEMA_VERSION } from './storage.js';
+import { EMBEDDING_MODEL, EMBEDDING_VERSION } from './embeddings.js';
+import { VERSION } from './version.js';
+
+// ── Archive format ────────────────────────────────────────────────────────────
+// A backup is one gzip-compressed JSONL file:
+//   1. a manifest (schema version, embedding model, row counts),
+//   2. every LanceDB table of the collection as Arrow IPC (schema record, then
+//      one record per batch), so vectors and column types survive unchanged,
+//   3. meta.json and history.jsonl,
+//   4. a SHA-256 over all preceding lines.
+// Credentials (auth.json, config.json) are never included.
+
+export const BACKUP_FORMAT = 'starepo-backup';
+export const BACKUP_FORMAT_VERSION = 1;
+
+// Transient sync state that must not travel to another machine.
+const UNPORTABLE_META_KEYS = ['sync_checkpoint'];
+
+export interface BackupManifest {
+  format: string;
+  format_version: number;
+  created_at: string;
+  starepo_version: string;
+  profile?: string;                   // profile it was made in (absent in older archives)
+  collection: string | null;          // `--user` collection, null for your own stars
+  schema_version: number;
+  embedding_model: string | null;
+  embedding_version: string | null;
+  tables: Record<string, number>;     // row count per table
+}
+
+type BackupRecord =
+  | { type: 'manifest'; manifest: BackupManifest }
+  | { type: 'table'; name: string; schema: string }
+  | { type: 'batch'; table: string; ipc: string }
+  | { type: 'meta'; data: Record<string, string> }
+  | { type: 'history'; content: string }
+  | { type: 'checksum'; sha256: string };
+
+function encodeIPC(data: Uint8Array): string {
+  return Buffer.from(data).toString('base64');
+}
+
+function decodeIPC(data: string): ReturnType<typeof tableFromIPC> {
+  return tableFromIPC(Buffer.from(data, 'base64'));
+}
+
+async function* backupRecords(manifest: BackupManifest): AsyncGenerator<BackupRecord> {
+  yield { type: 'manifest', manifest };
+
+  const db = await getDB();
+  for (const name of Object.keys(manifest.tables)) {
+    const table = await db.openTable(name);
+    yield { type: 'table', name, schema: encodeIPC(await tableSchemaIPC(table)) };
+    for await (const ipc of queryIPCBatches(table.query())) {
+      yield { type: 'batch', table: name, ipc: encodeIPC(ipc) };
+    }
+  }
+
+  const meta = getAllMeta();
+  for (const key of UNPORTABLE_META_KEYS) delete meta[key];
+  yield { type: 'meta', data: meta };
+
+  const historyPath = getHistoryFilePath();
+  if (existsSync(historyPath)) yield { type: 'history', content: readFileSync(historyPath, 'utf-8') };
+}
+
+async function* checksummedLines(records: AsyncIterable<BackupRecord>): AsyncGenerator<string> {
+  const hash = createHash('sha256');
+  for await (const record of records) {
+    const line = `${JSON.stringify(record)}\n`;
+    hash.update(line);
+    yield line;
+  }
+  yield `${JSON.stringify({ type: 'checksum', sha256: hash.digest('hex') })}\n`;
+}
+
+export async function createBackup(path: string): Promise<BackupManifest> {
+  const db = await getDB();
+  const tables: Record<string, number> = {};
+  for (const name of await db.tableNames()) {
+    tables[name] = await (await db.openTable(name)).countRows();
+  }
+  const meta = getAllMeta();
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    format_version: BACKUP_FORMAT_VERSION,
+    created_at: new Date().toISOString(),
+    starepo_version: VERSION,
+    profile: getActiveProfile(),
+    collection: getCollectionUser(),
+    schema_version: Number.parseInt(meta.schema_version ?? `${CURRENT_SCHEMA_VERSION}`, 10),
+    embedding_model: meta.embedding_model ?? null,
+    embedding_version: meta.embedding_version ?? null,
+    tables,
+  };
+
+  // Written next to the target and renamed, so a failed run never leaves a
+  // truncated file under the final name.
+  const tmpPath = `${path}.tmp`;
+  try {
+    await pipeline(Readable.from(checksummedLines(backupRecords(manifest))), createGzip(), createWriteStream(tmpPath));
+    renameSync(tmpPath, path);
+  } catch (err) {
+    rmSync(tmpPath, { force: true });
+    throw err;
+  }
+  return manifest;
+}
+
+// ── Reading ───────────────────────────────────────────────────────────────────
+
+async function* readLines(path: string): AsyncGenerator<string> {
+  if (!existsSync(path)) throw new Error(`Backup file not found: ${path}`);
+  const source = createReadStream(path);
+  const gunzip = createGunzip();
+  source.on('error', (err) => gunzip.destroy(err));
+  source.pipe(gunzip);
+
+  const decoder = new StringDecoder('utf8');
+  let pending = '';
+  try {
+    for await (const chunk of gunzip) {
+      pending += decoder.write(chunk as Buffer);
+      let newline: number;
+      while ((newline = pending.indexOf('\n')) >= 0) {
+        yield pending.slice(0, newline);
+        pending = pending.slice(newline + 1);
+      }
+    }
+  } catch (err) {
+    throw new Error(`Cannot read backup ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  pending += decoder.end();
+  if (pending) yield pending;
+}
+
+function parseRecord(line: string, path: string): BackupRecord {
+  try {
+    return JSON.parse(line) as BackupRecord;
+  } catch {
+    throw new Error(`Backup ${path} is corrupted (unreadable record).`);
+  }
+}
+
+// Reads the whole archive once: returns the manifest after checking that the
+// trailing checksum matches every record before it.
+export async function verifyBackup(path: string): Promise<BackupManifest> {
+  const hash = createHash('sha256');
+  let manifest: BackupManifest | null = null;
+  let checksum: string | null = null;
+
+  for await (const line of readLines(path)) {
+    if (checksum !== null) throw new Error(`Backup ${path} is corrupted (data after the checksum).`);
+    const record = parseRecord(line, path);
+    if (record.type === 'checksum') {
+      checksum = record.sha256;
+      continue;
+    }
+    if (!manifest) {
+      if (record.type !== 'manifest' || record.manifest?.format !== BACKUP_FORMAT) {
+        throw new Error(`${path} is not a starepo backup.`);
+      }
+      manifest = record.manifest;
+    }
+    hash.update(`${line}\n`);
+  }
+
+  if (!manifest) throw new Error(`${path} is not a starepo backup.`);
+  if (checksum === null) throw new Error(`Backup ${path} is incomplete (missing checksum).`);
+  if (checksum !== hash.digest('hex')) throw new Error(`Backup ${path} is corrupted (checksum mismatch).`);
+  return manifest;
+}
+
+function describeCollection(profile: string | undefined, collection: string | null): string {
+  const stars = collection ? `${collection}'s stars` : 'your own stars';
+  return profile ? `${stars} in profile "${profile}"` : stars;
+}
+
+// Reasons this build cannot use the archive as is, or not in the active
+// collection; empty when compatible.
+export function backupIncompatibilities(manifest: BackupManifest): string[] {
+  const problems: string[] = [];
+  const profile = getActiveProfile();
+  const collection = getCollectionUser();
+  if (manifest.collection !== collection || (manifest.profile !== undefined && manifest.profile !== profile)) {
+    problems.push(
+      `it was made from ${describeCollection(manifest.profile, manifest.collection)}, ` +
+      `not ${describeCollection(profile, collection)}`
+    );
+  }
+  if (manifest.schema_version > CURRENT_SCHEMA_VERSION) {
+    problems.push(
+      `it uses storage schema v${manifest.schema_version}, newer than this starepo supports (v${CURRENT_SCHEMA_VERSION})`
+    );
+  }
+  if (
+    manifest.embedding_model &&
+    (manifest.embedding_model !== EMBEDDING_MODEL || manifest.embedding_version !== EMBEDDING_VERSION)
+  ) {
+    problems.push(
+      `its vectors come from ${manifest.embedding_model}@${manifest.embedding_version}, ` +
+      `but this starepo uses ${EMBEDDING_MODEL}@${EMBEDDING_VERSION}`
+    );
+  }
+  return problems;
+}
+
+export interface RestoreOptions {
+  force?: boolean;    // restore despite collection, schema or embedding model mismatches
+}
+
+// Loads the archive's tables into a fresh LanceDB directory; returns its meta
+// and history (empty when the archive has none).
+async function stageBackup(path: string, stagingPath: string): Promise<{ meta: Record<string, string>; history: string }> {
+  const staging = await lancedb.connect(stagingPath);
+  const tables = new Map<string, lancedb.Table>();
+  let meta: Record<string, string> = {};
+  let history = '';
+  try {
+    for await (const line of readLines(path)) {
+      const record = parseRecord(line, path);
+      switch (record.type) {
+        case 'table':
+          tables.set(record.name, await staging.createEmptyTable(record.name, decodeIPC(record.schema).schema));
+          break;
+        case 'batch':
+          await tables.get(record.table)!.add(decodeIPC(record.ipc));
+          break;
+        case 'meta':
+          meta = record.data;
+          break;
+        case 'history':
+          history = record.content;
+          break;
+      }
+    }
+  } finally {
+    for (const table of tables.values()) table.close();
+    staging.close();
+  }
+  return { meta, history };
+}
+
+// Replaces the active collection's tables, meta and history with the archive.
+// The archive is verified in full before anything local is touched, and is
+// loaded next to the live index and swapped in only once every table is
+// written, so a failed restore leaves the current index as it was.
+export async function restoreBackup(path: string, options: RestoreOptions = {}): Promise<BackupManifest> {
+  const manifest = await verifyBackup(path);
+  if (manifest.format_version > BACKUP_FORMAT_VERSION) {
+    throw new Error(`Backup format v${manifest.format_version} is newer than this starepo supports. Upgrade starepo first.`);
+  }
+  const problems = backupIncompatibilities(manifest);
+  if (problems.length > 0 && !options.force) {
+    throw new Error(`Refusing to restore ${path}: ${problems.join('; ')}. Use --force to restore anyway.`);
+  }
+
+  const livePath = getDBPath();
+  const stagingPath = `${livePath}.restore`;
+  const previousPath = `${livePath}.previous`;
+  rmSync(stagingPath, { recursive: true, force: true });
+  let staged: { meta: Record<string, string>; history: string };
+  try {
+    staged = await stageBackup(path, stagingPath);
+  } catch (err) {
+    rmSync(stagingPath, { recursive: true, force: true });
+    throw err;
+  }
+
+  rmSync(previousPath, { recursive: true, force: true });
+  if (existsSync(livePath)) renameSync(livePath, previousPath);
+  renameSync(stagingPath, livePath);
+  rmSync(previousPath, { recursive: true, force: true });
+
+  // The history belongs to the restored index, so an archive without one
+  // leaves an empty log rather than this machine's runs.
+  replaceMeta(staged.meta);
+  writeFileSync(getHistoryFilePath(), staged.history, 'utf-8');
+  return manifest;
+}
@@ -1,18 +1,165 @@
-import { chmodSync, readFileSync, writeFileSync, mkdirSync, existsSync } from 'fs';
+import {
+  chmodSync,
+  closeSync,
+  linkSync,
+  openSync,
+  readFileSync,
+  renameSync,
+  statSync,
+  writeFileSync,
+  mkdirSync,
+  existsSync,
+  readdirSync,
+  rmSync,
+  writeSync,
+} from 'fs';
+import { hostname } from 'os';
 import { join } from 'path';
+import { execSync } from 'child_process';
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
 
 const APP_NAME = 'starepo';
 
-export function getConfigDir(): string {
+// ── Profiles ──────────────────────────────────────────────────────────────────
+
+// The default profile keeps the original layout (`~/.config/starepo/auth.json`,
+// ...); named profiles live under `profiles/<name>/` in both directories.
+export const DEFAULT_PROFILE = 'default';
+const PROFILES_DIR = 'profiles';
+const PROFILE_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/;
+
+let _activeProfile: string | null = null;
+
+function baseConfigDir(): string {
   const base = process.env.XDG_CONFIG_HOME ?? join(process.env.HOME ?? '~', '.config');
-  const dir = join(base, APP_NAME);
+  return join(base, APP_NAME);
+}
+
+function baseDataDir(): string {
+  const base = process.env.XDG_DATA_HOME ?? join(process.env.HOME ?? '~', '.local', 'share');
+  return join(base, APP_NAME);
+}
+
+function profileDir(base: string, profile: string): string {
+  return profile === DEFAULT_PROFILE ? base : join(base, PROFILES_DIR, profile);
+}
+
+export function validateProfileName(name: string): string {
+  if (!PROFILE_NAME_PATTERN.test(name)) {
+    throw new Error(
+      `Invalid profile name: "${name}". Use letters, digits, "-" and "_" (max 64 characters).`
+    );
+  }
+  return name;
+}
+
+export function getActiveProfile(): string {
+  return _activeProfile ?? (process.env.STAREPO_PROFILE?.trim() || DEFAULT_PROFILE);
+}
+
+export function listProfiles(): string[] {
+  const dir = join(baseConfigDir(), PROFILES_DIR);
+  const named = existsSync(dir)
+    ? readdirSync(dir, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory() && PROFILE_NAME_PATTERN.test(entry.name))
+      .map((entry) => entry.name)
+    : [];
+  return [DEFAULT_PROFILE, ...named.filter((name) => name !== DEFAULT_PROFILE).sort()];
+}
+
+export function profileExists(name: string): boolean {
+  return name === DEFAULT_PROFILE || existsSync(profileDir(baseConfigDir(), name));
+}
+
+// Switches every path helper to the given profile. Unknown names are rejected
+// so a typo never silently starts an empty collection.
+export function useProfile(name: string): void {
+  validateProfileName(name);
+  if (!profileExists(name)) {
+    throw new Error(`Unknown profile "${name}". Create it with \`starepo profile add ${name}\`.`);
+  }
+  _activeProfile = name;
+}
+
+export function createProfile(name: string): void {
+  validateProfileName(name);
+  if (profileExists(name)) throw new Error(`Profile "${name}" already exists.`);
+  mkdirSync(profileDir(baseConfigDir(), name), { recursive: true });
+  mkdirSync(profileDir(baseDataDir(), name), { recursive: true });
+}
+
+// `active` is the profile this invocation selected; its data may be in use.
+export function removeProfile(name: string, active = getActiveProfile()): void {
+  validateProfileName(name);
+  if (name === DEFAULT_PROFILE) throw new Error('The default profile cannot be removed.');
+  if (!profileExists(name)) throw new Error(`Unknown profile "${name}".`);
+  if (name === active) {
+    throw new Error(
+      `Profile "${name}" is the active profile. Select another one (--profile or STAREPO_PROFILE) before removing it.`
+    );
+  }
+  rmSync(profileDir(baseConfigDir(), name), { recursive: true, force: true });
+  rmSync(profileDir(baseDataDir(), name), { recursive: true, force: true });
+}
+
+// ── Paths ─────────────────────────────────────────────────────────────────────
+
+export function getConfigDir(): string {
+  const dir = profileDir(baseConfigDir(), getActiveProfile());
   mkdirSync(dir, { recursive: true });
   return dir;
 }
 
 export function getDataDir(): string {
-  const base = process.env.XDG_DATA_HOME ?? join(process.env.HOME ?? '~', '.local', 'share');
-  const dir = join(base, APP_NAME);
+  const dir = profileDir(baseDataDir(), getActiveProfile());
+  mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
+// ── Collections ───────────────────────────────────────────────────────────────
+
+// A collection is one set of starred repos with its own database and meta. The
+// signed-in user's stars live in the profile root; another user's public stars
+// (`--user <login>`) live in `users/<login>/` under the profile's data dir.
+// The MCP server serves several collections from one process, so a scope set
+// with runInCollection() wins over the process-wide useCollectionUser().
+const USERS_DIR = 'users';
+const GITHUB_LOGIN_PATTERN = /^[A-Za-z0-9](?:[A-Za-z0-9]|-(?=[A-Za-z0-9])){0,38}$/;
+
+const _collectionScope = new AsyncLocalStorage<string | null>();
+let _collectionUser: string | null = null;
+
+export function normalizeGitHubLogin(login: string): string {
+  const trimmed = login.trim().replace(/^@/, '');
+  if (!GITHUB_LOGIN_PATTERN.test(trimmed)) throw new Error(`Invalid GitHub login: "${login}".`);
+  return trimmed.toLowerCase();
+}
+
+export function getCollectionUser(): string | null {
+  const scoped = _collectionScope.getStore();
+  return scoped !== undefined ? scoped : _collectionUser;
+}
+
+export function useCollectionUser(login: string | null | undefined): void {
+  _collectionUser = login ? normalizeGitHubLogin(login) : null;
+}
+
+export function runInCollection<T>(login: string | null | undefined, fn: () => T): T {
+  return _collectionScope.run(login ? normalizeGitHubLogin(login) : null, fn);
+}
+
+export function getCollectionDir(): string {
+  const user = getCollectionUser();
+  if (!user) return getDataDir();
+  const dir = join(getDataDir(), USERS_DIR, user);
+  mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
+// Profile-independent data, e.g. the embedding model cache.
+export function getSharedDataDir(): string {
+  const dir = baseDataDir();
   mkdirSync(dir, { recursive: true });
   return dir;
 }
@@ -22,48 +169,289 @@ export function getAuthFilePath(): string {
 }
 
 export function getMetaFilePath(): string {
-  return join(getConfigDir(), 'meta.json');
+  const user = getCollectionUser();
+  return user ? join(getCollectionDir(), 'meta.json') : join(getConfigDir(), 'meta.json');
+}
+
+// Append-only log of sync runs (see lib/history.ts), kept next to the database.
+export function getHistoryFilePath(): string {
+  return join(getCollectionDir(), 'history.jsonl');
 }
 
 export function getDBPath(): string {
-  return join(getDataDir(), 'lancedb');
+  return join(getCollectionDir(), 'lancedb');
+}
+
+export function getConfigFilePath(): string {
+  return join(getConfigDir(), 'config.json');
+}
+
+// ── Config file ───────────────────────────────────────────────────────────────
+
+export interface StarepoConfig {
+  apiBaseUrl?: string;
+  oauthHost?: string;
+  clientId?: string;
+  deleteUnstarred?: boolean;  // delete unstarred repos instead of keeping them as tombstones
+}
+
+export function readConfig(): StarepoConfig {
+  const path = getConfigFilePath();
+  if (!existsSync(path)) return {};
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8')) as StarepoConfig;
+  } catch (err) {
+    throw new Error(`Invalid config file ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+export function deleteUnstarredRepos(): boolean {
+  return readConfig().deleteUnstarred === true;
+}
+
+// ── GitHub host ───────────────────────────────────────────────────────────────
+
+// GitHub OAuth App client ID for device flow (public, non-secret). Only valid on github.com.
+const GITHUB_CLIENT_ID = 'Ov23liAWejDY5000tT9s';
+const GITHUB_API_URL = 'https://api.github.com';
+const GITHUB_OAUTH_HOST = 'https://github.com';
+
+export interface GitHubHost {
+  apiBaseUrl: string;       // REST base URL, e.g. https://ghe.example.com/api/v3
+  oauthHost: string;        // device flow host, e.g. https://ghe.example.com
+  clientId: string | null;  // null when no OAuth app is configured for this host
+}
+
+function trimUrl(value: string | undefined): string | undefined {
+  const trimmed = value?.trim().replace(/\/+$/, '');
+  return trimmed || undefined;
+}
+
+// Resolution order: env vars, then config.json, then github.com defaults. Setting
+// only one of the two URLs derives the other the way GitHub Enterprise Server
+// lays them out (`<host>/api/v3`).
+export function getGitHubHost(): GitHubHost {
+  const config = readConfig();
+  const apiBaseUrl = trimUrl(process.env.STAREPO_GITHUB_API_URL) ?? trimUrl(config.apiBaseUrl);
+  const oauthHost = trimUrl(process.env.STAREPO_GITHUB_OAUTH_HOST) ?? trimUrl(config.oauthHost);
+  const clientId = process.env.STAREPO_GITHUB_CLIENT_ID?.trim() || config.clientId?.trim() || null;
+
+  const resolvedOAuthHost = oauthHost
+    ?? (apiBaseUrl && apiBaseUrl !== GITHUB_API_URL ? apiBaseUrl.replace(/\/api\/v3$/, '') : GITHUB_OAUTH_HOST);
+  const resolvedApiBaseUrl = apiBaseUrl
+    ?? (resolvedOAuthHost !== GITHUB_OAUTH_HOST ? `${resolvedOAuthHost}/api/v3` : GITHUB_API_URL);
+
+  return {
+    apiBaseUrl: resolvedApiBaseUrl,
+    oauthHost: resolvedOAuthHost,
+    clientId: clientId ?? (resolvedOAuthHost === GITHUB_OAUTH_HOST ? GITHUB_CLIENT_ID : null),
+  };
 }
 
 // ── Auth ──────────────────────────────────────────────────────────────────────
 
 interface AuthData {
-  token: string;
+  token?: string;
+  tokenCommand?: string;  // credential helper run on every use, e.g. `gh auth token`
   createdAt: string;
+  host?: string;          // API base URL the credential was issued for; absent means github.com
 }
 
-export function getToken(): string | null {
+export type TokenSource = 'STAREPO_TOKEN' | 'GITHUB_TOKEN' | 'token-command' | 'auth.json';
+
+export interface ResolvedToken {
+  token: string;
+  source: TokenSource;
+}
+
+const TOKEN_COMMAND_TIMEOUT_MS = 30_000;
+
+function readAuthData(): AuthData | null {
   const path = getAuthFilePath();
   if (!existsSync(path)) return null;
   try {
-    const data: AuthData = JSON.parse(readFileSync(path, 'utf-8'));
-    return data.token ?? null;
+    return JSON.parse(readFileSync(path, 'utf-8')) as AuthData;
   } catch {
     return null;
   }
 }
 
-export function saveToken(token: string): void {
-  const data: AuthData = { token, createdAt: new Date().toISOString() };
+function writeAuthData(data: AuthData): void {
   const path = getAuthFilePath();
-  writeFileSync(path, JSON.stringify(data, null, 2), { encoding: 'utf-8', mode: 0o600 });
+  writeFileAtomic(path, JSON.stringify(data, null, 2), 0o600);
   chmodSync(path, 0o600);
 }
 
+export function runTokenCommand(command: string): string {
+  let output: string;
+  try {
+    output = execSync(command, {
+      encoding: 'utf-8',
+      stdio: ['ignore', 'pipe', 'pipe'],
+      timeout: TOKEN_COMMAND_TIMEOUT_MS,
+    });
+  } catch (err) {
+    const stderr = (err as { stderr?: string }).stderr?.trim();
+    throw new Error(`Token command \`${command}\` failed${stderr ? `: ${stderr}` : '.'}`);
+  }
+  const token = output.trim();
+  if (!token) throw new Error(`Token command \`${command}\` printed no token.`);
+  return token;
+}
+
+// Env vars win so CI can override whatever is stored. Stored credentials are
+// only used for the host they were issued for, so switching apiBaseUrl never
+// sends a github.com token to an Enterprise server (or back).
+export function resolveToken(): ResolvedToken | null {
+  for (const name of ['STAREPO_TOKEN', 'GITHUB_TOKEN'] as const) {
+    const token = process.env[name]?.trim();
+    if (token) return { token, source: name };
+  }
+
+  const data = readAuthData();
+  if (!data || (data.host ?? GITHUB_API_URL) !== getGitHubHost().apiBaseUrl) return null;
+  if (data.tokenCommand) return { token: runTokenCommand(data.tokenCommand), source: 'token-command' };
+  if (data.token) return { token: data.token, source: 'auth.json' };
+  return null;
+}
+
+export function getToken(): string | null {
+  return resolveToken()?.token ?? null;
+}
+
+export function saveToken(token: string): void {
+  writeAuthData({ token, createdAt: new Date().toISOString(), host: getGitHubHost().apiBaseUrl });
+}
+
+export function saveTokenCommand(command: string): void {
+  writeAuthData({ tokenCommand: command, createdAt: new Date().toISOString(), host: getGitHubHost().apiBaseUrl });
+}
+
 export function clearToken(): void {
   const path = getAuthFilePath();
-  writeFileSync(path, '{}', { encoding: 'utf-8', mode: 0o600 });
+  writeFileAtomic(path, '{}', 0o600);
   chmodSync(path, 0o600);
 }
 
 // ── Meta (last_sync, etc.) ────────────────────────────────────────────────────
+// `serve` and a cron `sync` may update meta.json at the same time. Writes go
+// to a temp file that is renamed over the original, so readers never see a
+// torn file, and every read-modify-write holds meta.json.lock so concurrent
+// updates of different keys are not lost.
 
 type MetaData = Record<string, string>;
 
+const META_LOCK_STALE_MS = 2_000;     // a holder only keeps it for one small write
+const META_LOCK_RETRY_MS = 5;
+const _sleepCell = new Int32Array(new SharedArrayBuffer(4));
+
+// Other processes see either the old or the new file, never a partial one.
+export function writeFileAtomic(path: string, content: string, mode?: number): void {
+  const tmpPath = `${path}.${process.pid}.tmp`;
+  try {
+    writeFileSync(tmpPath, content, { encoding: 'utf-8', ...(mode !== undefined ? { mode } : {}) });
+    renameSync(tmpPath, path);
+  } catch (err) {
+    rmSync(tmpPath, { force: true });
+    throw err;
+  }
+}
+
+// Signal 0 only checks that the pid exists; EPERM means it does, owned by
+// another user.
+export function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    return (err as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+function tryCreateMetaLock(lockPath: string, token: string): boolean {
+  let fd: number;
+  try {
+    fd = openSync(lockPath, 'wx');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'EEXIST') return false;
+    throw err;
+  }
+  try {
+    writeSync(fd, token);
+  } finally {
+    closeSync(fd);
+  }
+  return true;
+}
+
+// The holder died on this machine, or held it far longer than one write takes
+// (a holder on another host sharing the home directory).
+function isStaleMetaLock(token: string, mtimeMs: number): boolean {
+  const [host, pid] = token.split(':');
+  if (host === hostname() && pid && !isProcessAlive(Number(pid))) return true;
+  return Date.now() - mtimeMs > META_LOCK_STALE_MS;
+}
+
+// Moves a stale lock file aside instead of deleting it in place, so of several
+// waiters that judged it stale only one breaks it: only one rename succeeds.
+// If the file moved turns out to be a fresh lock taken since it was inspected,
+// it is put back. Returns whether this caller removed a stale lock. Shared by
+// the meta lock and the collection write lock (lock.ts).
+export function claimStaleLockFile(
+  lockPath: string,
+  isStale: (content: string, mtimeMs: number) => boolean,
+): boolean {
+  let content: string;
+  let mtimeMs: number;
+  try {
+    content = readFileSync(lockPath, 'utf-8');
+    mtimeMs = statSync(lockPath).mtimeMs;
+  } catch {
+    return false; // released in the meantime
+  }
+  if (!isStale(content, mtimeMs)) return false;
+  const claimPath = `${lockPath}.${process.pid}.${randomUUID()}.stale`;
+  try {
+    renameSync(lockPath, claimPath);
+  } catch {
+    return false; // another waiter claimed it first
+  }
+  let claimed = true;
+  try {
+    if (readFileSync(claimPath, 'utf-8') !== content || statSync(claimPath).mtimeMs !== mtimeMs) {
+      claimed = false;
+      linkSync(claimPath, lockPath);
+    }
+  } catch {
+    // Someone took the free slot already; their lock wins.
+  } finally {
+    rmSync(claimPath, { force: true });
+  }
+  return claimed;
+}
+
+// Synchronous so setMeta stays usable everywhere; the wait is a few
+// milliseconds since a live holder only does one small write, and a dead
+// holder's lock is broken at once.
+function withMetaLock<T>(fn: () => T): T {
+  const lockPath = `${getMetaFilePath()}.lock`;
+  const token = `${hostname()}:${process.pid}:${randomUUID()}`;
+  while (!tryCreateMetaLock(lockPath, token)) {
+    claimStaleLockFile(lockPath, isStaleMetaLock);
+    Atomics.wait(_sleepCell, 0, 0, META_LOCK_RETRY_MS);
+  }
+  try {
+    return fn();
+  } finally {
+    // Only remove our own lock, never one that replaced it after a stale claim.
+    try {
+      if (readFileSync(lockPath, 'utf-8') === token) rmSync(lockPath, { force: true });
+    } catch {
+      // Already gone.
+    }
+  }
+}
+
 function readMeta(): MetaData {
   const path = getMetaFilePath();
   if (!existsSync(path)) return {};
@@ -75,7 +463,7 @@ function readMeta(): MetaData {
 }
 
 function writeMeta(data: MetaData): void {
-  writeFileSync(getMetaFilePath(), JSON.stringify(data, null, 2), 'utf-8');
+  writeFileAtomic(getMetaFilePath(), JSON.stringify(data, null, 2));
 }
 
 export function getMeta(key: string): string | null {
@@ -83,7 +471,27 @@ export function getMeta(key: string): string | null {
 }
 
 export function setMeta(key: string, value: string): void {
-  const data = readMeta();
-  data[key] = value;
-  writeMeta(data);
+  withMetaLock(() => {
+    const data = readMeta();
+    data[key] = value;
+    writeMeta(data);
+  });
+}
+
+// Whole-file access for backup and restore.
+export function getAllMeta(): Record<string, string> {
+  return readMeta();
+}
+
+export function replaceMeta(data: Record<string, string>): void {
+  withMetaLock(() => writeMeta(data));
+}
+
+export function deleteMeta(key: string): void {
+  withMetaLock(() => {
+    const data = readMeta();
+    if (!(key in data)) return;
+    delete data[key];
+    writeMeta(data);
+  });
 }
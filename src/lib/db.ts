@@ -0,0 +1,52 @@
+import * as lancedb from '@lancedb/lancedb';
+import type { Schema } from 'apache-arrow';
+import { getDBPath } from './config.js';
+
+// ── Shared LanceDB connection ─────────────────────────────────────────────────
+// The `repos` table lives in storage.ts; side tables (lists, annotations, …)
+// open their own tables through this connection so they never import storage.
+
+// Keyed by path: the active collection (see config.getDBPath) can change
+// between calls, e.g. when the MCP server serves another user's stars.
+const _connections = new Map<string, Promise<lancedb.Connection>>();
+
+export async function getDB(): Promise<lancedb.Connection> {
+  const path = getDBPath();
+  let connection = _connections.get(path);
+  if (!connection) {
+    connection = lancedb.connect(path);
+    _connections.set(path, connection);
+  }
+  return connection;
+}
+
+export async function openOrCreateTable(name: string, schema: Schema): Promise<lancedb.Table> {
+  const db = await getDB();
+  const names = await db.tableNames();
+  if (!names.includes(name)) {
+    return await db.createEmptyTable(name, schema, { existOk: true });
+  }
+  return await db.openTable(name);
+}
+
+export function escapeSqlString(value: string): string {
+  return value.replace(/'/g, "''");
+}
+
+// Unparseable dates sort as the epoch instead of failing the write.
+export function toEpochMillis(value: string): number {
+  const millis = Date.parse(value);
+  return Number.isNaN(millis) ? 0 : millis;
+}
+
+export function buildFullNameWhereClause(fullNames: string[]): string | undefined {
+  if (fullNames.length === 0) return undefined;
+  return fullNames
+    .map((fullName) => `full_name = '${escapeSqlString(fullName)}'`)
+    .join(' OR ');
+}
+
+export function buildFullNameInClause(fullNames: string[]): string {
+  if (fullNames.length === 0) return 'false';
+  return `full_name IN (${fullNames.map((fullName) => `'${escapeSqlString(fullName)}'`).join(', ')})`;
+}
@@ -1,7 +1,9 @@
-import { getDataDir } from './config.js';
+import { getSharedDataDir } from './config.js';
 import { setMeta, getMeta } from './config.js';
 import { join } from 'path';
 import { Repo } from './storage.js';
+import { parseTopics } from './topics.js';
+import { getAnnotations, RepoAnnotation } from './annotations.js';
 
 type FeatureExtractionPipeline = (
   text: string,
@@ -58,7 +60,7 @@ async function getPipeline(): Promise<FeatureExtractionPipeline> {
 
     // Store model cache in XDG data dir (~/.local/share/starepo/models)
     // instead of node_modules, so it persists across installs and updates.
-    const modelCacheDir = join(getDataDir(), 'models');
+    const modelCacheDir = join(getSharedDataDir(), 'models');
     env.cacheDir = modelCacheDir;
 
     process.stderr.write(`Loading embedding model ${EMBEDDING_MODEL} (${EMBEDDING_MODEL_DTYPE})...\n`);
@@ -125,12 +127,14 @@ export async function getEmbeddingStatus(): Promise<EmbeddingStatus> {
   };
 }
 
-export function repoToText(repo: Pick<Repo, 'name' | 'full_name' | 'description' | 'topics' | 'language'>): string {
-  const topics = (() => {
-    try { return (JSON.parse(repo.topics) as string[]).join(' '); }
-    catch { return repo.topics; }
-  })();
-  return [repo.name, repo.full_name, repo.description, topics, repo.language]
+// Personal tags and notes are embedded with the repo, so semantic search also
+// matches what you wrote about it.
+export function repoToText(
+  repo: Pick<Repo, 'name' | 'full_name' | 'description' | 'topics' | 'language'>,
+  annotation?: Pick<RepoAnnotation, 'tags' | 'note'> | null,
+): string {
+  const topics = parseTopics(repo.topics).join(' ');
+  return [repo.name, repo.full_name, repo.description, topics, repo.language, ...(annotation?.tags ?? []), annotation?.note]
     .filter(Boolean)
     .join(' ');
 }
@@ -176,6 +180,7 @@ export async function generateAndStoreEmbeddings(
     };
   }
 
+  const annotations = await getAnnotations(repos.map((repo) => repo.full_name));
   let generatedDone = 0;
   let nextIndex = 0;
   const generated: Array<{ fullName: string; vector: number[] }> = new Array(repos.length);
@@ -186,7 +191,7 @@ export async function generateAndStoreEmbeddings(
       if (index >= repos.length) return;
 
       const repo = repos[index];
-      const vector = await generate(repoToText(repo));
+      const vector = await generate(repoToText(repo, annotations.get(repo.full_name)));
       validateGeneratedEmbedding(vector, repo.full_name, EMBEDDING_DIM);
       generated[index] = { fullName: repo.full_name, vector };
       generatedDone++;
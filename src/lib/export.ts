@@ -0,0 +1,176 @@
+import { Repo } from './storage.js';
+import { parseTopics } from './topics.js';
+
+// Shapes a stored repo for people and tools outside starepo: the MCP server
+// responses and every `export` format use this object.
+
+export type ExportFormat = 'json' | 'ndjson' | 'csv' | 'markdown' | 'html';
+export type ExportGroupBy = 'language' | 'topic';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['json', 'ndjson', 'csv', 'markdown', 'html'];
+export const EXPORT_GROUP_FIELDS: ExportGroupBy[] = ['language', 'topic'];
+
+const UNGROUPED = 'Other';
+
+export function repoToObject(repo: Repo): Record<string, unknown> {
+  return {
+    id: repo.id,
+    full_name: repo.full_name,
+    name: repo.name,
+    description: repo.description,
+    url: repo.html_url,
+    homepage: repo.homepage,
+    language: repo.language,
+    topics: parseTopics(repo.topics),
+    stars: repo.stars_count,
+    forks: repo.forks_count,
+    starred_at: repo.starred_at,
+    archived: repo.archived,
+    fork: repo.fork,
+    license: repo.license || null,
+    owner: repo.owner_login,
+    owner_type: repo.owner_type,
+    created_at: repo.created_at,
+    pushed_at: repo.pushed_at,
+    open_issues: repo.open_issues_count,
+    visibility: repo.visibility,
+    unstarred_at: repo.unstarred_at || null,
+  };
+}
+
+// ── Row formats (streamed) ────────────────────────────────────────────────────
+
+// Writes one format incrementally: `begin`, one `row` per repo, then `end`.
+export interface RowFormatter {
+  begin(): string;
+  row(repo: Repo, index: number): string;
+  end(rowCount: number): string;
+}
+
+// Same keys and order as repoToObject.
+const CSV_COLUMNS = [
+  'id', 'full_name', 'name', 'description', 'url', 'homepage', 'language', 'topics', 'stars', 'forks',
+  'starred_at', 'archived', 'fork', 'license', 'owner', 'owner_type', 'created_at', 'pushed_at',
+  'open_issues', 'visibility', 'unstarred_at',
+];
+
+function csvCell(value: unknown): string {
+  const text = Array.isArray(value) ? value.join(';') : value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function createRowFormatter(format: 'json' | 'ndjson' | 'csv'): RowFormatter {
+  switch (format) {
+    case 'json':
+      return {
+        begin: () => '[',
+        row: (repo, index) => `${index > 0 ? ',' : ''}\n${JSON.stringify(repoToObject(repo), null, 2).replace(/^/gm, '  ')}`,
+        end: (rowCount) => (rowCount > 0 ? '\n]\n' : ']\n'),
+      };
+    case 'ndjson':
+      return {
+        begin: () => '',
+        row: (repo) => `${JSON.stringify(repoToObject(repo))}\n`,
+        end: () => '',
+      };
+    case 'csv':
+      return {
+        begin: () => `${CSV_COLUMNS.join(',')}\r\n`,
+        row: (repo) => {
+          const record = repoToObject(repo);
+          return `${CSV_COLUMNS.map((column) => csvCell(record[column])).join(',')}\r\n`;
+        },
+        end: () => '',
+      };
+  }
+}
+
+// ── Grouped documents (Markdown / HTML) ───────────────────────────────────────
+
+export interface RepoGroup {
+  name: string;
+  repos: Repo[];
+}
+
+// Groups are ordered by name with the catch-all last; repos inside a group by
+// stars. With `topic` a repo is listed under every topic it has.
+export function groupRepos(repos: Repo[], by: ExportGroupBy): RepoGroup[] {
+  const groups = new Map<string, Repo[]>();
+  const add = (name: string, repo: Repo) => {
+    const members = groups.get(name) ?? [];
+    members.push(repo);
+    groups.set(name, members);
+  };
+
+  for (const repo of repos) {
+    if (by === 'language') {
+      add(repo.language || UNGROUPED, repo);
+    } else {
+      const topics = parseTopics(repo.topics);
+      if (topics.length === 0) add(UNGROUPED, repo);
+      for (const topic of topics) add(topic, repo);
+    }
+  }
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => {
+      if (a === UNGROUPED || b === UNGROUPED) return a === UNGROUPED ? 1 : -1;
+      return a.localeCompare(b, undefined, { sensitivity: 'base' });
+    })
+    .map(([name, members]) => ({
+      name,
+      repos: [...members].sort((a, b) => b.stars_count - a.stars_count || a.full_name.localeCompare(b.full_name)),
+    }));
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]<>|])/g, '\\$1').replace(/\s+/g, ' ').trim();
+}
+
+export function formatMarkdown(groups: RepoGroup[], title: string): string {
+  const lines = [`# ${title}`, ''];
+  for (const group of groups) {
+    lines.push(`## ${escapeMarkdown(group.name)} (${group.repos.length})`, '');
+    for (const repo of group.repos) {
+      const description = repo.description ? ` - ${escapeMarkdown(repo.description)}` : '';
+      lines.push(`- [${escapeMarkdown(repo.full_name)}](${repo.html_url})${description} (★ ${repo.stars_count})`);
+    }
+    lines.push('');
+  }
+  return lines.join('\n');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export function formatHtml(groups: RepoGroup[], title: string): string {
+  const lines = [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(title)}</title>`,
+    '</head>',
+    '<body>',
+    `<h1>${escapeHtml(title)}</h1>`,
+  ];
+  for (const group of groups) {
+    lines.push(`<h2>${escapeHtml(group.name)} (${group.repos.length})</h2>`, '<ul>');
+    for (const repo of group.repos) {
+      const description = repo.description ? ` - ${escapeHtml(repo.description)}` : '';
+      lines.push(
+        `<li><a href="${escapeHtml(repo.html_url)}">${escapeHtml(repo.full_name)}</a>${description} ` +
+        `<span class="stars">★ ${repo.stars_count}</span></li>`
+      );
+    }
+    lines.push('</ul>');
+  }
+  lines.push('</body>', '</html>', '');
+  return lines.join('\n');
+}
@@ -0,0 +1,4 @@
+// Human-readable sizes for command output (backup archives, database size).
+export function formatSize(bytes: number): string {
+  return bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
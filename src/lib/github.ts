@@ -1,31 +1,34 @@
 import { Octokit } from '@octokit/rest';
 import { createOAuthDeviceAuth } from '@octokit/auth-oauth-device';
-import { RepoInput } from './storage.js';
+import { RepoInput, RepoMetadata } from './storage.js';
+import { StarList } from './lists.js';
+import { RepoRelease, excerptReleaseNotes } from './releases.js';
+import { getConfigFilePath, getGitHubHost } from './config.js';
+import { installRateLimitHandling, RetryOptions } from './rate-limit.js';
 
-// GitHub OAuth App client ID for device flow (public, non-secret)
-const GITHUB_CLIENT_ID = 'Ov23liAWejDY5000tT9s';
+export interface OctokitOptions {
+  baseUrl?: string;
+  retry?: Partial<RetryOptions>;
+}
 
-export function createOctokit(token: string): Octokit {
-  return new Octokit({
+export function createOctokit(token: string, options: OctokitOptions = {}): Octokit {
+  const octokit = new Octokit({
     auth: token,
-    throttle: {
-      onRateLimit: (retryAfter: number, options: { method: string; url: string }, _octokit: Octokit, retryCount: number) => {
-        console.warn(`Rate limit hit for ${options.method} ${options.url}. Waiting ${retryAfter}s...`);
-        return retryCount < 2;
-      },
-      onSecondaryRateLimit: (_retryAfter: number, options: { method: string; url: string }) => {
-        console.warn(`Secondary rate limit for ${options.method} ${options.url}`);
-        return false;
-      },
-    },
+    baseUrl: options.baseUrl ?? getGitHubHost().apiBaseUrl,
   });
+  installRateLimitHandling(octokit, options.retry);
+  return octokit;
 }
 
 export interface DeviceFlowResult {
   token: string;
 }
 
-interface StarredRepoItem {
+export const READ_SCOPES = ['read:user'];
+// Starring and unstarring need public_repo (repo for private repositories).
+export const WRITE_SCOPES = ['read:user', 'public_repo'];
+
+export interface StarredRepoItem {
   repo: {
     id: number;
     full_name: string;
@@ -38,15 +41,33 @@ interface StarredRepoItem {
     stargazers_count: number;
     forks_count: number;
     updated_at: string | null;
+    archived?: boolean;
+    fork?: boolean;
+    license?: { spdx_id: string | null } | null;
+    owner?: { login: string; type: string };
+    created_at?: string | null;
+    pushed_at?: string | null;
+    open_issues_count?: number;
+    visibility?: string;
   };
   starred_at?: string;
 }
 
-export async function runDeviceFlow(): Promise<DeviceFlowResult> {
+export async function runDeviceFlow(scopes: string[] = READ_SCOPES): Promise<DeviceFlowResult> {
+  const host = getGitHubHost();
+  if (!host.clientId) {
+    throw new Error(
+      `No OAuth client ID configured for ${host.oauthHost}. Register an OAuth app with device flow enabled ` +
+      `on that server and set "clientId" in ${getConfigFilePath()} or STAREPO_GITHUB_CLIENT_ID.`
+    );
+  }
+
   const auth = createOAuthDeviceAuth({
     clientType: 'oauth-app',
-    clientId: GITHUB_CLIENT_ID,
-    scopes: ['read:user'],
+    clientId: host.clientId,
+    scopes,
+    // The device flow endpoints live on the web host, not the API host.
+    request: new Octokit({ baseUrl: host.oauthHost }).request,
     onVerification(verification) {
       console.log('\nTo authenticate with GitHub:');
       console.log(`  1. Open: ${verification.verification_uri}`);
@@ -59,7 +80,7 @@ export async function runDeviceFlow(): Promise<DeviceFlowResult> {
   return { token: result.token };
 }
 
-function mapToRepoInput(item: StarredRepoItem): RepoInput {
+export function mapToRepoInput(item: StarredRepoItem): RepoInput {
   return {
     id: item.repo.id,
     full_name: item.repo.full_name,
@@ -73,6 +94,15 @@ function mapToRepoInput(item: StarredRepoItem): RepoInput {
     forks_count: item.repo.forks_count,
     starred_at: item.starred_at ?? '',
     updated_at: item.repo.updated_at ?? '',
+    archived: item.repo.archived ?? false,
+    fork: item.repo.fork ?? false,
+    license: item.repo.license?.spdx_id ?? '',
+    owner_login: item.repo.owner?.login ?? item.repo.full_name.split('/')[0],
+    owner_type: item.repo.owner?.type ?? '',
+    created_at: item.repo.created_at ?? '',
+    pushed_at: item.repo.pushed_at ?? '',
+    open_issues_count: item.repo.open_issues_count ?? 0,
+    visibility: item.repo.visibility ?? '',
   };
 }
 
@@ -88,7 +118,7 @@ function isStringArray(value: unknown): value is string[] {
   return Array.isArray(value) && value.every((item) => typeof item === 'string');
 }
 
-function isStarredRepoItem(value: unknown): value is StarredRepoItem {
+export function isStarredRepoItem(value: unknown): value is StarredRepoItem {
   if (!isRecord(value) || !isRecord(value.repo)) return false;
   const { repo } = value;
 
@@ -104,6 +134,16 @@ function isStarredRepoItem(value: unknown): value is StarredRepoItem {
     typeof repo.stargazers_count === 'number' &&
     typeof repo.forks_count === 'number' &&
     isNullableString(repo.updated_at) &&
+    (repo.archived === undefined || typeof repo.archived === 'boolean') &&
+    (repo.fork === undefined || typeof repo.fork === 'boolean') &&
+    (repo.license === undefined || repo.license === null ||
+      (isRecord(repo.license) && isNullableString(repo.license.spdx_id))) &&
+    (repo.owner === undefined ||
+      (isRecord(repo.owner) && typeof repo.owner.login === 'string' && typeof repo.owner.type === 'string')) &&
+    (repo.created_at === undefined || isNullableString(repo.created_at)) &&
+    (repo.pushed_at === undefined || isNullableString(repo.pushed_at)) &&
+    (repo.open_issues_count === undefined || typeof repo.open_issues_count === 'number') &&
+    (repo.visibility === undefined || typeof repo.visibility === 'string') &&
     (value.starred_at === undefined || typeof value.starred_at === 'string')
   );
 }
@@ -115,21 +155,67 @@ function starredResponseItems(data: unknown): StarredRepoItem[] {
   return data;
 }
 
+export interface StarStreamOptions {
+  startPage?: number;
+  since?: Date;   // stop at the first star older than this
+  user?: string;  // walk this user's public stars instead of the signed-in user's
+}
+
+// Streams the starred feed one page at a time so callers can persist each page
+// as it arrives. Full walks go oldest-first: new stars land on the last page,
+// so a page number stays a valid resume point between runs. Incremental walks
+// go newest-first and stop at the first star older than `since`.
+export async function streamStars(
+  octokit: Octokit,
+  onPage: (repos: RepoInput[], page: number) => Promise<void> | void,
+  options: StarStreamOptions = {}
+): Promise<number> {
+  const { startPage = 1, since, user } = options;
+  const params = {
+    per_page: 100,
+    page: startPage,
+    sort: 'created',
+    direction: since ? 'desc' : 'asc',
+    headers: { Accept: 'application/vnd.github.star+json' },
+  } as const;
+  const pages = user
+    ? octokit.paginate.iterator(octokit.activity.listReposStarredByUser, { ...params, username: user })
+    : octokit.paginate.iterator(octokit.activity.listReposStarredByAuthenticatedUser, params);
+  let page = startPage;
+  let total = 0;
+
+  for await (const response of pages) {
+    const items = starredResponseItems(response.data);
+    const repos: RepoInput[] = [];
+    let done = false;
+
+    for (const item of items) {
+      const starredAt = item.starred_at ? new Date(item.starred_at) : null;
+      if (since && starredAt && starredAt < since) {
+        done = true;
+        break;
+      }
+      repos.push(mapToRepoInput(item));
+    }
+
+    total += repos.length;
+    await onPage(repos, page);
+    page++;
+    if (done) break;
+  }
+
+  return total;
+}
+
 export async function fetchAllStars(
   octokit: Octokit,
   onPage?: (count: number, total: number) => void
 ): Promise<RepoInput[]> {
   const results: RepoInput[] = [];
-
-  for await (const response of octokit.paginate.iterator(
-    octokit.activity.listReposStarredByAuthenticatedUser,
-    { per_page: 100, headers: { Accept: 'application/vnd.github.star+json' } }
-  )) {
-    const items = starredResponseItems(response.data);
-    results.push(...items.map(mapToRepoInput));
+  await streamStars(octokit, (repos) => {
+    results.push(...repos);
     onPage?.(results.length, -1);
-  }
-
+  });
   return results;
 }
 
@@ -139,28 +225,338 @@ export async function fetchStarsSince(
   onPage?: (count: number) => void
 ): Promise<RepoInput[]> {
   const results: RepoInput[] = [];
+  await streamStars(octokit, (repos) => {
+    results.push(...repos);
+    onPage?.(results.length);
+  }, { since });
+  return results;
+}
 
-  for await (const response of octokit.paginate.iterator(
-    octokit.activity.listReposStarredByAuthenticatedUser,
-    { per_page: 100, sort: 'created', direction: 'desc', headers: { Accept: 'application/vnd.github.star+json' } }
-  )) {
-    const items = starredResponseItems(response.data);
-    let done = false;
+interface GraphQLPageInfo {
+  hasNextPage: boolean;
+  endCursor: string | null;
+}
 
-    for (const item of items) {
-      const starredAt = item.starred_at ? new Date(item.starred_at) : null;
-      if (starredAt && starredAt < since) {
-        done = true;
-        break;
+interface UserListItems {
+  pageInfo: GraphQLPageInfo;
+  nodes: Array<{ nameWithOwner?: string } | null>;
+}
+
+interface UserListNode {
+  id: string;
+  name: string;
+  slug: string;
+  description: string | null;
+  items: UserListItems;
+}
+
+// Star queries run against the signed-in user (`viewer`) or, for another
+// user's public collection, `user(login:)`; both are aliased to `owner`.
+function starOwnerQuery(user: string | undefined, variables: string, body: string): string {
+  const declarations = [variables, user ? '$login: String!' : ''].filter(Boolean).join(', ');
+  const owner = user ? 'owner: user(login: $login)' : 'owner: viewer';
+  return `query${declarations ? `(${declarations})` : ''} { ${owner} { ${body} } }`;
+}
+
+function starOwner<T>(data: { owner: T | null }, user: string | undefined): T {
+  if (!data.owner) throw new Error(`GitHub user "${user}" not found.`);
+  return data.owner;
+}
+
+const STAR_LISTS_FIELDS = `
+  lists(first: 50, after: $cursor) {
+    pageInfo { hasNextPage endCursor }
+    nodes {
+      id
+      name
+      slug
+      description
+      items(first: 100) {
+        pageInfo { hasNextPage endCursor }
+        nodes { ... on Repository { nameWithOwner } }
       }
-      results.push(mapToRepoInput(item));
     }
+  }
+`;
 
-    onPage?.(results.length);
-    if (done) break;
+const STAR_LIST_ITEMS_QUERY = `
+  query($id: ID!, $cursor: String) {
+    node(id: $id) {
+      ... on UserList {
+        items(first: 100, after: $cursor) {
+          pageInfo { hasNextPage endCursor }
+          nodes { ... on Repository { nameWithOwner } }
+        }
+      }
+    }
   }
+`;
 
-  return results;
+function listItemNames(items: UserListItems): string[] {
+  return items.nodes
+    .map((node) => node?.nameWithOwner)
+    .filter((name): name is string => typeof name === 'string');
+}
+
+export async function fetchStarLists(octokit: Octokit, user?: string): Promise<StarList[]> {
+  const query = starOwnerQuery(user, '$cursor: String', STAR_LISTS_FIELDS);
+  const lists: StarList[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const data: { owner: { lists: { pageInfo: GraphQLPageInfo; nodes: UserListNode[] } } | null } =
+      await octokit.graphql(query, { cursor, ...(user ? { login: user } : {}) });
+    const page = starOwner(data, user).lists;
+
+    for (const node of page.nodes) {
+      const repos = listItemNames(node.items);
+      let items = node.items;
+      while (items.pageInfo.hasNextPage) {
+        const more: { node: { items: UserListItems } } =
+          await octokit.graphql(STAR_LIST_ITEMS_QUERY, { id: node.id, cursor: items.pageInfo.endCursor });
+        items = more.node.items;
+        repos.push(...listItemNames(items));
+      }
+      lists.push({ name: node.name, slug: node.slug, description: node.description ?? '', repos });
+    }
+
+    cursor = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : null;
+  } while (cursor);
+
+  return lists;
+}
+
+const STARRED_TOTAL_COUNT_FIELDS = 'starredRepositories { totalCount }';
+
+const STARRED_NAMES_FIELDS = `
+  starredRepositories(first: 100, after: $cursor) {
+    pageInfo { hasNextPage endCursor }
+    nodes { nameWithOwner }
+  }
+`;
+
+export async function fetchStarredTotalCount(octokit: Octokit, user?: string): Promise<number> {
+  const data: { owner: { starredRepositories: { totalCount: number } } | null } =
+    await octokit.graphql(starOwnerQuery(user, '', STARRED_TOTAL_COUNT_FIELDS), user ? { login: user } : {});
+  return starOwner(data, user).starredRepositories.totalCount;
+}
+
+// Identifier-only walk of the starred collection, used to detect unstars
+// without re-downloading full repository payloads.
+export async function fetchStarredFullNames(octokit: Octokit, user?: string): Promise<string[]> {
+  const query = starOwnerQuery(user, '$cursor: String', STARRED_NAMES_FIELDS);
+  const names: string[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const data: {
+      owner: { starredRepositories: { pageInfo: GraphQLPageInfo; nodes: Array<{ nameWithOwner: string }> } } | null;
+    } = await octokit.graphql(query, { cursor, ...(user ? { login: user } : {}) });
+    const page = starOwner(data, user).starredRepositories;
+    names.push(...page.nodes.map((node) => node.nameWithOwner));
+    cursor = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : null;
+  } while (cursor);
+
+  return names;
+}
+
+interface RepositoryMetadataNode {
+  description: string | null;
+  homepageUrl: string | null;
+  primaryLanguage: { name: string } | null;
+  repositoryTopics: { nodes: Array<{ topic: { name: string } }> };
+  stargazerCount: number;
+  forkCount: number;
+  updatedAt: string | null;
+  isArchived: boolean;
+  isFork: boolean;
+  licenseInfo: { spdxId: string | null } | null;
+  owner: { login: string; __typename: string };
+  createdAt: string;
+  pushedAt: string | null;
+  issues: { totalCount: number };
+  pullRequests: { totalCount: number };
+  visibility: string;
+}
+
+const REPOSITORY_METADATA_FIELDS = `
+  description
+  homepageUrl
+  primaryLanguage { name }
+  repositoryTopics(first: 20) { nodes { topic { name } } }
+  stargazerCount
+  forkCount
+  updatedAt
+  isArchived
+  isFork
+  licenseInfo { spdxId }
+  owner { login __typename }
+  createdAt
+  pushedAt
+  issues(states: OPEN) { totalCount }
+  pullRequests(states: OPEN) { totalCount }
+  visibility
+`;
+
+function splitFullName(fullName: string): [string, string] {
+  const index = fullName.indexOf('/');
+  return [fullName.slice(0, index), fullName.slice(index + 1)];
+}
+
+// Re-pulls metadata for already-starred repos in one aliased GraphQL query.
+// Callers should batch (GitHub caps query complexity); repos that no longer
+// resolve (deleted, made private) are simply omitted from the result.
+export async function fetchRepoMetadata(octokit: Octokit, fullNames: string[]): Promise<RepoMetadata[]> {
+  if (fullNames.length === 0) return [];
+
+  const variables: Record<string, string> = {};
+  const declarations: string[] = [];
+  const selections: string[] = [];
+  fullNames.forEach((fullName, index) => {
+    const [owner, name] = splitFullName(fullName);
+    variables[`o${index}`] = owner;
+    variables[`n${index}`] = name;
+    declarations.push(`$o${index}: String!`, `$n${index}: String!`);
+    selections.push(`r${index}: repository(owner: $o${index}, name: $n${index}) { ${REPOSITORY_METADATA_FIELDS} }`);
+  });
+
+  const query = `query(${declarations.join(', ')}) { ${selections.join('\n')} }`;
+  let data: Record<string, RepositoryMetadataNode | null>;
+  try {
+    data = await octokit.graphql(query, variables);
+  } catch (err) {
+    // GraphQL reports missing repositories as errors alongside partial data.
+    const partial = (err as { data?: Record<string, RepositoryMetadataNode | null> }).data;
+    if (!partial) throw err;
+    data = partial;
+  }
+
+  return fullNames.flatMap((fullName, index) => {
+    const node = data[`r${index}`];
+    if (!node) return [];
+    return [{
+      full_name: fullName,
+      description: node.description ?? '',
+      homepage: node.homepageUrl ?? '',
+      language: node.primaryLanguage?.name ?? '',
+      topics: node.repositoryTopics.nodes.map((item) => item.topic.name),
+      stars_count: node.stargazerCount,
+      forks_count: node.forkCount,
+      updated_at: node.updatedAt ?? '',
+      archived: node.isArchived,
+      fork: node.isFork,
+      license: node.licenseInfo?.spdxId ?? '',
+      owner_login: node.owner.login,
+      owner_type: node.owner.__typename,
+      created_at: node.createdAt,
+      pushed_at: node.pushedAt ?? '',
+      // REST's open_issues_count includes open pull requests; match it.
+      open_issues_count: node.issues.totalCount + node.pullRequests.totalCount,
+      visibility: node.visibility.toLowerCase(),
+    }];
+  });
+}
+
+interface LatestReleaseNode {
+  latestRelease: {
+    tagName: string;
+    name: string | null;
+    publishedAt: string | null;
+    url: string;
+    description: string | null;
+  } | null;
+}
+
+// Latest (non-prerelease, non-draft) release per repo, batched like
+// fetchRepoMetadata. Repos without releases or that no longer resolve are omitted.
+export async function fetchLatestReleases(octokit: Octokit, fullNames: string[]): Promise<RepoRelease[]> {
+  if (fullNames.length === 0) return [];
+
+  const variables: Record<string, string> = {};
+  const declarations: string[] = [];
+  const selections: string[] = [];
+  fullNames.forEach((fullName, index) => {
+    const [owner, name] = splitFullName(fullName);
+    variables[`o${index}`] = owner;
+    variables[`n${index}`] = name;
+    declarations.push(`$o${index}: String!`, `$n${index}: String!`);
+    selections.push(
+      `r${index}: repository(owner: $o${index}, name: $n${index}) ` +
+      `{ latestRelease { tagName name publishedAt url description } }`
+    );
+  });
+
+  const query = `query(${declarations.join(', ')}) { ${selections.join('\n')} }`;
+  let data: Record<string, LatestReleaseNode | null>;
+  try {
+    data = await octokit.graphql(query, variables);
+  } catch (err) {
+    const partial = (err as { data?: Record<string, LatestReleaseNode | null> }).data;
+    if (!partial) throw err;
+    data = partial;
+  }
+
+  return fullNames.flatMap((fullName, index) => {
+    const release = data[`r${index}`]?.latestRelease;
+    if (!release?.publishedAt) return [];
+    return [{
+      full_name: fullName,
+      tag_name: release.tagName,
+      name: release.name ?? '',
+      published_at: release.publishedAt,
+      url: release.url,
+      notes: excerptReleaseNotes(release.description ?? ''),
+    }];
+  });
+}
+
+// Fetches a single repository in the shape of a starred feed item, for repos
+// starred from starepo itself (the starred feed would only list it next sync).
+export async function fetchRepository(
+  octokit: Octokit,
+  fullName: string,
+  starredAt = new Date().toISOString()
+): Promise<RepoInput> {
+  const [owner, repo] = splitFullName(fullName);
+  let data: unknown;
+  try {
+    ({ data } = await octokit.repos.get({ owner, repo }));
+  } catch (err) {
+    if ((err as { status?: number }).status === 404) throw new Error(`Repository ${fullName} not found on GitHub.`);
+    throw err;
+  }
+
+  const item = { repo: data, starred_at: starredAt };
+  if (!isStarredRepoItem(item)) throw new Error(`Unexpected GitHub repository response for ${fullName}.`);
+  return mapToRepoInput(item);
+}
+
+// GitHub answers 404 (not 403) when an OAuth token lacks the scope to star.
+function starPermissionError(action: 'star' | 'unstar', fullName: string, err: unknown): unknown {
+  const status = (err as { status?: number }).status;
+  if (status !== 403 && status !== 404) return err;
+  return new Error(
+    `GitHub refused to ${action} ${fullName} (HTTP ${status}). The token probably lacks the public_repo scope; ` +
+    `run \`starepo auth --write\` or use a token that has it.`
+  );
+}
+
+export async function starRepository(octokit: Octokit, fullName: string): Promise<void> {
+  const [owner, repo] = splitFullName(fullName);
+  try {
+    await octokit.activity.starRepoForAuthenticatedUser({ owner, repo });
+  } catch (err) {
+    throw starPermissionError('star', fullName, err);
+  }
+}
+
+export async function unstarRepository(octokit: Octokit, fullName: string): Promise<void> {
+  const [owner, repo] = splitFullName(fullName);
+  try {
+    await octokit.activity.unstarRepoForAuthenticatedUser({ owner, repo });
+  } catch (err) {
+    throw starPermissionError('unstar', fullName, err);
+  }
 }
 
 export async function getAuthenticatedUser(octokit: Octokit): Promise<string> {
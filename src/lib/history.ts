@@ -0,0 +1,50 @@
+import { appendFileSync, existsSync, readFileSync } from 'fs';
+import { getHistoryFilePath } from './config.js';
+
+// One JSON line per completed sync run, appended to `history.jsonl` in the
+// collection's data dir. Entries are never rewritten, so the file answers
+// "when did this repo appear in / disappear from my stars?".
+
+export type SyncMode = 'incremental' | 'full' | 'forced';
+
+export interface SyncHistoryEntry {
+  started_at: string;
+  finished_at: string;
+  mode: SyncMode;
+  resumed: boolean;               // continued from an interrupted run's checkpoint
+  added: string[];                // repos that were not stored before this run
+  removed: string[];              // repos deleted because they are no longer starred
+  metadata_changed: number | null; // rows rewritten by a metadata refresh; null when no refresh ran
+  embedded: number;               // vectors generated by this run
+  total: number;                  // stored stars after the run
+}
+
+export function appendSyncHistory(entry: SyncHistoryEntry): void {
+  appendFileSync(getHistoryFilePath(), `${JSON.stringify(entry)}\n`, 'utf-8');
+}
+
+function isHistoryEntry(value: unknown): value is SyncHistoryEntry {
+  const entry = value as Partial<SyncHistoryEntry> | null;
+  return !!entry
+    && typeof entry.started_at === 'string'
+    && typeof entry.finished_at === 'string'
+    && Array.isArray(entry.added)
+    && Array.isArray(entry.removed);
+}
+
+// Oldest first, as written. A torn last line (e.g. the disk filled up) is skipped.
+export function readSyncHistory(): SyncHistoryEntry[] {
+  const path = getHistoryFilePath();
+  if (!existsSync(path)) return [];
+  return readFileSync(path, 'utf-8')
+    .split('\n')
+    .filter((line) => line.trim())
+    .flatMap((line) => {
+      try {
+        const entry = JSON.parse(line) as unknown;
+        return isHistoryEntry(entry) ? [entry] : [];
+      } catch {
+        return [];
+      }
+    });
+}
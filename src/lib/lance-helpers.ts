@@ -1,4 +1,5 @@
 import * as lancedb from '@lancedb/lancedb';
+import { createRequire } from 'module';
 import { Repo } from './storage.js';
 
 // ── Type-safe LanceDB wrappers ────────────────────────────────────────────────
@@ -16,6 +17,10 @@ export async function mergeInsert(
     .execute(rows);
 }
 
+export async function addRows(table: lancedb.Table, rows: object[]): Promise<void> {
+  await table.add(rows as Record<string, unknown>[]);
+}
+
 export async function updateRows(
   table: lancedb.Table,
   values: Record<string, unknown>,
@@ -31,16 +36,31 @@ export async function deleteRows(table: lancedb.Table, where: string): Promise<v
   await (table as unknown as { delete: (where: string) => Promise<void> }).delete(where);
 }
 
+// LanceDB full-text indexes cover one column each; `name` prefixes the index
+// names (`${name}_${column}`). Pass `replace` to rebuild existing ones.
 export async function createFTSIndex(
   table: lancedb.Table,
   name: string,
   columns: string[],
+  options: { replace?: boolean } = {},
 ): Promise<void> {
-  await (table as unknown as {
-    createIndex: (name: string, opts: { config: { type: string; columns: string[] } }) => Promise<void>;
-  }).createIndex(name, {
-    config: { type: 'INVERTED', columns },
-  });
+  for (const column of columns) {
+    await table.createIndex(column, {
+      config: lancedb.Index.fts(),
+      name: `${name}_${column}`,
+      replace: options.replace ?? false,
+    });
+  }
+}
+
+// Columns among `columns` without a full-text index.
+export async function missingFTSColumns(table: lancedb.Table, columns: string[]): Promise<string[]> {
+  const indexed = new Set(
+    (await table.listIndices())
+      .filter((index) => index.indexType === 'FTS')
+      .flatMap((index) => index.columns),
+  );
+  return columns.filter((column) => !indexed.has(column));
 }
 
 export async function vectorSearchQuery(
@@ -93,3 +113,34 @@ export async function querySelectToArray<T>(
   if (where) q = q.where(where);
   return await q.toArray() as unknown as T[];
 }
+
+// Yields plain row objects one record batch at a time instead of
+// materialising the whole result.
+export async function* queryBatches<T>(query: lancedb.Query): AsyncGenerator<T[]> {
+  for await (const batch of query as AsyncIterable<{ toArray: () => Array<{ toJSON: () => unknown }> }>) {
+    yield batch.toArray().map((row) => row.toJSON() as T);
+  }
+}
+
+// LanceDB returns Arrow objects from the CommonJS build of apache-arrow, which
+// the ESM build's `instanceof` checks reject. Serialising them therefore has to
+// go through the same CommonJS instance.
+const lanceArrow = createRequire(import.meta.url)('apache-arrow') as typeof import('apache-arrow');
+
+// The table's schema as an empty Arrow IPC stream.
+export async function tableSchemaIPC(table: lancedb.Table): Promise<Uint8Array> {
+  return lanceArrow.tableToIPC(new lanceArrow.Table(await table.schema() as InstanceType<typeof lanceArrow.Schema>), 'stream');
+}
+
+// Decodes an IPC stream into an Arrow table LanceDB accepts for writes.
+export function tableFromIPC(data: Uint8Array): InstanceType<typeof lanceArrow.Table> {
+  return lanceArrow.tableFromIPC(data);
+}
+
+// One Arrow IPC stream per non-empty record batch, for byte-exact copies such
+// as backups.
+export async function* queryIPCBatches(query: lancedb.Query): AsyncGenerator<Uint8Array> {
+  for await (const batch of query as AsyncIterable<InstanceType<typeof lanceArrow.RecordBatch>>) {
+    if (batch.numRows > 0) yield lanceArrow.tableToIPC(new lanceArrow.Table([batch]), 'stream');
+  }
+}
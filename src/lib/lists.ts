@@ -0,0 +1,72 @@
+import * as lancedb from '@lancedb/lancedb';
+import { Schema, Field, Utf8 } from 'apache-arrow';
+import { getDBPath } from './config.js';
+import { openOrCreateTable, escapeSqlString } from './db.js';
+import { addRows, deleteRows, querySelectToArray } from './lance-helpers.js';
+
+// GitHub star Lists (the user-curated groups on the Stars page). Membership is
+// kept in a side table next to `repos` so syncing the starred feed never
+// clobbers it, and vice versa.
+
+export interface StarList {
+  name: string;
+  slug: string;
+  description: string;
+  repos: string[];      // full_name of every repo in the list
+}
+
+interface StarListRow {
+  list_name: string;
+  list_slug: string;
+  full_name: string;
+}
+
+const TABLE_NAME = 'star_lists';
+
+const _tables = new Map<string, lancedb.Table>();   // keyed by DB path (one per collection)
+
+async function getListsTable(): Promise<lancedb.Table> {
+  const path = getDBPath();
+  const cached = _tables.get(path);
+  if (cached) return cached;
+  const table = await openOrCreateTable(TABLE_NAME, new Schema([
+    new Field('list_name', new Utf8()),
+    new Field('list_slug', new Utf8()),
+    new Field('full_name', new Utf8()),
+  ]));
+  _tables.set(path, table);
+  return table;
+}
+
+function listWhereClause(list: string): string {
+  const escaped = escapeSqlString(list.trim());
+  return `lower(list_name) = lower('${escaped}') OR list_slug = lower('${escaped}')`;
+}
+
+export async function replaceStarLists(lists: StarList[]): Promise<number> {
+  const table = await getListsTable();
+  await deleteRows(table, 'true');
+
+  const rows: StarListRow[] = lists.flatMap((list) => [...new Set(list.repos)].map((fullName) => ({
+    list_name: list.name,
+    list_slug: list.slug,
+    full_name: fullName,
+  })));
+  if (rows.length > 0) await addRows(table, rows);
+  return rows.length;
+}
+
+export async function getListMemberNames(list: string): Promise<string[]> {
+  if (!list.trim()) return [];
+  const table = await getListsTable();
+  const rows = await querySelectToArray<Pick<StarListRow, 'full_name'>>(table, ['full_name'], listWhereClause(list));
+  return [...new Set(rows.map((row) => row.full_name))];
+}
+
+export async function getListsForRepo(fullName: string): Promise<string[]> {
+  const table = await getListsTable();
+  const rows = await querySelectToArray<Pick<StarListRow, 'list_name'>>(
+    table, ['list_name'], `full_name = '${escapeSqlString(fullName)}'`,
+  );
+  return [...new Set(rows.map((row) => row.list_name))].sort((a, b) => a.localeCompare(b));
+}
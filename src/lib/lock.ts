@@ -0,0 +1,180 @@
+import { closeSync, openSync, readFileSync, rmSync, writeSync } from 'fs';
+import { AsyncLocalStorage } from 'async_hooks';
+import { hostname } from 'os';
+import { join } from 'path';
+import { claimStaleLockFile, getCollectionDir, isProcessAlive } from './config.js';
+
+// ── Collection write lock ─────────────────────────────────────────────────────
+// Advisory lock file in the collection's data dir, held by whichever process
+// runs a bulk writer (sync, embed, import, restore, schema migration). A second
+// writer fails with a message naming the holder, or polls with `wait`. Within
+// one process, calls take turns (MCP tools during a `serve --watch` sync), and
+// only a nested call on the holder's own async chain re-enters, so a sync may
+// trigger a migration.
+
+const LOCK_FILE = 'write.lock';
+const LOCK_POLL_MS = 500;
+const UNWRITTEN_LOCK_STALE_MS = 5_000;   // a crash between creating and writing the file
+
+export interface LockOwner {
+  pid: number;
+  hostname: string;
+  command: string;
+  started_at: string;
+}
+
+export interface WriteLockOptions {
+  wait?: boolean;           // poll until the lock is free instead of failing
+  timeoutMs?: number;       // give up waiting after this long (default: no limit)
+}
+
+const _held = new Set<string>();                      // lock files this process holds
+const _queues = new Map<string, Promise<void>>();     // lock path → last call waiting in this process
+const _chain = new AsyncLocalStorage<ReadonlySet<string>>();   // lock paths held by the current call chain
+
+export function getWriteLockPath(): string {
+  return join(getCollectionDir(), LOCK_FILE);
+}
+
+function parseLockOwner(content: string): LockOwner | null {
+  try {
+    const owner = JSON.parse(content) as LockOwner | null;
+    return typeof owner?.pid === 'number' ? owner : null;
+  } catch {
+    return null;
+  }
+}
+
+export function readLockOwner(path = getWriteLockPath()): LockOwner | null {
+  try {
+    return parseLockOwner(readFileSync(path, 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+// A lock left by a crashed process on this machine can be taken over; one
+// from another host (shared home directory) is always respected. A file with
+// no readable owner was cut short by a crash once it is a few seconds old.
+function isStaleLockFile(content: string, mtimeMs: number): boolean {
+  const owner = parseLockOwner(content);
+  if (!owner) return Date.now() - mtimeMs > UNWRITTEN_LOCK_STALE_MS;
+  return owner.hostname === hostname() && !isProcessAlive(owner.pid);
+}
+
+function tryAcquire(path: string, command: string): boolean {
+  let fd: number;
+  try {
+    fd = openSync(path, 'wx');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err;
+    // Only the waiter that moved the stale file away tries again, so two
+    // waiters never both take over the same lock.
+    if (!claimStaleLockFile(path, isStaleLockFile)) return false;
+    return tryAcquire(path, command);
+  }
+  const owner: LockOwner = { pid: process.pid, hostname: hostname(), command, started_at: new Date().toISOString() };
+  try {
+    writeSync(fd, JSON.stringify(owner));
+  } finally {
+    closeSync(fd);
+  }
+  return true;
+}
+
+function describeOwner(owner: LockOwner | null): string {
+  if (!owner) return 'Another starepo process';
+  const host = owner.hostname === hostname() ? '' : ` on ${owner.hostname}`;
+  return `Another starepo process (\`${owner.command}\`, pid ${owner.pid}${host}, since ${new Date(owner.started_at).toLocaleString()})`;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Removes locks still held when process.exit() cuts a run short. Crashes and
+// signals leave the file behind; the next writer sees the dead pid and takes over.
+function releaseAllOnExit(): void {
+  for (const path of _held) rmSync(path, { force: true });
+  _held.clear();
+}
+
+function timeoutError(holder: string): Error {
+  return new Error(`Timed out waiting for the write lock: ${holder} still holds it.`);
+}
+
+// Waits for the calls of this process queued before this one; the lock file
+// cannot tell them apart since they share a pid.
+async function waitForTurn(previous: Promise<void>, deadline: number): Promise<void> {
+  if (deadline === Infinity) return previous;
+  let timer: NodeJS.Timeout | undefined;
+  const timedOut = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => reject(timeoutError('another call in this process')), Math.max(0, deadline - Date.now()));
+  });
+  try {
+    await Promise.race([previous, timedOut]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function acquire(path: string, command: string, options: WriteLockOptions, deadline: number): Promise<void> {
+  let announced = false;
+  while (!tryAcquire(path, command)) {
+    const holder = describeOwner(readLockOwner(path));
+    if (!options.wait) {
+      throw new Error(
+        `${holder} is writing to this collection. Wait for it to finish, or pass --wait. ` +
+        `If no starepo is running, delete ${path}.`
+      );
+    }
+    if (Date.now() >= deadline) throw timeoutError(holder);
+    if (!announced) {
+      console.warn(`${holder} is writing to this collection; waiting for it to finish...`);
+      announced = true;
+    }
+    await sleep(LOCK_POLL_MS);
+  }
+
+  if (_held.size === 0) process.once('exit', releaseAllOnExit);
+  _held.add(path);
+}
+
+function release(path: string): void {
+  _held.delete(path);
+  rmSync(path, { force: true });
+  if (_held.size === 0) process.off('exit', releaseAllOnExit);
+}
+
+// Runs `fn` while holding the active collection's write lock.
+export async function withWriteLock<T>(
+  command: string,
+  fn: () => Promise<T>,
+  options: WriteLockOptions = {},
+): Promise<T> {
+  const path = getWriteLockPath();
+  const heldByChain = _chain.getStore();
+  if (heldByChain?.has(path)) return fn();
+
+  const deadline = options.timeoutMs !== undefined ? Date.now() + options.timeoutMs : Infinity;
+  const previous = _queues.get(path) ?? Promise.resolve();
+  let finished!: () => void;
+  const turn = previous.then(() => new Promise<void>((resolve) => { finished = resolve; }));
+  _queues.set(path, turn);
+  try {
+    await waitForTurn(previous, deadline);
+    await acquire(path, command, options, deadline);
+    try {
+      return await _chain.run(new Set([...(heldByChain ?? []), path]), fn);
+    } finally {
+      release(path);
+    }
+  } finally {
+    // Ends our turn once the calls before it are done, even if we gave up
+    // waiting, so the queue keeps its order.
+    void previous.then(() => {
+      finished();
+      if (_queues.get(path) === turn) _queues.delete(path);
+    });
+  }
+}
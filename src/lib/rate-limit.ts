@@ -0,0 +1,154 @@
+import type { Octokit } from '@octokit/rest';
+
+// GitHub rate limiting: every response carries x-ratelimit-* headers, primary
+// limits answer 403/429 with x-ratelimit-remaining: 0, secondary limits answer
+// 403/429 with retry-after, and 5xx responses are usually transient. A request
+// hook records the quota and retries those cases with exponential backoff.
+
+export interface RateLimitInfo {
+  resource: string;     // core, graphql, search, ...
+  limit: number;
+  remaining: number;
+  used: number;
+  reset: Date;
+}
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  maxWaitMs: number;    // give up instead of sleeping longer than this (e.g. a primary reset an hour away)
+  sleep: (ms: number) => Promise<void>;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 60_000,
+  maxWaitMs: 15 * 60_000,
+  sleep: (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+};
+
+type Headers = Record<string, string | number | undefined>;
+
+interface HttpError {
+  status?: number;
+  message?: string;
+  response?: { headers?: Headers };
+}
+
+const rateLimits = new WeakMap<Octokit, Map<string, RateLimitInfo>>();
+
+function headerNumber(headers: Headers, name: string): number | null {
+  const value = headers[name];
+  if (value === undefined || value === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+export function parseRateLimitHeaders(headers: Headers): RateLimitInfo | null {
+  const limit = headerNumber(headers, 'x-ratelimit-limit');
+  const remaining = headerNumber(headers, 'x-ratelimit-remaining');
+  const reset = headerNumber(headers, 'x-ratelimit-reset');
+  if (limit === null || remaining === null || reset === null) return null;
+
+  return {
+    resource: String(headers['x-ratelimit-resource'] ?? 'core'),
+    limit,
+    remaining,
+    used: headerNumber(headers, 'x-ratelimit-used') ?? limit - remaining,
+    reset: new Date(reset * 1000),
+  };
+}
+
+function recordRateLimit(octokit: Octokit, headers: Headers | undefined): void {
+  const info = headers ? parseRateLimitHeaders(headers) : null;
+  if (!info) return;
+  let byResource = rateLimits.get(octokit);
+  if (!byResource) {
+    byResource = new Map();
+    rateLimits.set(octokit, byResource);
+  }
+  byResource.set(info.resource, info);
+}
+
+// Latest quota seen per resource for this client, in the order first seen.
+export function getRateLimits(octokit: Octokit): RateLimitInfo[] {
+  return [...(rateLimits.get(octokit)?.values() ?? [])];
+}
+
+export function formatRateLimits(limits: RateLimitInfo[]): string | null {
+  if (limits.length === 0) return null;
+  const parts = limits.map((info) =>
+    `${info.resource} ${info.remaining}/${info.limit} (resets ${info.reset.toLocaleTimeString()})`
+  );
+  return `GitHub API quota remaining: ${parts.join(', ')}`;
+}
+
+function isRateLimited(status: number, headers: Headers, message: string): boolean {
+  if (status === 429) return true;
+  if (status !== 403) return false;
+  return (
+    headers['retry-after'] !== undefined ||
+    headerNumber(headers, 'x-ratelimit-remaining') === 0 ||
+    /rate limit/i.test(message)
+  );
+}
+
+// How long to wait before retrying, or null when the error is not retryable.
+export function retryDelayMs(
+  error: HttpError,
+  attempt: number,
+  options: RetryOptions,
+  now = Date.now()
+): number | null {
+  const status = error.status;
+  if (status === undefined) return null;
+  const headers = error.response?.headers ?? {};
+
+  if (isRateLimited(status, headers, error.message ?? '')) {
+    const retryAfter = headerNumber(headers, 'retry-after');
+    if (retryAfter !== null) return retryAfter * 1000;
+    if (headerNumber(headers, 'x-ratelimit-remaining') === 0) {
+      const reset = headerNumber(headers, 'x-ratelimit-reset');
+      if (reset !== null) return Math.max(reset * 1000 - now, 0) + 1000;
+    }
+  } else if (status < 500) {
+    return null;
+  }
+
+  return Math.min(options.baseDelayMs * 2 ** attempt, options.maxDelayMs);
+}
+
+export function installRateLimitHandling(octokit: Octokit, overrides: Partial<RetryOptions> = {}): void {
+  const options = { ...DEFAULT_RETRY_OPTIONS, ...overrides };
+
+  octokit.hook.wrap('request', async (request, requestOptions) => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await request(requestOptions);
+        recordRateLimit(octokit, response.headers as Headers);
+        return response;
+      } catch (err) {
+        const error = err as HttpError;
+        recordRateLimit(octokit, error.response?.headers);
+
+        const delay = attempt < options.maxRetries ? retryDelayMs(error, attempt, options) : null;
+        if (delay === null) throw err;
+        if (delay > options.maxWaitMs) {
+          const waitMinutes = Math.max(1, Math.round(delay / 60_000));
+          throw new Error(
+            `GitHub API rate limit exceeded; it resets in about ${waitMinutes} minutes. ` +
+            `Try again later.`
+          );
+        }
+
+        console.warn(
+          `GitHub responded ${error.status} for ${requestOptions.method} ${requestOptions.url}; ` +
+          `retrying in ${Math.ceil(delay / 1000)}s (attempt ${attempt + 1}/${options.maxRetries})...`
+        );
+        await options.sleep(delay);
+      }
+    }
+  });
+}
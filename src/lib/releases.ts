@@ -0,0 +1,101 @@
+import * as lancedb from '@lancedb/lancedb';
+import { Schema, Field, Utf8, Int64 } from 'apache-arrow';
+import { getDBPath } from './config.js';
+import { openOrCreateTable, buildFullNameInClause, toEpochMillis } from './db.js';
+import { mergeInsert, deleteRows, querySelectToArray } from './lance-helpers.js';
+
+// Latest release of each starred repo, pulled by `sync --releases`. Kept in a
+// side table like star lists so a star sync never drops release data.
+
+export interface RepoRelease {
+  full_name: string;
+  tag_name: string;
+  name: string;
+  published_at: string;
+  url: string;
+  notes: string;        // plain-text excerpt of the release notes
+}
+
+export interface StoredRelease extends RepoRelease {
+  published_at_ts: number;
+}
+
+const TABLE_NAME = 'releases';
+export const RELEASE_NOTES_EXCERPT_LENGTH = 280;
+
+const _tables = new Map<string, lancedb.Table>();   // keyed by DB path (one per collection)
+
+async function getReleasesTable(): Promise<lancedb.Table> {
+  const path = getDBPath();
+  const cached = _tables.get(path);
+  if (cached) return cached;
+  const table = await openOrCreateTable(TABLE_NAME, new Schema([
+    new Field('full_name', new Utf8()),
+    new Field('tag_name', new Utf8()),
+    new Field('name', new Utf8()),
+    new Field('published_at', new Utf8()),
+    new Field('published_at_ts', new Int64()),
+    new Field('url', new Utf8()),
+    new Field('notes', new Utf8()),
+  ]));
+  _tables.set(path, table);
+  return table;
+}
+
+// Collapses markdown release notes into one short line for list output.
+export function excerptReleaseNotes(body: string, maxLength = RELEASE_NOTES_EXCERPT_LENGTH): string {
+  const text = body
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^#+\s*/gm, '')
+    .replace(/[*_`>]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text;
+}
+
+// Replaces the stored release of every repo in `checked`: repos that now have a
+// release get it upserted, the rest (release deleted) lose their old row.
+export async function saveReleases(checked: string[], releases: RepoRelease[]): Promise<void> {
+  const table = await getReleasesTable();
+  const withRelease = new Set(releases.map((release) => release.full_name));
+  const without = checked.filter((fullName) => !withRelease.has(fullName));
+  await deleteReleases(without);
+  if (releases.length === 0) return;
+
+  await mergeInsert(table, 'full_name', releases.map((release) => ({
+    ...release,
+    published_at_ts: toEpochMillis(release.published_at),
+  })));
+}
+
+// Drops the releases of repos that left the collection (unstarred or deleted).
+export async function deleteReleases(fullNames: string[]): Promise<void> {
+  if (fullNames.length === 0) return;
+  const table = await getReleasesTable();
+  const chunkSize = 200;
+  for (let i = 0; i < fullNames.length; i += chunkSize) {
+    await deleteRows(table, buildFullNameInClause(fullNames.slice(i, i + chunkSize)));
+  }
+}
+
+// Only the time filter runs in the query: the recent releases are few, while
+// the repo set (every star, without filters) would make a huge IN clause.
+export async function listRecentReleases(options: {
+  since: Date;
+  fullNames?: string[];   // restrict to these repos (e.g. the result of repo filters)
+  limit?: number;
+}): Promise<StoredRelease[]> {
+  const table = await getReleasesTable();
+  const rows = await querySelectToArray<StoredRelease>(
+    table,
+    ['full_name', 'tag_name', 'name', 'published_at', 'published_at_ts', 'url', 'notes'],
+    `published_at_ts >= ${options.since.getTime()}`,
+  );
+  const wanted = options.fullNames ? new Set(options.fullNames) : null;
+  const sorted = rows
+    .filter((row) => !wanted || wanted.has(row.full_name))
+    .map((row) => ({ ...row, published_at_ts: Number(row.published_at_ts) }))
+    .sort((a, b) => b.published_at_ts - a.published_at_ts);
+  return options.limit !== undefined ? sorted.slice(0, options.limit) : sorted;
+}
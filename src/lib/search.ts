@@ -1,13 +1,19 @@
-import { Repo, listRepos, searchVector, searchFTS } from './storage.js';
-import { sortRepos, SortField, SortOrder } from './sort.js';
-
-export interface SearchOptions {
-  language?: string;
-  topic?: string;
-  starredAfter?: string;
-  starredBefore?: string;
+import {
+  Repo,
+  RepoOrderColumn,
+  RepoQueryFilters,
+  hasRepoFilters,
+  listRepos,
+  searchVector,
+  searchFTS,
+} from './storage.js';
+import { sortRepos, SortField, SortOrder, DEFAULT_GROWTH_DAYS } from './sort.js';
+import { getStarsGained } from './star-history.js';
+
+export interface SearchOptions extends RepoQueryFilters {
   sort?: SortField;
   order?: SortOrder;
+  growthDays?: number;    // window of `sort: 'growth'`
 }
 
 function dedup(repos: Repo[]): Repo[] {
@@ -19,25 +25,36 @@ function dedup(repos: Repo[]): Repo[] {
   });
 }
 
+const SORT_COLUMNS: Record<Exclude<SortField, 'relevance'>, RepoOrderColumn> = {
+  stars: 'stars_count',
+  forks: 'forks_count',
+  starred: 'starred_at_ts',
+  updated: 'updated_at_ts',
+  growth: 'score',
+};
+
+// Listing without a query: the sort and limit run in storage (see
+// listRepos), so only the returned repos are ever read in full.
+export async function listSortedRepos(limit: number, options: SearchOptions = {}): Promise<Repo[]> {
+  const { sort = 'relevance', order = 'desc', growthDays, ...filters } = options;
+  if (sort === 'relevance') return listRepos({ ...filters, limit });
+  return listRepos({
+    ...filters,
+    limit,
+    orderBy: SORT_COLUMNS[sort],
+    descending: order === 'desc',
+    scores: sort === 'growth' ? await getStarsGained(growthDays ?? DEFAULT_GROWTH_DAYS) : undefined,
+  });
+}
+
 export async function hybridSearch(query: string, limit = 20, options: SearchOptions = {}): Promise<Repo[]> {
   const trimmed = query.trim();
+  if (!trimmed) return listSortedRepos(limit, options);
+
   const sort = options.sort ?? 'relevance';
   const order = options.order ?? 'desc';
-  const hasStructuredFilters = Boolean(
-    options.language || options.topic || options.starredAfter || options.starredBefore
-  );
-
-  if (!trimmed) {
-    const repos = await listRepos({
-      language: options.language,
-      topic: options.topic,
-      starredAfter: options.starredAfter,
-      starredBefore: options.starredBefore,
-      limit: sort === 'relevance' ? limit : undefined,
-    });
-    const sorted = sortRepos(repos, sort, order);
-    return sorted.slice(0, limit);
-  }
+  const hasStructuredFilters = hasRepoFilters(options);
+  const growth = sort === 'growth' ? await getStarsGained(options.growthDays ?? DEFAULT_GROWTH_DAYS) : undefined;
 
   const { getTable, hasAnyEmbeddings, countRepos } = await import('./storage.js');
   const table = await getTable();
@@ -49,12 +66,14 @@ export async function hybridSearch(query: string, limit = 20, options: SearchOpt
   if (filteredCount === 0) return [];
 
   const hasEmbeddings = await hasAnyEmbeddings(count);
+  // Other sorts reorder the best relevance matches; the vector search always
+  // returns `candidateLimit` repos, so a larger pool would just be the
+  // whole collection sorted by the field.
   const initialCandidateLimit = Math.min(filteredCount, Math.max(limit * 5, 50));
   const shouldProgressivelyExpand = hasStructuredFilters && sort === 'relevance';
-  const initialCandidateLimitForMode = sort === 'relevance' ? initialCandidateLimit : filteredCount;
 
   const finalizeResults = (repos: Repo[]): Repo[] => {
-    const sorted = sortRepos(repos, sort, order);
+    const sorted = sortRepos(repos, sort, order, growth);
     return sorted.slice(0, limit);
   };
 
@@ -74,7 +93,7 @@ export async function hybridSearch(query: string, limit = 20, options: SearchOpt
     fetchCandidates = async (candidateLimit: number) => searchFTS(trimmed, candidateLimit, options);
   }
 
-  let candidateLimit = initialCandidateLimitForMode;
+  let candidateLimit = initialCandidateLimit;
 
   while (true) {
     const results = await fetchCandidates(candidateLimit);
@@ -1,14 +1,17 @@
-import { Repo } from './storage.js';
+import { Repo, RepoQueryFilters, UnstarredFilter } from './storage.js';
 import { resolveStarredTimeRange } from './time.js';
 
-export type SortField = 'stars' | 'forks' | 'starred' | 'updated' | 'relevance';
+export type SortField = 'stars' | 'forks' | 'starred' | 'updated' | 'growth' | 'relevance';
 export type SortOrder = 'asc' | 'desc';
 
-const VALID_SORT_FIELDS: SortField[] = ['stars', 'forks', 'starred', 'updated', 'relevance'];
+const VALID_SORT_FIELDS: SortField[] = ['stars', 'forks', 'starred', 'updated', 'growth', 'relevance'];
 const VALID_ORDERS: SortOrder[] = ['asc', 'desc'];
 export const MAX_RESULT_LIMIT = 500;
+export const DEFAULT_GROWTH_DAYS = 30;
 
-export function sortRepos(repos: Repo[], sort: SortField, order: SortOrder): Repo[] {
+// `growth` ranks by stars gained (see star-history.getStarsGained); repos
+// missing from the map count as 0.
+export function sortRepos(repos: Repo[], sort: SortField, order: SortOrder, growth?: Map<string, number>): Repo[] {
   if (sort === 'relevance') return repos;
 
   const getValue = (repo: Repo): number => {
@@ -17,6 +20,7 @@ export function sortRepos(repos: Repo[], sort: SortField, order: SortOrder): Rep
       case 'forks':   return repo.forks_count ?? 0;
       case 'starred': return repo.starred_at_ts ?? (repo.starred_at ? new Date(repo.starred_at).getTime() : 0);
       case 'updated': return repo.updated_at_ts ?? (repo.updated_at ? new Date(repo.updated_at).getTime() : 0);
+      case 'growth':  return growth?.get(repo.full_name) ?? 0;
     }
   };
 
@@ -27,23 +31,44 @@ export function sortRepos(repos: Repo[], sort: SortField, order: SortOrder): Rep
 export interface ParsedListOptions {
   language?: string;
   topic?: string;
+  list?: string;
+  tag?: string;
   starredAfter?: string;
   starredBefore?: string;
+  excludeArchived?: boolean;
+  excludeForks?: boolean;
+  license?: string;
+  owner?: string;
+  unstarred?: UnstarredFilter;
   limit: number;
   sort?: SortField;
   order?: SortOrder;
+  growthDays?: number;
   json?: boolean;
 }
 
-export interface RawListOptions {
+// The filter flags shared by `list`, `search` and `export`.
+export interface RawRepoFilterOptions {
   lang?: string;
   topic?: string;
+  list?: string;
+  tag?: string;
   since?: string;
   until?: string;
   days?: string;
+  archived?: boolean;     // false when --no-archived is given
+  excludeForks?: boolean;
+  license?: string;
+  owner?: string;
+  includeUnstarred?: boolean;
+  onlyUnstarred?: boolean;
+}
+
+export interface RawListOptions extends RawRepoFilterOptions {
   limit: string;
   sort?: string;
   order?: string;
+  growthDays?: string;
   json?: boolean;
 }
 
@@ -65,25 +90,42 @@ export function parsePositiveIntOption(
   return parsed;
 }
 
-export function parseListOptions(opts: RawListOptions): ParsedListOptions {
-  if (opts.sort && !VALID_SORT_FIELDS.includes(opts.sort as SortField)) {
-    throw new Error(`Invalid --sort value "${opts.sort}". Must be one of: ${VALID_SORT_FIELDS.join(', ')}`);
+export function parseRepoFilterOptions(opts: RawRepoFilterOptions): RepoQueryFilters {
+  if (opts.includeUnstarred && opts.onlyUnstarred) {
+    throw new Error('Use either --include-unstarred or --only-unstarred, not both.');
   }
-  if (opts.order && !VALID_ORDERS.includes(opts.order as SortOrder)) {
-    throw new Error(`Invalid --order value "${opts.order}". Must be one of: ${VALID_ORDERS.join(', ')}`);
-  }
-
   const days = opts.days !== undefined ? parseFloat(opts.days) : undefined;
   const range = resolveStarredTimeRange({ since: opts.since, until: opts.until, days });
 
   return {
     language: opts.lang,
     topic: opts.topic,
+    list: opts.list,
+    tag: opts.tag,
     starredAfter: range.starredAfter,
     starredBefore: range.starredBefore,
+    excludeArchived: opts.archived === false || undefined,
+    excludeForks: opts.excludeForks || undefined,
+    license: opts.license,
+    owner: opts.owner,
+    unstarred: opts.onlyUnstarred ? 'only' : opts.includeUnstarred ? 'include' : undefined,
+  };
+}
+
+export function parseListOptions(opts: RawListOptions): ParsedListOptions {
+  if (opts.sort && !VALID_SORT_FIELDS.includes(opts.sort as SortField)) {
+    throw new Error(`Invalid --sort value "${opts.sort}". Must be one of: ${VALID_SORT_FIELDS.join(', ')}`);
+  }
+  if (opts.order && !VALID_ORDERS.includes(opts.order as SortOrder)) {
+    throw new Error(`Invalid --order value "${opts.order}". Must be one of: ${VALID_ORDERS.join(', ')}`);
+  }
+
+  return {
+    ...parseRepoFilterOptions(opts),
     limit: parsePositiveIntOption(opts.limit, '--limit'),
     sort: opts.sort as SortField | undefined,
     order: opts.order as SortOrder | undefined,
+    growthDays: opts.growthDays !== undefined ? parsePositiveIntOption(opts.growthDays, '--growth-days', 3650) : undefined,
     json: opts.json,
   };
 }
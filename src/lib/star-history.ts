@@ -0,0 +1,152 @@
+import * as lancedb from '@lancedb/lancedb';
+import { Schema, Field, Utf8, Int32 } from 'apache-arrow';
+import { getDBPath } from './config.js';
+import { openOrCreateTable, buildFullNameInClause, escapeSqlString } from './db.js';
+import { mergeInsert, querySelectToArray } from './lance-helpers.js';
+
+// Stars/forks counts of each repo over time, recorded on every sync page and
+// metadata refresh (the `repos` row only keeps the latest count). To stay
+// compact a repo gets at most one sample per UTC day, and a new day only adds
+// a sample when a count changed, so a quiet repo costs a single row.
+
+export interface StarSample {
+  full_name: string;
+  day: string;          // YYYY-MM-DD (UTC)
+  stars_count: number;
+  forks_count: number;
+}
+
+export interface StarGrowth {
+  full_name: string;
+  from_day: string;     // day of the baseline sample
+  stars_before: number;
+  stars_now: number;
+  stars_gained: number;
+  forks_gained: number;
+  growth: number | null;  // stars_gained relative to stars_before; null when that was 0
+}
+
+interface StarSampleRow extends StarSample {
+  key: string;          // `${full_name}@${day}`, the merge key
+}
+
+const TABLE_NAME = 'star_history';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SPARK_BLOCKS = '▁▂▃▄▅▆▇█';
+
+const _tables = new Map<string, lancedb.Table>();   // keyed by DB path (one per collection)
+
+async function getHistoryTable(): Promise<lancedb.Table> {
+  const path = getDBPath();
+  const cached = _tables.get(path);
+  if (cached) return cached;
+  const table = await openOrCreateTable(TABLE_NAME, new Schema([
+    new Field('key', new Utf8()),
+    new Field('full_name', new Utf8()),
+    new Field('day', new Utf8()),
+    new Field('stars_count', new Int32()),
+    new Field('forks_count', new Int32()),
+  ]));
+  _tables.set(path, table);
+  return table;
+}
+
+function toDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+async function querySamples(where?: string): Promise<StarSample[]> {
+  const table = await getHistoryTable();
+  const rows = await querySelectToArray<StarSample>(table, ['full_name', 'day', 'stars_count', 'forks_count'], where);
+  return rows
+    .map((row) => ({ ...row, stars_count: Number(row.stars_count), forks_count: Number(row.forks_count) }))
+    .sort((a, b) => a.day.localeCompare(b.day));
+}
+
+// Latest sample per repo; samples must be sorted by day.
+function latestByRepo(samples: StarSample[]): Map<string, StarSample> {
+  const latest = new Map<string, StarSample>();
+  for (const sample of samples) latest.set(sample.full_name, sample);
+  return latest;
+}
+
+export async function recordStarCounts(
+  repos: Array<{ full_name: string; stars_count: number; forks_count: number }>,
+  at = new Date(),
+): Promise<number> {
+  if (repos.length === 0) return 0;
+  const day = toDay(at);
+  const latest = latestByRepo(await querySamples(buildFullNameInClause(repos.map((repo) => repo.full_name))));
+
+  const rows: StarSampleRow[] = [];
+  for (const repo of repos) {
+    const last = latest.get(repo.full_name);
+    if (last && last.stars_count === repo.stars_count && last.forks_count === repo.forks_count) continue;
+    rows.push({
+      key: `${repo.full_name}@${day}`,
+      full_name: repo.full_name,
+      day,
+      stars_count: repo.stars_count,
+      forks_count: repo.forks_count,
+    });
+  }
+  if (rows.length > 0) await mergeInsert(await getHistoryTable(), 'key', rows as unknown as Record<string, unknown>[]);
+  return rows.length;
+}
+
+// Oldest first.
+export async function getStarHistory(fullName: string): Promise<StarSample[]> {
+  return querySamples(`full_name = '${escapeSqlString(fullName)}'`);
+}
+
+// Stars gained by each repo over the last `days` days: from the last sample on
+// or before the window start (or the first one inside it, for repos recorded
+// later) to the latest sample. Repos without samples are left out.
+export async function getStarGrowth(
+  days: number,
+  options: { fullNames?: string[]; now?: Date } = {},
+): Promise<Map<string, StarGrowth>> {
+  if (options.fullNames?.length === 0) return new Map();
+  const windowStart = toDay(new Date((options.now ?? new Date()).getTime() - days * DAY_MS));
+  const samples = await querySamples(options.fullNames ? buildFullNameInClause(options.fullNames) : undefined);
+
+  const baselines = new Map<string, StarSample>();
+  for (const sample of samples) {
+    const baseline = baselines.get(sample.full_name);
+    if (!baseline || sample.day <= windowStart) baselines.set(sample.full_name, sample);
+  }
+
+  const growth = new Map<string, StarGrowth>();
+  for (const [fullName, latest] of latestByRepo(samples)) {
+    const baseline = baselines.get(fullName)!;
+    const gained = latest.stars_count - baseline.stars_count;
+    growth.set(fullName, {
+      full_name: fullName,
+      from_day: baseline.day,
+      stars_before: baseline.stars_count,
+      stars_now: latest.stars_count,
+      stars_gained: gained,
+      forks_gained: latest.forks_count - baseline.forks_count,
+      growth: baseline.stars_count > 0 ? gained / baseline.stars_count : null,
+    });
+  }
+  return growth;
+}
+
+// Stars gained per repo, the sort key of `--sort growth`.
+export async function getStarsGained(days: number): Promise<Map<string, number>> {
+  const growth = await getStarGrowth(days);
+  return new Map([...growth.values()].map((entry) => [entry.full_name, entry.stars_gained]));
+}
+
+// One block per value, scaled between the series' min and max; longer series
+// keep their most recent `width` values.
+export function sparkline(values: number[], width = 30): string {
+  const series = values.slice(-width);
+  if (series.length === 0) return '';
+  const min = Math.min(...series);
+  const range = Math.max(...series) - min;
+  return series
+    .map((value) => SPARK_BLOCKS[range === 0 ? 0 : Math.round(((value - min) / range) * (SPARK_BLOCKS.length - 1))])
+    .join('');
+}
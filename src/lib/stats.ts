@@ -0,0 +1,117 @@
+import { readdirSync, statSync } from 'fs';
+import { join } from 'path';
+import { getDBPath, getMeta } from './config.js';
+import { getEmbeddingMetadata, EMBEDDING_MODEL, EMBEDDING_VERSION } from './embeddings.js';
+import { streamRepos } from './storage.js';
+import { parseTopics } from './topics.js';
+
+// The shape of a collection at a glance (`starepo stats`, `starepo://stats`).
+// Everything is counted in one streamed pass over the starred repos, so it
+// works the same on a few hundred or tens of thousands of stars.
+
+export interface CountEntry {
+  name: string;
+  count: number;
+}
+
+export interface CollectionStats {
+  total: number;
+  last_sync: string | null;
+  languages: CountEntry[];        // most common first, at most `top`
+  topics: CountEntry[];
+  owners: CountEntry[];
+  distinct: { languages: number; topics: number; owners: number };
+  starred_by_year: CountEntry[];  // oldest first, every year with stars
+  starred_by_month: CountEntry[]; // YYYY-MM, oldest first
+  embeddings: {
+    embedded: number;
+    missing: number;
+    coverage: number;             // embedded / total, 0 for an empty collection
+    model: string | null;
+    version: string | null;
+    current: boolean;             // vectors come from the model this starepo uses
+  };
+  db_size_bytes: number;
+}
+
+export const DEFAULT_STATS_TOP = 10;
+const NO_LANGUAGE = 'Unknown';
+
+function increment(counts: Map<string, number>, key: string): void {
+  counts.set(key, (counts.get(key) ?? 0) + 1);
+}
+
+function topEntries(counts: Map<string, number>, top: number): CountEntry[] {
+  return [...counts.entries()]
+    .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+    .slice(0, top)
+    .map(([name, count]) => ({ name, count }));
+}
+
+function chronological(counts: Map<string, number>): CountEntry[] {
+  return [...counts.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, count]) => ({ name, count }));
+}
+
+// Total size of the LanceDB directory (all tables, versions and indexes).
+export function directorySize(path: string): number {
+  let size = 0;
+  let entries;
+  try {
+    entries = readdirSync(path, { withFileTypes: true });
+  } catch {
+    return 0;
+  }
+  for (const entry of entries) {
+    const child = join(path, entry.name);
+    if (entry.isDirectory()) size += directorySize(child);
+    else if (entry.isFile()) size += statSync(child).size;
+  }
+  return size;
+}
+
+export async function getCollectionStats(top = DEFAULT_STATS_TOP): Promise<CollectionStats> {
+  const languages = new Map<string, number>();
+  const topics = new Map<string, number>();
+  const owners = new Map<string, number>();
+  const years = new Map<string, number>();
+  const months = new Map<string, number>();
+  let total = 0;
+  let embedded = 0;
+
+  for await (const batch of streamRepos()) {
+    for (const repo of batch) {
+      total++;
+      if (repo.has_embedding) embedded++;
+      increment(languages, repo.language || NO_LANGUAGE);
+      for (const topic of parseTopics(repo.topics)) increment(topics, topic);
+      increment(owners, repo.owner_login || repo.full_name.split('/')[0]);
+      if (/^\d{4}-\d{2}/.test(repo.starred_at)) {
+        increment(years, repo.starred_at.slice(0, 4));
+        increment(months, repo.starred_at.slice(0, 7));
+      }
+    }
+  }
+
+  const { model, version } = getEmbeddingMetadata();
+  return {
+    total,
+    last_sync: getMeta('last_sync'),
+    languages: topEntries(languages, top),
+    topics: topEntries(topics, top),
+    owners: topEntries(owners, top),
+    distinct: { languages: languages.size, topics: topics.size, owners: owners.size },
+    starred_by_year: chronological(years),
+    starred_by_month: chronological(months),
+    embeddings: {
+      embedded,
+      missing: total - embedded,
+      coverage: total > 0 ? embedded / total : 0,
+      model,
+      version,
+      current: model === EMBEDDING_MODEL && version === EMBEDDING_VERSION,
+    },
+    db_size_bytes: directorySize(getDBPath()),
+  };
+}
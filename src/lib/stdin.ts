@@ -0,0 +1,8 @@
+// Piped input for `-` arguments (tokens, notes, repo lists, import files).
+export async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf-8').trim();
+}
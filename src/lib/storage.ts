@@ -1,17 +1,26 @@
 import * as lancedb from '@lancedb/lancedb';
 import { Schema, Field, Utf8, Int32, Int64, Float32, FixedSizeList, Bool } from 'apache-arrow';
 import { Buffer } from 'buffer';
-import { getDBPath, getMeta, setMeta } from './config.js';
+import { getDBPath, getMeta, setMeta, deleteUnstarredRepos } from './config.js';
+import { getDB, escapeSqlString, buildFullNameWhereClause, buildFullNameInClause, toEpochMillis } from './db.js';
+import { getListMemberNames } from './lists.js';
+import { getTaggedNames, searchAnnotationNames } from './annotations.js';
+import { deleteReleases } from './releases.js';
+import { parseTopics } from './topics.js';
+import { withWriteLock } from './lock.js';
 import {
   mergeInsert,
+  addRows,
   updateRows,
   deleteRows,
   createFTSIndex,
+  missingFTSColumns,
   vectorSearchQuery,
   ftsSearchQuery,
   queryToArray,
   queryWhereToArray,
   querySelectToArray,
+  queryBatches,
 } from './lance-helpers.js';
 
 export interface Repo {
@@ -22,6 +31,7 @@ export interface Repo {
   html_url: string;
   homepage: string;
   language: string;
+  language_key?: string; // lowercased language, what the language filter compares
   topics: string;       // JSON array string
   topics_text?: string;
   topics_key?: string;
@@ -32,6 +42,16 @@ export interface Repo {
   starred_at_ts?: number;
   updated_at_ts?: number;
   has_embedding?: boolean;
+  archived?: boolean;
+  fork?: boolean;
+  license?: string;     // SPDX id, e.g. "MIT"; '' when GitHub reports none
+  owner_login?: string;
+  owner_type?: string;  // User or Organization
+  created_at?: string;
+  pushed_at?: string;
+  open_issues_count?: number;
+  visibility?: string;  // public, private or internal
+  unstarred_at?: string; // ISO time the star was removed (tombstone); '' while starred
   vector?: number[];    // embedding, zeros if not yet generated
 }
 
@@ -51,19 +71,54 @@ export interface RepoInput {
   forks_count: number;
   starred_at: string;
   updated_at: string;
+  archived?: boolean;
+  fork?: boolean;
+  license?: string;
+  owner_login?: string;
+  owner_type?: string;
+  created_at?: string;
+  pushed_at?: string;
+  open_issues_count?: number;
+  visibility?: string;
+  unstarred_at?: string;
   vector?: number[];
 }
 
+// Fields that can change on GitHub after a repo was starred
+export type RepoMetadata = Pick<
+  RepoInput,
+  | 'full_name' | 'description' | 'homepage' | 'language' | 'topics' | 'stars_count' | 'forks_count' | 'updated_at'
+  | 'archived' | 'fork' | 'license' | 'owner_login' | 'owner_type' | 'created_at' | 'pushed_at'
+  | 'open_issues_count' | 'visibility'
+>;
+
 const TABLE_NAME = 'repos';
 export const EMBEDDING_DIM = 1024; // Xenova/bge-m3 q8
 const BASE_SCHEMA_VERSION = 1;
-const CURRENT_SCHEMA_VERSION = 5;
+export const CURRENT_SCHEMA_VERSION = 8;
+const FTS_INDEX_NAME = 'fts_idx';
+const FTS_COLUMNS = ['name', 'full_name', 'description', 'topics', 'language'];
+
+interface TableState {
+  table: lancedb.Table | null;
+  hasEmbeddings: boolean | null;
+  ftsIndexReady: boolean;
+  schemaReady: boolean;
+}
 
-let _db: lancedb.Connection | null = null;
-let _table: lancedb.Table | null = null;
-let _hasEmbeddings: boolean | null = null;
-let _ftsIndexReady = false;
-let _schemaReady = false;
+// Keyed by DB path so switching collections (see config.getDBPath) never
+// reuses another collection's table handle or cached flags.
+const _tableStates = new Map<string, TableState>();
+
+function tableState(): TableState {
+  const path = getDBPath();
+  let state = _tableStates.get(path);
+  if (!state) {
+    state = { table: null, hasEmbeddings: null, ftsIndexReady: false, schemaReady: false };
+    _tableStates.set(path, state);
+  }
+  return state;
+}
 const SEARCH_RESULT_COLUMNS = [
   'id',
   'full_name',
@@ -82,13 +137,19 @@ const SEARCH_RESULT_COLUMNS = [
   'starred_at_ts',
   'updated_at_ts',
   'has_embedding',
+  'archived',
+  'fork',
+  'license',
+  'owner_login',
+  'owner_type',
+  'created_at',
+  'pushed_at',
+  'open_issues_count',
+  'visibility',
+  'unstarred_at',
 ] as const;
 const SEARCH_RESULT_COLUMNS_WITH_DISTANCE = [...SEARCH_RESULT_COLUMNS, '_distance'] as const;
 
-function escapeSqlString(value: string): string {
-  return value.replace(/'/g, "''");
-}
-
 function toTopicsText(topics: string[]): string {
   return topics
     .map((topic) => topic.trim().toLowerCase())
@@ -132,17 +193,16 @@ function topicsKeyFromSerialized(value: string): string {
   }
 }
 
-function toEpochMillis(value: string): number {
-  const millis = Date.parse(value);
-  return Number.isNaN(millis) ? 0 : millis;
-}
-
 function toOptionalNumber(value: unknown): number | undefined {
   if (typeof value === 'bigint') return Number(value);
   if (typeof value === 'number') return value;
   return undefined;
 }
 
+function ownerFromFullName(fullName: string): string {
+  return fullName.slice(0, fullName.indexOf('/'));
+}
+
 function normalizeRepo(repo: Repo): Repo {
   return {
     ...repo,
@@ -151,6 +211,16 @@ function normalizeRepo(repo: Repo): Repo {
     starred_at_ts: toOptionalNumber(repo.starred_at_ts),
     updated_at_ts: toOptionalNumber(repo.updated_at_ts),
     has_embedding: repo.has_embedding ?? false,
+    archived: repo.archived ?? false,
+    fork: repo.fork ?? false,
+    license: repo.license ?? '',
+    owner_login: repo.owner_login || ownerFromFullName(repo.full_name),
+    owner_type: repo.owner_type ?? '',
+    created_at: repo.created_at ?? '',
+    pushed_at: repo.pushed_at ?? '',
+    open_issues_count: repo.open_issues_count ?? 0,
+    visibility: repo.visibility ?? '',
+    unstarred_at: repo.unstarred_at ?? '',
   };
 }
 
@@ -158,13 +228,6 @@ function normalizeRepos(repos: Repo[]): Repo[] {
   return repos.map(normalizeRepo);
 }
 
-function buildFullNameWhereClause(fullNames: string[]): string | undefined {
-  if (fullNames.length === 0) return undefined;
-  return fullNames
-    .map((fullName) => `full_name = '${escapeSqlString(fullName)}'`)
-    .join(' OR ');
-}
-
 const MIGRATION_BATCH_SIZE = 500;
 
 async function batchMergeInsert(table: lancedb.Table, rows: Record<string, unknown>[]): Promise<void> {
@@ -207,13 +270,32 @@ function repoRecordToRow(repo: Repo, schemaVersion = CURRENT_SCHEMA_VERSION): Re
   if (schemaVersion >= 5) {
     row.topics_key = repo.topics_key ?? topicsKeyFromSerialized(repo.topics);
   }
+  if (schemaVersion >= 6) {
+    row.archived = repo.archived ?? false;
+    row.fork = repo.fork ?? false;
+    row.license = repo.license ?? '';
+    row.owner_login = repo.owner_login || ownerFromFullName(repo.full_name);
+    row.owner_type = repo.owner_type ?? '';
+    row.created_at = repo.created_at ?? '';
+    row.pushed_at = repo.pushed_at ?? '';
+    row.open_issues_count = repo.open_issues_count ?? 0;
+    row.visibility = repo.visibility ?? '';
+  }
+  if (schemaVersion >= 7) {
+    row.unstarred_at = repo.unstarred_at ?? '';
+  }
+  if (schemaVersion >= 8) {
+    row.language_key = repo.language_key ?? repo.language.toLowerCase();
+  }
   return row;
 }
 
-function hasNonZeroVector(vector?: number[] | ArrayLike<number>): boolean {
+// Vectors read back from LanceDB are Arrow vectors, which iterate but do not
+// support index access.
+function hasNonZeroVector(vector?: number[] | Iterable<number>): boolean {
   if (!vector) return false;
-  for (let i = 0; i < vector.length; i++) {
-    if (vector[i] !== 0) return true;
+  for (const value of vector) {
+    if (value !== 0) return true;
   }
   return false;
 }
@@ -224,16 +306,38 @@ function validateEmbeddingVector(vector: number[], label: string): void {
   }
 }
 
+// Tombstoned (unstarred) repos are hidden unless a query asks for them.
+export type UnstarredFilter = 'exclude' | 'include' | 'only';
+
 export interface RepoQueryFilters {
   language?: string;
   topic?: string;
+  list?: string;
+  tag?: string;         // personal tag (see annotations.ts)
   starredAfter?: string;
   starredBefore?: string;
+  excludeArchived?: boolean;
+  excludeForks?: boolean;
+  license?: string;     // SPDX id, case-insensitive
+  owner?: string;
+  unstarred?: UnstarredFilter;  // default 'exclude'
+}
+
+export function hasRepoFilters(filters: RepoQueryFilters): boolean {
+  return Boolean(
+    filters.language || filters.topic || filters.list || filters.tag || filters.starredAfter || filters.starredBefore ||
+    filters.excludeArchived || filters.excludeForks || filters.license || filters.owner ||
+    filters.unstarred === 'only'
+  );
+}
+
+function normalizeOwnerFilter(owner: string): string {
+  return owner.trim().replace(/^@/, '');
 }
 
 function buildRepoWhereClause(filters: RepoQueryFilters): string | undefined {
   const conditions: string[] = [];
-  if (filters.language) conditions.push(`lower(language) = lower('${escapeSqlString(filters.language)}')`);
+  if (filters.language) conditions.push(`language_key = '${escapeSqlString(filters.language.toLowerCase())}'`);
   if (filters.topic) {
     const normalizedTopic = normalizeTopicFilter(filters.topic);
     if (normalizedTopic) {
@@ -247,6 +351,30 @@ function buildRepoWhereClause(filters: RepoQueryFilters): string | undefined {
   if (filters.starredBefore) {
     conditions.push(`starred_at_ts <= ${toEpochMillis(filters.starredBefore)}`);
   }
+  if (filters.excludeArchived) conditions.push('archived IS FALSE');
+  if (filters.excludeForks) conditions.push('fork IS FALSE');
+  if (filters.license) conditions.push(`lower(license) = lower('${escapeSqlString(filters.license.trim())}')`);
+  if (filters.owner) {
+    conditions.push(`lower(owner_login) = lower('${escapeSqlString(normalizeOwnerFilter(filters.owner))}')`);
+  }
+  const unstarred = filters.unstarred ?? 'exclude';
+  if (unstarred === 'exclude') conditions.push("unstarred_at = ''");
+  if (unstarred === 'only') conditions.push("unstarred_at != ''");
+  return conditions.length > 0 ? conditions.join(' AND ') : undefined;
+}
+
+// List membership and tags live in side tables, so they are resolved to an
+// explicit full_name set before being combined with the column filters.
+async function resolveRepoWhereClause(filters: RepoQueryFilters): Promise<string | undefined> {
+  const conditions: string[] = [];
+  const where = buildRepoWhereClause(filters);
+  if (where) conditions.push(where);
+  if (filters.list) {
+    conditions.push(buildFullNameInClause(await getListMemberNames(filters.list)));
+  }
+  if (filters.tag) {
+    conditions.push(buildFullNameInClause(await getTaggedNames(filters.tag)));
+  }
   return conditions.length > 0 ? conditions.join(' AND ') : undefined;
 }
 
@@ -270,38 +398,70 @@ function matchesRepoFilters(repo: Repo, filters: RepoQueryFilters): boolean {
     const starredAtTs = repo.starred_at_ts ?? toEpochMillis(repo.starred_at);
     if (starredAtTs > before) return false;
   }
+  if (filters.excludeArchived && repo.archived) return false;
+  if (filters.excludeForks && repo.fork) return false;
+  if (filters.license && (repo.license ?? '').toLowerCase() !== filters.license.trim().toLowerCase()) {
+    return false;
+  }
+  if (filters.owner) {
+    const owner = repo.owner_login || ownerFromFullName(repo.full_name);
+    if (owner.toLowerCase() !== normalizeOwnerFilter(filters.owner).toLowerCase()) return false;
+  }
+  const unstarred = filters.unstarred ?? 'exclude';
+  if (unstarred === 'exclude' && repo.unstarred_at) return false;
+  if (unstarred === 'only' && !repo.unstarred_at) return false;
   return true;
 }
 
 export function setHasEmbeddings(hasEmbeddings: boolean): void {
-  _hasEmbeddings = hasEmbeddings;
+  tableState().hasEmbeddings = hasEmbeddings;
   setMeta('has_embeddings', String(hasEmbeddings));
 }
 
+// Builds the indexes a missing column needs; an index left by an earlier run
+// is kept (updateRepoIndexes folds new rows into it after each write run).
 async function ensureFTSIndex(table: lancedb.Table): Promise<void> {
-  if (_ftsIndexReady) return;
+  if (tableState().ftsIndexReady) return;
 
   try {
-    await createFTSIndex(table, 'fts_idx', ['name', 'full_name', 'description', 'topics', 'language']);
-  } catch (err) {
-    if (!(err instanceof Error && err.message.includes('already exists'))) {
-      return;
-    }
+    const missing = await missingFTSColumns(table, FTS_COLUMNS);
+    if (missing.length > 0) await createFTSIndex(table, FTS_INDEX_NAME, missing);
+  } catch {
+    return;
   }
 
-  _ftsIndexReady = true;
+  tableState().ftsIndexReady = true;
 }
 
-async function getDB(): Promise<lancedb.Connection> {
-  if (!_db) _db = await lancedb.connect(getDBPath());
-  return _db;
+const SCHEMA_MIGRATION_LOCK_TIMEOUT_MS = 60_000;
+
+function readSchemaVersion(): number {
+  const storedVersion = Number.parseInt(getMeta('schema_version') ?? `${BASE_SCHEMA_VERSION}`, 10);
+  return Number.isNaN(storedVersion) ? BASE_SCHEMA_VERSION : storedVersion;
 }
 
 async function ensureSchema(table: lancedb.Table): Promise<void> {
-  if (_schemaReady) return;
+  if (tableState().schemaReady) return;
+  if (readSchemaVersion() < CURRENT_SCHEMA_VERSION) {
+    // Two processes opening an old database must not both migrate it; the
+    // second one finds the version already bumped once it gets the lock. The
+    // wait is bounded: a holder on another host is never taken over.
+    try {
+      await withWriteLock('schema migration', () => migrateSchema(table), {
+        wait: true,
+        timeoutMs: SCHEMA_MIGRATION_LOCK_TIMEOUT_MS,
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      throw new Error(`This collection needs a schema migration that could not run: ${message}`);
+    }
+  }
+  tableState().schemaReady = true;
+}
 
-  const storedVersion = Number.parseInt(getMeta('schema_version') ?? `${BASE_SCHEMA_VERSION}`, 10);
-  let version = Number.isNaN(storedVersion) ? BASE_SCHEMA_VERSION : storedVersion;
+async function migrateSchema(table: lancedb.Table): Promise<void> {
+  const storedVersion = readSchemaVersion();
+  let version = storedVersion;
 
   if (version < 2) {
     for (const column of [
@@ -403,7 +563,7 @@ async function ensureSchema(table: lancedb.Table): Promise<void> {
       const rows = normalizeRepos(rowsNeedingBackfill).map((row) => repoRecordToRow({
         ...row,
         topics_key: row.topics_key?.trim() ? row.topics_key : topicsKeyFromSerialized(row.topics),
-      }));
+      }, 5));
       await batchMergeInsert(table, rows);
       process.stderr.write('Schema v5 migration complete.\n');
     }
@@ -412,6 +572,72 @@ async function ensureSchema(table: lancedb.Table): Promise<void> {
     setMeta('schema_version', '5');
   }
 
+  if (version < 6) {
+    for (const column of [
+      { name: 'archived', valueSql: 'cast(false as boolean)' },
+      { name: 'fork', valueSql: 'cast(false as boolean)' },
+      { name: 'license', valueSql: "''" },
+      { name: 'owner_login', valueSql: "''" },
+      { name: 'owner_type', valueSql: "''" },
+      { name: 'created_at', valueSql: "''" },
+      { name: 'pushed_at', valueSql: "''" },
+      { name: 'open_issues_count', valueSql: 'cast(0 as int)' },
+      { name: 'visibility', valueSql: "''" },
+    ]) {
+      try {
+        await table.addColumns([column]);
+      } catch (err) {
+        if (!(err instanceof Error && err.message.includes('already exists'))) {
+          throw err;
+        }
+      }
+    }
+
+    // Only the owner can be derived locally; the other v6 fields stay at their
+    // defaults until the next `sync --refresh` or full sync pulls them.
+    const rowsNeedingBackfill = await queryWhereToArray<Repo>(table, "owner_login = ''");
+
+    if (rowsNeedingBackfill.length > 0) {
+      process.stderr.write(`Migrating starepo schema v6 (${rowsNeedingBackfill.length} rows)...\n`);
+      const rows = normalizeRepos(rowsNeedingBackfill).map((row) => repoRecordToRow(row, 6));
+      await batchMergeInsert(table, rows);
+      process.stderr.write(
+        'Schema v6 migration complete. Run `starepo sync --refresh` to fill archived, fork, license and activity fields.\n'
+      );
+    }
+
+    version = 6;
+    setMeta('schema_version', '6');
+  }
+
+  if (version < 7) {
+    try {
+      await table.addColumns([{ name: 'unstarred_at', valueSql: "''" }]);
+    } catch (err) {
+      if (!(err instanceof Error && err.message.includes('already exists'))) {
+        throw err;
+      }
+    }
+
+    version = 7;
+    setMeta('schema_version', '7');
+  }
+
+  // v8 stores the lowercased language so the language filter is a plain
+  // equality a scalar index can answer; SQL fills it for existing rows.
+  if (version < 8) {
+    try {
+      await table.addColumns([{ name: 'language_key', valueSql: 'lower(language)' }]);
+    } catch (err) {
+      if (!(err instanceof Error && err.message.includes('already exists'))) {
+        throw err;
+      }
+    }
+
+    version = 8;
+    setMeta('schema_version', '8');
+  }
+
   if (version < CURRENT_SCHEMA_VERSION) {
     setMeta('schema_version', String(CURRENT_SCHEMA_VERSION));
   }
@@ -420,48 +646,62 @@ async function ensureSchema(table: lancedb.Table): Promise<void> {
     // Compact deleted rows left by mergeInsert-based backfills
     await table.optimize({ cleanupOlderThan: new Date() });
   }
+}
 
-  _schemaReady = true;
+function repoTableSchema(): Schema {
+  return new Schema([
+    new Field('id', new Int32()),
+    new Field('full_name', new Utf8()),
+    new Field('name', new Utf8()),
+    new Field('description', new Utf8()),
+    new Field('html_url', new Utf8()),
+    new Field('homepage', new Utf8()),
+    new Field('language', new Utf8()),
+    new Field('topics', new Utf8()),
+    new Field('topics_text', new Utf8()),
+    new Field('topics_key', new Utf8()),
+    new Field('stars_count', new Int32()),
+    new Field('forks_count', new Int32()),
+    new Field('starred_at', new Utf8()),
+    new Field('updated_at', new Utf8()),
+    new Field('starred_at_ts', new Int64()),
+    new Field('updated_at_ts', new Int64()),
+    new Field('has_embedding', new Bool()),
+    new Field('archived', new Bool()),
+    new Field('fork', new Bool()),
+    new Field('license', new Utf8()),
+    new Field('owner_login', new Utf8()),
+    new Field('owner_type', new Utf8()),
+    new Field('created_at', new Utf8()),
+    new Field('pushed_at', new Utf8()),
+    new Field('open_issues_count', new Int32()),
+    new Field('visibility', new Utf8()),
+    new Field('unstarred_at', new Utf8()),
+    new Field('language_key', new Utf8()),
+    new Field('vector', new FixedSizeList(EMBEDDING_DIM, new Field('item', new Float32()))),
+  ]);
 }
 
 export async function getTable(): Promise<lancedb.Table> {
-  if (_table) {
-    await ensureSchema(_table);
-    return _table;
+  const state = tableState();
+  if (state.table) {
+    await ensureSchema(state.table);
+    return state.table;
   }
 
   const db = await getDB();
   const names = await db.tableNames();
 
   if (!names.includes(TABLE_NAME)) {
-    const schema = new Schema([
-      new Field('id', new Int32()),
-      new Field('full_name', new Utf8()),
-      new Field('name', new Utf8()),
-      new Field('description', new Utf8()),
-      new Field('html_url', new Utf8()),
-      new Field('homepage', new Utf8()),
-      new Field('language', new Utf8()),
-      new Field('topics', new Utf8()),
-      new Field('topics_text', new Utf8()),
-      new Field('topics_key', new Utf8()),
-      new Field('stars_count', new Int32()),
-      new Field('forks_count', new Int32()),
-      new Field('starred_at', new Utf8()),
-      new Field('updated_at', new Utf8()),
-      new Field('starred_at_ts', new Int64()),
-      new Field('updated_at_ts', new Int64()),
-      new Field('has_embedding', new Bool()),
-      new Field('vector', new FixedSizeList(EMBEDDING_DIM, new Field('item', new Float32()))),
-    ]);
-    _table = await db.createEmptyTable(TABLE_NAME, schema, { existOk: true });
+    const schema = repoTableSchema();
+    state.table = await db.createEmptyTable(TABLE_NAME, schema, { existOk: true });
     setMeta('schema_version', String(CURRENT_SCHEMA_VERSION));
   } else {
-    _table = await db.openTable(TABLE_NAME);
+    state.table = await db.openTable(TABLE_NAME);
   }
 
-  await ensureSchema(_table);
-  return _table;
+  await ensureSchema(state.table);
+  return state.table;
 }
 
 function toRow(r: RepoInput): Record<string, unknown> {
@@ -475,6 +715,7 @@ function toRow(r: RepoInput): Record<string, unknown> {
     html_url: r.html_url,
     homepage: r.homepage,
     language: r.language,
+    language_key: r.language.toLowerCase(),
     topics: JSON.stringify(r.topics),
     topics_text: toTopicsText(r.topics),
     topics_key: toTopicsKey(r.topics),
@@ -485,6 +726,16 @@ function toRow(r: RepoInput): Record<string, unknown> {
     starred_at_ts: toEpochMillis(r.starred_at),
     updated_at_ts: toEpochMillis(r.updated_at),
     has_embedding: hasNonZeroVector(r.vector),
+    archived: r.archived ?? false,
+    fork: r.fork ?? false,
+    license: r.license ?? '',
+    owner_login: r.owner_login || ownerFromFullName(r.full_name),
+    owner_type: r.owner_type ?? '',
+    created_at: r.created_at ?? '',
+    pushed_at: r.pushed_at ?? '',
+    open_issues_count: r.open_issues_count ?? 0,
+    visibility: r.visibility ?? '',
+    unstarred_at: r.unstarred_at ?? '',
     vector: r.vector ?? new Array(EMBEDDING_DIM).fill(0),
   };
 }
@@ -539,6 +790,78 @@ export async function upsertRepos(repos: RepoInput[]): Promise<void> {
   }
 }
 
+function repoToInput(repo: Repo): RepoInput {
+  const topics = parseTopics(repo.topics);
+  return {
+    id: repo.id,
+    full_name: repo.full_name,
+    name: repo.name,
+    description: repo.description,
+    html_url: repo.html_url,
+    homepage: repo.homepage,
+    language: repo.language,
+    topics,
+    stars_count: repo.stars_count,
+    forks_count: repo.forks_count,
+    starred_at: repo.starred_at,
+    updated_at: repo.updated_at,
+    archived: repo.archived,
+    fork: repo.fork,
+    license: repo.license,
+    owner_login: repo.owner_login,
+    owner_type: repo.owner_type,
+    created_at: repo.created_at,
+    pushed_at: repo.pushed_at,
+    open_issues_count: repo.open_issues_count,
+    visibility: repo.visibility,
+    unstarred_at: repo.unstarred_at,
+  };
+}
+
+function metadataChanged(current: RepoInput, next: RepoInput): boolean {
+  return (
+    current.description !== next.description ||
+    current.homepage !== next.homepage ||
+    current.language !== next.language ||
+    JSON.stringify(current.topics) !== JSON.stringify(next.topics) ||
+    current.stars_count !== next.stars_count ||
+    current.forks_count !== next.forks_count ||
+    current.updated_at !== next.updated_at ||
+    current.archived !== next.archived ||
+    current.fork !== next.fork ||
+    current.license !== next.license ||
+    current.owner_login !== next.owner_login ||
+    current.owner_type !== next.owner_type ||
+    current.created_at !== next.created_at ||
+    current.pushed_at !== next.pushed_at ||
+    current.open_issues_count !== next.open_issues_count ||
+    current.visibility !== next.visibility
+  );
+}
+
+// Merges refreshed metadata into existing rows and rewrites only the rows that
+// actually changed. Vectors are carried over by upsertRepos. Returns the number
+// of changed rows.
+export async function applyRepoMetadata(updates: RepoMetadata[]): Promise<number> {
+  const where = buildFullNameWhereClause(updates.map((update) => update.full_name));
+  if (!where) return 0;
+
+  const table = await getTable();
+  const existing = normalizeRepos(await querySelectToArray<Repo>(table, [...SEARCH_RESULT_COLUMNS], where));
+  const existingByName = new Map(existing.map((repo) => [repo.full_name, repoToInput(repo)]));
+
+  const changed: RepoInput[] = [];
+  for (const update of updates) {
+    const current = existingByName.get(update.full_name);
+    if (!current) continue;
+    const next = { ...current, ...update };
+    if (metadataChanged(current, next)) changed.push(next);
+  }
+
+  if (changed.length > 0) await upsertRepos(changed);
+  return changed.length;
+}
+
 export async function updateEmbedding(fullName: string, vector: number[]): Promise<void> {
   validateEmbeddingVector(vector, `Embedding vector for ${fullName}`);
   const table = await getTable();
@@ -547,6 +870,15 @@ export async function updateEmbedding(fullName: string, vector: number[]): Promi
   setHasEmbeddings(true);
 }
 
+// For repos whose embedded text changed: the old vector keeps serving semantic
+// search until the next `embed` or sync, which picks them up like any repo
+// without a vector.
+export async function markEmbeddingsStale(fullNames: string[]): Promise<void> {
+  if (fullNames.length === 0) return;
+  const table = await getTable();
+  await updateRows(table, { has_embedding: false }, buildFullNameInClause(fullNames));
+}
+
 export async function updateEmbeddingsBatch(entries: Array<{ fullName: string; vector: number[] }>): Promise<void> {
   if (entries.length === 0) return;
   for (const entry of entries) {
@@ -581,25 +913,41 @@ export async function updateEmbeddingsBatch(entries: Array<{ fullName: string; v
 
 export async function searchVector(vector: number[], limit = 20, filters: RepoQueryFilters = {}): Promise<Repo[]> {
   const table = await getTable();
-  const where = buildRepoWhereClause(filters);
+  const where = await resolveRepoWhereClause(filters);
   const results = await vectorSearchQuery(table, vector, SEARCH_RESULT_COLUMNS_WITH_DISTANCE, where, limit);
   return normalizeRepos(results);
 }
 
+// Repos whose personal note or tags match the query, in annotation rank order.
+async function searchAnnotatedRepos(query: string, limit: number, where: string | undefined): Promise<Repo[]> {
+  const names = await searchAnnotationNames(query, limit);
+  if (names.length === 0) return [];
+  const table = await getTable();
+  const inClause = buildFullNameInClause(names);
+  const rows = await querySelectToArray<Repo>(
+    table, [...SEARCH_RESULT_COLUMNS], where ? `(${where}) AND ${inClause}` : inClause,
+  );
+  const byName = new Map(normalizeRepos(rows).map((repo) => [repo.full_name, repo]));
+  return names.flatMap((name) => byName.get(name) ?? []);
+}
+
 export async function searchFTS(query: string, limit = 20, filters: RepoQueryFilters = {}): Promise<Repo[]> {
   const table = await getTable();
   await ensureFTSIndex(table);
+  const where = await resolveRepoWhereClause(filters);
+  // Matches in your own notes rank ahead of matches in GitHub metadata.
+  const annotated = await searchAnnotatedRepos(query, limit, where);
+  const annotatedNames = new Set(annotated.map((repo) => repo.full_name));
   try {
-    const where = buildRepoWhereClause(filters);
     const results = await ftsSearchQuery(table, query, SEARCH_RESULT_COLUMNS_WITH_DISTANCE, where, limit);
-    return normalizeRepos(results);
+    return [...annotated, ...normalizeRepos(results).filter((repo) => !annotatedNames.has(repo.full_name))]
+      .slice(0, limit);
   } catch {
     const pattern = query.toLowerCase();
-    const where = buildRepoWhereClause(filters);
     let fallbackQuery = table.query();
     if (where) fallbackQuery = fallbackQuery.where(where);
     const results = normalizeRepos(await queryToArray<Repo>(fallbackQuery));
-    return results
+    const matches = results
       .filter((repo) => matchesRepoFilters(repo, filters))
       .filter(r =>
         r.name.toLowerCase().includes(pattern) ||
@@ -608,57 +956,158 @@ export async function searchFTS(query: string, limit = 20, filters: RepoQueryFil
         r.topics.toLowerCase().includes(pattern) ||
         r.language.toLowerCase().includes(pattern)
       )
-      .slice(0, limit);
+      .filter((repo) => !annotatedNames.has(repo.full_name));
+    return [...annotated, ...matches].slice(0, limit);
   }
 }
 
-export async function listRepos(options: {
-  language?: string;
-  topic?: string;
-  starredAfter?: string;
-  starredBefore?: string;
+// Columns `listRepos` can order by; `score` orders by `scores` instead, a
+// value per full_name kept outside the table (stars gained, see star-history.ts).
+export type RepoOrderColumn = 'stars_count' | 'forks_count' | 'starred_at_ts' | 'updated_at_ts' | 'score';
+
+export interface RepoListOptions extends RepoQueryFilters {
   limit?: number;
-} = {}): Promise<Repo[]> {
-  const { language, topic, starredAfter, starredBefore, limit } = options;
+  orderBy?: RepoOrderColumn;  // default: table order
+  descending?: boolean;
+  scores?: Map<string, number>;
+}
+
+interface RankedName {
+  full_name: string;
+  value: number;
+  position: number;     // scan position, breaks ties like a stable sort would
+}
+
+// LanceDB queries cannot ORDER BY, so ordered listings scan a two-column
+// projection batch by batch and keep only the best `limit` names; memory
+// stays at one batch plus the winners however large the collection is.
+async function rankRepoNames(
+  table: lancedb.Table,
+  where: string | undefined,
+  options: RepoListOptions & { orderBy: RepoOrderColumn },
+): Promise<string[]> {
+  const { orderBy, descending = false, scores, limit = Infinity } = options;
+  const compare = (a: RankedName, b: RankedName): number => descending
+    ? b.value - a.value || b.position - a.position
+    : a.value - b.value || a.position - b.position;
+
+  let q = table.query().select(orderBy === 'score' ? ['full_name'] : ['full_name', orderBy]);
+  if (where) q = q.where(where);
+  let best: RankedName[] = [];
+  let position = 0;
+  for await (const rows of queryBatches<Record<string, unknown>>(q)) {
+    for (const row of rows) {
+      const fullName = row.full_name as string;
+      const value = orderBy === 'score' ? scores?.get(fullName) : toOptionalNumber(row[orderBy]);
+      best.push({ full_name: fullName, value: value ?? 0, position: position++ });
+    }
+    if (best.length >= limit * 2) best = best.sort(compare).slice(0, limit);
+  }
+  return best.sort(compare).slice(0, limit).map((entry) => entry.full_name);
+}
+
+// Never reads vectors; `orderBy` with `limit` is a top-k over the filtered rows.
+export async function listRepos(options: RepoListOptions = {}): Promise<Repo[]> {
+  const { limit, orderBy, descending, scores, ...filters } = options;
   const table = await getTable();
+  const where = await resolveRepoWhereClause(filters);
+
+  if (!orderBy) {
+    let q = table.query().select([...SEARCH_RESULT_COLUMNS]);
+    if (where) q = q.where(where);
+    if (limit !== undefined) q = q.limit(limit);
+    return normalizeRepos(await queryToArray<Repo>(q));
+  }
 
-  let q = table.query();
-  const where = buildRepoWhereClause({ language, topic, starredAfter, starredBefore });
+  const names = await rankRepoNames(table, where, { limit, orderBy, descending, scores });
+  if (names.length === 0) return [];
+  const rows = await querySelectToArray<Repo>(table, [...SEARCH_RESULT_COLUMNS], buildFullNameInClause(names));
+  const byName = new Map(normalizeRepos(rows).map((repo) => [repo.full_name, repo]));
+  return names.flatMap((name) => byName.get(name) ?? []);
+}
+
+// Like listRepos without a limit, but batch by batch and without vectors, so
+// exports of any size never hold the whole table in memory.
+export async function* streamRepos(filters: RepoQueryFilters = {}): AsyncGenerator<Repo[]> {
+  const table = await getTable();
+  let q = table.query().select([...SEARCH_RESULT_COLUMNS]);
+  const where = await resolveRepoWhereClause(filters);
   if (where) q = q.where(where);
-  if (limit !== undefined) q = q.limit(limit);
-  return normalizeRepos(await queryToArray<Repo>(q));
+  for await (const rows of queryBatches<Repo>(q)) {
+    yield normalizeRepos(rows);
+  }
 }
 
 export async function countRepos(filters: RepoQueryFilters = {}): Promise<number> {
   const table = await getTable();
-  const where = buildRepoWhereClause(filters);
+  const where = await resolveRepoWhereClause(filters);
   return table.countRows(where);
 }
 
-export async function deleteReposMissingFromFullNames(fullNames: string[]): Promise<number> {
-  const table = await getTable();
+// Returns the names of the removed repos so sync can log what disappeared.
+export async function deleteReposMissingFromFullNames(fullNames: string[]): Promise<string[]> {
   const currentNames = new Set(fullNames);
-  const existing = await querySelectToArray<Pick<Repo, 'full_name'>>(table, ['full_name']);
-  const staleNames = existing
-    .map((repo) => repo.full_name)
-    .filter((fullName) => !currentNames.has(fullName));
+  const staleNames = (await listRepoFullNames()).filter((fullName) => !currentNames.has(fullName));
+  await retireRepos(staleNames);
+  return staleNames;
+}
+
+// Repos that are no longer starred stay as tombstones (see `--include-unstarred`)
+// until `purge` deletes them; `deleteUnstarred` in config.json drops them at once.
+export async function retireRepos(fullNames: string[]): Promise<void> {
+  if (deleteUnstarredRepos()) {
+    await deleteReposByName(fullNames);
+  } else {
+    await markReposUnstarred(fullNames);
+    await deleteReleases(fullNames);
+  }
+}
 
-  if (staleNames.length === 0) return 0;
+export async function markReposUnstarred(fullNames: string[], unstarredAt = new Date()): Promise<void> {
+  if (fullNames.length === 0) return;
+  const table = await getTable();
 
   const chunkSize = 200;
-  for (let i = 0; i < staleNames.length; i += chunkSize) {
-    const chunk = staleNames.slice(i, i + chunkSize);
+  for (let i = 0; i < fullNames.length; i += chunkSize) {
+    const where = buildFullNameWhereClause(fullNames.slice(i, i + chunkSize));
+    if (!where) continue;
+    await updateRows(table, { unstarred_at: unstarredAt.toISOString() }, `(${where}) AND unstarred_at = ''`);
+  }
+}
+
+// Tombstones unstarred before `before` (all of them without a cutoff). ISO
+// timestamps sort lexicographically, so the string column compares directly.
+export async function listUnstarredRepoNames(before?: Date): Promise<string[]> {
+  const table = await getTable();
+  const where = before ? `unstarred_at != '' AND unstarred_at < '${before.toISOString()}'` : "unstarred_at != ''";
+  const rows = await querySelectToArray<Pick<Repo, 'full_name'>>(table, ['full_name'], where);
+  return rows.map((repo) => repo.full_name);
+}
+
+export async function deleteReposByName(fullNames: string[]): Promise<void> {
+  if (fullNames.length === 0) return;
+  const table = await getTable();
+
+  const chunkSize = 200;
+  for (let i = 0; i < fullNames.length; i += chunkSize) {
+    const chunk = fullNames.slice(i, i + chunkSize);
     const where = buildFullNameWhereClause(chunk);
     if (!where) continue;
     await deleteRows(table, where);
   }
+  await deleteReleases(fullNames);
 
-  _ftsIndexReady = false;
+  tableState().ftsIndexReady = false;
 
   const remaining = await table.countRows();
   if (remaining === 0) setHasEmbeddings(false);
+}
 
-  return staleNames.length;
+export async function listRepoFullNames(filters: RepoQueryFilters = {}): Promise<string[]> {
+  const table = await getTable();
+  const where = await resolveRepoWhereClause(filters);
+  const rows = await querySelectToArray<Pick<Repo, 'full_name'>>(table, ['full_name'], where);
+  return rows.map((repo) => repo.full_name);
 }
 
 export async function getRepoByName(fullName: string): Promise<Repo | null> {
@@ -670,7 +1119,7 @@ export async function getRepoByName(fullName: string): Promise<Repo | null> {
 
 export async function getStats(): Promise<{ count: number; lastSync: string | null }> {
   const table = await getTable();
-  const count = await table.countRows();
+  const count = await table.countRows("unstarred_at = ''");
   return { count, lastSync: getMeta('last_sync') };
 }
 
@@ -696,17 +1145,18 @@ export async function getReposForEmbedding(): Promise<EmbeddingRepo[]> {
 export async function hasAnyEmbeddings(totalCount?: number): Promise<boolean> {
   const count = totalCount ?? await (await getTable()).countRows();
   if (count === 0) {
-    if (_hasEmbeddings === false) return false;
+    if (tableState().hasEmbeddings === false) return false;
     setHasEmbeddings(false);
     return false;
   }
 
-  if (_hasEmbeddings !== null) return _hasEmbeddings;
+  const state = tableState();
+  if (state.hasEmbeddings !== null) return state.hasEmbeddings;
 
   const cached = getMeta('has_embeddings');
   if (cached === 'true' || cached === 'false') {
-    _hasEmbeddings = cached === 'true';
-    return _hasEmbeddings;
+    state.hasEmbeddings = cached === 'true';
+    return state.hasEmbeddings;
   }
 
   const withoutEmbeddingCount = await countReposWithoutEmbedding();
@@ -714,3 +1164,150 @@ export async function hasAnyEmbeddings(totalCount?: number): Promise<boolean> {
   setHasEmbeddings(hasEmbeddings);
   return hasEmbeddings;
 }
+
+// ── Search indexes ────────────────────────────────────────────────────────────
+// Scalar indexes serve the common filters, the full-text indexes keyword
+// search, and an ANN index vector search once brute force stops being cheap.
+// LanceDB searches rows added after an index was built without it, so writers
+// call updateRepoIndexes() at the end of a run to fold them in.
+
+export const VECTOR_INDEX_MIN_ROWS = 10_000;
+
+const SCALAR_INDEXES: Array<{ column: string; config: () => lancedb.Index }> = [
+  { column: 'language_key', config: () => lancedb.Index.bitmap() },
+  { column: 'starred_at_ts', config: () => lancedb.Index.btree() },
+  { column: 'stars_count', config: () => lancedb.Index.btree() },
+];
+
+export interface RepoIndexUpdate {
+  created: string[];      // columns that got a new index
+  optimized: boolean;     // existing indexes were brought up to date
+}
+
+export interface RepoIndexOptions {
+  vectorMinRows?: number; // embedded rows needed before the ANN index is built
+}
+
+// Columns that should have an index but do not, given the current row counts.
+export async function missingRepoIndexes(options: RepoIndexOptions = {}): Promise<string[]> {
+  const table = await getTable();
+  if (await table.countRows() === 0) return [];
+  const indexed = new Set((await table.listIndices()).flatMap((index) => index.columns));
+  const missing = SCALAR_INDEXES.map(({ column }) => column).filter((column) => !indexed.has(column));
+  missing.push(...(await missingFTSColumns(table, FTS_COLUMNS)));
+  const embedded = await table.countRows('has_embedding IS TRUE');
+  if (!indexed.has('vector') && embedded >= (options.vectorMinRows ?? VECTOR_INDEX_MIN_ROWS)) missing.push('vector');
+  return missing;
+}
+
+// Builds the indexes the collection has grown into, then optimizes the table
+// so rows written since the last build are indexed too.
+export async function updateRepoIndexes(options: RepoIndexOptions = {}): Promise<RepoIndexUpdate> {
+  const table = await getTable();
+  const hadIndexes = (await table.listIndices()).length > 0;
+  const missing = await missingRepoIndexes(options);
+
+  for (const column of missing) {
+    const scalar = SCALAR_INDEXES.find((index) => index.column === column);
+    if (scalar) {
+      await table.createIndex(column, { config: scalar.config(), name: `${column}_idx` });
+    } else if (column === 'vector') {
+      await table.createIndex('vector', { config: lancedb.Index.hnswSq({ distanceType: 'l2' }), name: 'vector_idx' });
+    } else {
+      await createFTSIndex(table, FTS_INDEX_NAME, [column]);
+    }
+  }
+  if (missing.some((column) => FTS_COLUMNS.includes(column))) tableState().ftsIndexReady = true;
+
+  if (hadIndexes) await table.optimize();
+  return { created: missing, optimized: hadIndexes };
+}
+
+// ── Integrity checks (`starepo doctor`) ───────────────────────────────────────
+
+export interface RepoTableHealth {
+  rows: number;
+  missingColumns: string[];         // columns of the current schema the table lacks
+  duplicateNames: string[];         // full_names stored more than once
+  flaggedWithoutVector: string[];   // has_embedding = true but an all-zero vector
+  staleVectors: string[];           // an old vector awaiting `embed` (has_embedding = false, see markEmbeddingsStale)
+  embeddedRows: number;             // rows with a real vector
+  missingFTSColumns: string[];      // searched columns without a full-text index
+}
+
+export async function inspectRepoTable(): Promise<RepoTableHealth> {
+  const table = await getTable();
+  const columns = new Set((await table.schema()).fields.map((field) => field.name));
+  const missingColumns = repoTableSchema().fields.map((field) => field.name).filter((name) => !columns.has(name));
+
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  const flaggedWithoutVector: string[] = [];
+  const staleVectors: string[] = [];
+  let rows = 0;
+  let embeddedRows = 0;
+  const select = ['full_name', 'vector', ...(columns.has('has_embedding') ? ['has_embedding'] : [])];
+  for await (const batch of queryBatches<Pick<Repo, 'full_name' | 'vector' | 'has_embedding'>>(table.query().select(select))) {
+    for (const repo of batch) {
+      rows++;
+      if (seen.has(repo.full_name)) duplicates.add(repo.full_name);
+      seen.add(repo.full_name);
+      const hasVector = hasNonZeroVector(repo.vector);
+      if (hasVector) embeddedRows++;
+      if (repo.has_embedding && !hasVector) flaggedWithoutVector.push(repo.full_name);
+      if (!repo.has_embedding && hasVector) staleVectors.push(repo.full_name);
+    }
+  }
+
+  return {
+    rows,
+    missingColumns,
+    duplicateNames: [...duplicates],
+    flaggedWithoutVector,
+    staleVectors,
+    embeddedRows,
+    missingFTSColumns: await missingFTSColumns(table, FTS_COLUMNS),
+  };
+}
+
+// Keeps one row per duplicated full_name, preferring the one with a vector.
+export async function dedupeRepoRows(fullNames: string[]): Promise<number> {
+  const table = await getTable();
+  let removed = 0;
+  for (const fullName of fullNames) {
+    const copies = (await queryWhereToArray<Repo>(table, `full_name = '${escapeSqlString(fullName)}'`)).map(normalizeRepo);
+    if (copies.length < 2) continue;
+    const keeper = copies.find((repo) => hasNonZeroVector(repo.vector)) ?? copies[0];
+    await deleteRows(table, `full_name = '${escapeSqlString(fullName)}'`);
+    await addRows(table, [repoRecordToRow({ ...keeper, has_embedding: hasNonZeroVector(keeper.vector) })]);
+    removed += copies.length - 1;
+  }
+  tableState().ftsIndexReady = false;
+  return removed;
+}
+
+// Clears has_embedding on rows without a vector, so `embed` regenerates the
+// rows that only claimed to have one. Stale vectors keep their cleared flag.
+export async function repairEmbeddingFlags(health: Pick<RepoTableHealth, 'flaggedWithoutVector'>): Promise<void> {
+  const table = await getTable();
+  if (health.flaggedWithoutVector.length > 0) {
+    await updateRows(table, { has_embedding: false }, buildFullNameInClause(health.flaggedWithoutVector));
+  }
+  tableState().hasEmbeddings = null;
+}
+
+// Reindexes every searched column, covering rows added since the last build.
+export async function rebuildFTSIndex(): Promise<void> {
+  const table = await getTable();
+  tableState().ftsIndexReady = false;
+  await createFTSIndex(table, FTS_INDEX_NAME, FTS_COLUMNS, { replace: true });
+  tableState().ftsIndexReady = true;
+}
+
+// Re-runs every migration step from the start. Each step tolerates columns
+// that already exist, so this completes a migration that stopped halfway.
+export async function rerunSchemaMigrations(): Promise<void> {
+  setMeta('schema_version', String(BASE_SCHEMA_VERSION));
+  tableState().schemaReady = false;
+  await getTable();
+}
@@ -47,3 +47,24 @@ export function resolveStarredTimeRange(
     starredBefore: starredBefore?.toISOString(),
   };
 }
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+// Parses watch intervals such as "90s", "30m", "2h" or "1d"; a bare number
+// means minutes. Anything under a minute is rejected to spare the API quota.
+export function parseDuration(value: string, label: string, minMs = 60 * 1000): number {
+  const match = value.trim().match(/^(\d+)\s*([smhd]?)$/i);
+  if (!match) {
+    throw new Error(`Invalid ${label} value: "${value}". Use a number with s, m, h or d, e.g. 30m or 2h.`);
+  }
+  const ms = Number(match[1]) * DURATION_UNITS_MS[(match[2] || 'm').toLowerCase()];
+  if (ms < minMs) {
+    throw new Error(`Invalid ${label} value: "${value}". It must be at least ${minMs / 1000} seconds.`);
+  }
+  return ms;
+}
@@ -0,0 +1,11 @@
+// `topics` is stored as a JSON array; rows written by older versions may hold
+// plain space-separated text.
+export function parseTopics(topics: string): string[] {
+  try {
+    const parsed: unknown = JSON.parse(topics);
+    if (Array.isArray(parsed)) return parsed.map(String);
+  } catch {
+    // Not JSON: fall through to the plain-text form.
+  }
+  return topics.split(/\s+/).filter(Boolean);
+}
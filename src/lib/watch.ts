@@ -0,0 +1,70 @@
+// Runs a task on a fixed interval inside a long-lived process (`sync --watch`,
+// `serve --watch`). The next cycle is only scheduled once the previous one has
+// settled, so cycles never overlap however long a sync takes.
+
+export interface WatcherOptions {
+  intervalMs: number;
+  run: (cycle: number) => Promise<void>;
+  log?: (message: string) => void;
+}
+
+export interface Watcher {
+  stop(): Promise<void>;    // cancels the next cycle and waits for the running one
+}
+
+function formatDuration(ms: number): string {
+  return ms < 60_000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms / 60_000)}m`;
+}
+
+export function startWatcher(options: WatcherOptions): Watcher {
+  const log = options.log ?? ((message: string) => console.log(message));
+  let cycle = 0;
+  let stopped = false;
+  let timer: NodeJS.Timeout | null = null;
+  let current: Promise<void> = Promise.resolve();
+
+  const runCycle = async () => {
+    timer = null;
+    cycle++;
+    const started = Date.now();
+    log(`[${new Date(started).toLocaleString()}] Sync cycle ${cycle} started.`);
+    try {
+      await options.run(cycle);
+      log(`[${new Date().toLocaleString()}] Sync cycle ${cycle} finished in ${formatDuration(Date.now() - started)}.`);
+    } catch (err) {
+      // A failed cycle (network down, rate limit) is retried on the next tick.
+      log(`[${new Date().toLocaleString()}] Sync cycle ${cycle} failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    if (!stopped) {
+      timer = setTimeout(() => { current = runCycle(); }, options.intervalMs);
+      log(`Next sync at ${new Date(Date.now() + options.intervalMs).toLocaleString()}.`);
+    }
+  };
+
+  current = runCycle();
+
+  return {
+    async stop() {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      timer = null;
+      await current;
+    },
+  };
+}
+
+// Resolves once SIGINT or SIGTERM arrives and the watcher has stopped. A
+// second signal falls through to Node's default handler and exits at once;
+// an interrupted sync resumes from its checkpoint next time.
+export function stopWatcherOnSignal(watcher: Watcher, log: (message: string) => void): Promise<void> {
+  return new Promise((resolve) => {
+    const shutdown = (signal: NodeJS.Signals) => {
+      process.off('SIGINT', shutdown);
+      process.off('SIGTERM', shutdown);
+      log(`Received ${signal}, stopping after the current sync finishes...`);
+      void watcher.stop().then(resolve);
+    };
+    process.once('SIGINT', shutdown);
+    process.once('SIGTERM', shutdown);
+  });
+}
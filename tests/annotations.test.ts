@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { RepoInput } from '../src/lib/storage.js';
+
+let tmpDir: string;
+
+function makeRepo(fullName: string, description = 'A repo'): RepoInput {
+  return {
+    id: Math.floor(Math.random() * 1_000_000),
+    full_name: fullName,
+    name: fullName.split('/')[1],
+    description,
+    html_url: `https://github.com/${fullName}`,
+    homepage: '',
+    language: 'TypeScript',
+    topics: [],
+    stars_count: 1,
+    forks_count: 0,
+    starred_at: '2026-01-01T00:00:00Z',
+    updated_at: '',
+  };
+}
+
+beforeEach(() => {
+  tmpDir = mkdtempSync(join(tmpdir(), 'starepo-annotations-test-'));
+  process.env.XDG_DATA_HOME = join(tmpDir, 'data');
+  process.env.XDG_CONFIG_HOME = join(tmpDir, 'config');
+  vi.resetModules();
+});
+
+afterEach(() => {
+  rmSync(tmpDir, { recursive: true, force: true });
+  delete process.env.XDG_DATA_HOME;
+  delete process.env.XDG_CONFIG_HOME;
+  vi.restoreAllMocks();
+});
+
+describe('annotations', () => {
+  it('normalizes tags, keeps notes alongside them and drops empty annotations', async () => {
+    const { addTags, removeTags, setNote, getAnnotation, listTags, normalizeTag } = await import('../src/lib/annotations.js');
+
+    expect(() => normalizeTag('used in prod')).toThrow('Invalid tag "used in prod"');
+    expect((await addTags('alice/hello', ['Evaluated', 'used-in-prod', 'evaluated']))!.tags)
+      .toEqual(['evaluated', 'used-in-prod']);
+    await setNote('alice/hello', '  Picked for the CLI rewrite.  ');
+    await addTags('bob/world', ['avoid', 'evaluated']);
+
+    expect(await getAnnotation('alice/hello')).toMatchObject({
+      tags: ['evaluated', 'used-in-prod'],
+      note: 'Picked for the CLI rewrite.',
+    });
+    expect(await listTags()).toEqual([
+      { tag: 'evaluated', count: 2 },
+      { tag: 'avoid', count: 1 },
+      { tag: 'used-in-prod', count: 1 },
+    ]);
+
+    expect(await removeTags('bob/world', ['avoid', 'evaluated'])).toBeNull();
+    expect(await getAnnotation('bob/world')).toBeNull();
+    expect((await setNote('alice/hello', ''))!.note).toBe('');
+  });
+
+  it('survives upserts and full-sync deletes and filters repos by tag', async () => {
+    const { upsertRepos, deleteReposMissingFromFullNames, listRepos, countRepos } = await import('../src/lib/storage.js');
+    const { addTags, setNote, getAnnotation } = await import('../src/lib/annotations.js');
+
+    await upsertRepos([makeRepo('alice/hello'), makeRepo('bob/world'), makeRepo('carol/gone')]);
+    await addTags('alice/hello', ['evaluated']);
+    await addTags('carol/gone', ['evaluated']);
+    await setNote('bob/world', 'Too heavy for us');
+
+    await upsertRepos([makeRepo('alice/hello', 'Updated description'), makeRepo('bob/world')]);
+    await deleteReposMissingFromFullNames(['alice/hello', 'bob/world']);
+
+    expect((await getAnnotation('alice/hello'))!.tags).toEqual(['evaluated']);
+    expect((await getAnnotation('bob/world'))!.note).toBe('Too heavy for us');
+    expect((await listRepos({ tag: 'Evaluated' })).map((repo) => repo.full_name)).toEqual(['alice/hello']);
+    expect(await countRepos({ tag: 'unused' })).toBe(0);
+  });
+
+  it('makes notes and tags findable by keyword search, ahead of metadata matches', async () => {
+    const { upsertRepos, searchFTS } = await import('../src/lib/storage.js');
+    const { addTags, setNote } = await import('../src/lib/annotations.js');
+
+    await upsertRepos([makeRepo('alice/hello', 'Fast parser'), makeRepo('bob/world', 'Parser combinators')]);
+    await setNote('bob/world', 'Replaced our handwritten parser in the billing service');
+    await addTags('alice/hello', ['billing']);
+
+    expect((await searchFTS('billing', 10)).map((repo) => repo.full_name).sort()).toEqual(['alice/hello', 'bob/world']);
+    expect((await searchFTS('parser', 10))[0].full_name).toBe('bob/world');
+    expect(await searchFTS('billing', 10, { language: 'Rust' })).toEqual([]);
+  });
+});
+
+describe('annotateRepo', () => {
+  it('matches the stored repo case-insensitively and flags it for re-embedding', async () => {
+    const generateEmbedding = vi.fn();
+    vi.doMock('../src/lib/embeddings.js', async (importOriginal) => ({
+      ...await importOriginal<typeof import('../src/lib/embeddings.js')>(),
+      generateEmbedding,
+    }));
+    const { upsertRepos, getRepoByName, getReposWithoutEmbedding } = await import('../src/lib/storage.js');
+    await upsertRepos([{ ...makeRepo('Alice/Hello'), vector: new Array(1024).fill(0.1) }]);
+
+    const { annotateRepo, findStoredRepo } = await import('../src/commands/annotate.js');
+    const repo = await findStoredRepo('alice/hello');
+    const annotation = await annotateRepo(repo, { addTags: ['evaluated'], note: 'Solid docs' });
+
+    expect(annotation).toMatchObject({ full_name: 'Alice/Hello', tags: ['evaluated'], note: 'Solid docs' });
+    expect(generateEmbedding).not.toHaveBeenCalled();
+    const stored = (await getRepoByName('Alice/Hello'))!;
+    expect(stored.has_embedding).toBe(false);
+    expect(Array.from(stored.vector as unknown as ArrayLike<number>)[0]).toBeCloseTo(0.1);
+    expect((await getReposWithoutEmbedding()).map((row) => row.full_name)).toEqual(['Alice/Hello']);
+
+    await expect(findStoredRepo('nobody/else')).rejects.toThrow('Repository "nobody/else" not found');
+  });
+
+  it('keeps the vector when nothing changes', async () => {
+    const { upsertRepos, getRepoByName } = await import('../src/lib/storage.js');
+    await upsertRepos([{ ...makeRepo('alice/hello'), vector: new Array(1024).fill(0.1) }]);
+
+    const { annotateRepo, findStoredRepo } = await import('../src/commands/annotate.js');
+    await annotateRepo(await findStoredRepo('alice/hello'), { removeTags: ['missing'] });
+
+    expect((await getRepoByName('alice/hello'))!.has_embedding).toBe(true);
+  });
+});
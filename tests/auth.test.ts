@@ -52,6 +52,26 @@ describe('runAuth', () => {
     expect(saveToken).toHaveBeenCalledWith('new-token');
   });
 
+  it('requests the write scope through a fresh device flow for --write', async () => {
+    const runDeviceFlow = vi.fn().mockResolvedValue({ token: 'write-token' });
+
+    vi.doMock('../src/lib/config.js', () => ({
+      getToken: vi.fn().mockReturnValue('stored-token'),
+      saveToken: vi.fn(),
+    }));
+    vi.doMock('../src/lib/github.js', () => ({
+      createOctokit: vi.fn().mockReturnValue({}),
+      getAuthenticatedUser: vi.fn().mockResolvedValue('alice'),
+      runDeviceFlow,
+      WRITE_SCOPES: ['read:user', 'public_repo'],
+    }));
+
+    const { runAuth } = await import('../src/commands/auth.js');
+    await expect(runAuth({ write: true })).resolves.toBe('write-token');
+
+    expect(runDeviceFlow).toHaveBeenCalledWith(['read:user', 'public_repo']);
+  });
+
   it('re-authenticates when a stored token is invalid', async () => {
     const saveToken = vi.fn();
     const runDeviceFlow = vi.fn().mockResolvedValue({ token: 'new-token' });
@@ -112,3 +132,132 @@ describe('ensureAuth', () => {
     await expect(ensureAuth()).resolves.toBe('new-token');
   });
 });
+
+describe('runAuth with a provided credential', () => {
+  it('validates and stores a personal access token without the device flow', async () => {
+    const saveToken = vi.fn();
+    const runDeviceFlow = vi.fn();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    vi.doMock('../src/lib/config.js', () => ({
+      getToken: vi.fn().mockReturnValue(null),
+      saveToken,
+    }));
+    vi.doMock('../src/lib/github.js', () => ({
+      createOctokit: vi.fn((token: string) => ({ token })),
+      getAuthenticatedUser: vi.fn().mockResolvedValue('alice'),
+      runDeviceFlow,
+    }));
+
+    const { runAuth } = await import('../src/commands/auth.js');
+    await expect(runAuth({ token: ' ghp_pat ' })).resolves.toBe('ghp_pat');
+
+    expect(saveToken).toHaveBeenCalledWith('ghp_pat');
+    expect(runDeviceFlow).not.toHaveBeenCalled();
+  });
+
+  it('does not store a token that GitHub rejects', async () => {
+    const saveToken = vi.fn();
+
+    vi.doMock('../src/lib/config.js', () => ({
+      getToken: vi.fn(),
+      saveToken,
+    }));
+    vi.doMock('../src/lib/github.js', () => ({
+      createOctokit: vi.fn((token: string) => ({ token })),
+      getAuthenticatedUser: vi.fn().mockRejectedValue(new Error('Bad credentials')),
+      runDeviceFlow: vi.fn(),
+    }));
+
+    const { runAuth } = await import('../src/commands/auth.js');
+    await expect(runAuth({ token: 'typo' })).rejects.toThrow('Bad credentials');
+
+    expect(saveToken).not.toHaveBeenCalled();
+  });
+
+  it('stores a token command after running it once', async () => {
+    const saveTokenCommand = vi.fn();
+    const createOctokit = vi.fn((token: string) => ({ token }));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    vi.doMock('../src/lib/config.js', () => ({
+      getToken: vi.fn(),
+      saveToken: vi.fn(),
+      saveTokenCommand,
+      runTokenCommand: vi.fn().mockReturnValue('gho_helper'),
+    }));
+    vi.doMock('../src/lib/github.js', () => ({
+      createOctokit,
+      getAuthenticatedUser: vi.fn().mockResolvedValue('alice'),
+      runDeviceFlow: vi.fn(),
+    }));
+
+    const { runAuth } = await import('../src/commands/auth.js');
+    await expect(runAuth({ tokenCommand: 'gh auth token' })).resolves.toBe('gho_helper');
+
+    expect(createOctokit).toHaveBeenCalledWith('gho_helper');
+    expect(saveTokenCommand).toHaveBeenCalledWith('gh auth token');
+  });
+});
+
+describe('auth status and logout', () => {
+  it('shows the identity and token source', async () => {
+    const logs: string[] = [];
+    vi.spyOn(console, 'log').mockImplementation((message?: string) => {
+      logs.push(String(message ?? ''));
+    });
+
+    vi.doMock('../src/lib/config.js', () => ({
+      resolveToken: vi.fn().mockReturnValue({ token: 'env-token', source: 'STAREPO_TOKEN' }),
+      getGitHubHost: vi.fn().mockReturnValue({ oauthHost: 'https://github.com' }),
+    }));
+    vi.doMock('../src/lib/github.js', () => ({
+      createOctokit: vi.fn((token: string) => ({ token })),
+      getAuthenticatedUser: vi.fn().mockResolvedValue('alice'),
+    }));
+
+    const { runAuthStatus } = await import('../src/commands/auth.js');
+    await runAuthStatus();
+
+    expect(logs).toEqual(['Logged in to github.com as alice (token from STAREPO_TOKEN).']);
+  });
+
+  it('reports when nobody is logged in', async () => {
+    const logs: string[] = [];
+    vi.spyOn(console, 'log').mockImplementation((message?: string) => {
+      logs.push(String(message ?? ''));
+    });
+
+    vi.doMock('../src/lib/config.js', () => ({
+      resolveToken: vi.fn().mockReturnValue(null),
+      getGitHubHost: vi.fn().mockReturnValue({ oauthHost: 'https://ghe.example.com' }),
+    }));
+    vi.doMock('../src/lib/github.js', () => ({}));
+
+    const { runAuthStatus } = await import('../src/commands/auth.js');
+    await runAuthStatus();
+
+    expect(logs[0]).toContain('Not logged in to ghe.example.com');
+  });
+
+  it('clears stored credentials and warns about env tokens', async () => {
+    const logs: string[] = [];
+    vi.spyOn(console, 'log').mockImplementation((message?: string) => {
+      logs.push(String(message ?? ''));
+    });
+    const clearToken = vi.fn();
+    vi.doMock('../src/lib/config.js', () => ({ clearToken }));
+    vi.doMock('../src/lib/github.js', () => ({}));
+    vi.stubEnv('GITHUB_TOKEN', 'ci-token');
+
+    try {
+      const { runLogout } = await import('../src/commands/auth.js');
+      await runLogout();
+    } finally {
+      vi.unstubAllEnvs();
+    }
+
+    expect(clearToken).toHaveBeenCalledTimes(1);
+    expect(logs.join('\n')).toContain('GITHUB_TOKEN is still set');
+  });
+});
@@ -0,0 +1,207 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { gunzipSync, gzipSync } from 'zlib';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { RepoInput } from '../src/lib/storage.js';
+
+let tmpDir: string;
+
+function makeRepo(fullName: string): RepoInput {
+  return {
+    id: Math.floor(Math.random() * 1_000_000),
+    full_name: fullName,
+    name: fullName.split('/')[1],
+    description: 'A repo',
+    html_url: `https://github.com/${fullName}`,
+    homepage: '',
+    language: 'TypeScript',
+    topics: ['cli'],
+    stars_count: 1,
+    forks_count: 0,
+    starred_at: '2026-01-01T00:00:00Z',
+    updated_at: '',
+  };
+}
+
+function useDataDir(name: string): void {
+  process.env.XDG_DATA_HOME = join(tmpDir, name, 'data');
+  process.env.XDG_CONFIG_HOME = join(tmpDir, name, 'config');
+  vi.resetModules();
+}
+
+async function seedCollection(): Promise<void> {
+  const { upsertRepos, updateEmbedding } = await import('../src/lib/storage.js');
+  const { replaceStarLists } = await import('../src/lib/lists.js');
+  const { setMeta, getHistoryFilePath } = await import('../src/lib/config.js');
+  const { EMBEDDING_MODEL, EMBEDDING_VERSION } = await import('../src/lib/embeddings.js');
+
+  await upsertRepos([makeRepo('alice/hello'), makeRepo('bob/world')]);
+  await updateEmbedding('alice/hello', new Array(1024).fill(0.25));
+  await replaceStarLists([{ name: 'Tools', slug: 'tools', description: '', repos: ['alice/hello'] }]);
+  setMeta('embedding_model', EMBEDDING_MODEL);
+  setMeta('embedding_version', EMBEDDING_VERSION);
+  setMeta('sync_checkpoint', '{"page":3}');
+  writeFileSync(getHistoryFilePath(), '{"mode":"full"}\n', 'utf-8');
+}
+
+// Rewrites an archive's records and recomputes the checksum, like a backup
+// taken by another starepo build would look.
+async function rewriteBackup(path: string, edit: (record: Record<string, unknown>) => void): Promise<void> {
+  const { createHash } = await import('crypto');
+  const lines = gunzipSync(readFileSync(path)).toString('utf-8').trim().split('\n').slice(0, -1);
+  const hash = createHash('sha256');
+  const body = lines.map((line) => {
+    const record = JSON.parse(line) as Record<string, unknown>;
+    edit(record);
+    const rewritten = `${JSON.stringify(record)}\n`;
+    hash.update(rewritten);
+    return rewritten;
+  }).join('');
+  writeFileSync(path, gzipSync(`${body}${JSON.stringify({ type: 'checksum', sha256: hash.digest('hex') })}\n`));
+}
+
+beforeEach(() => {
+  tmpDir = mkdtempSync(join(tmpdir(), 'starepo-backup-test-'));
+  useDataDir('source');
+});
+
+afterEach(() => {
+  rmSync(tmpDir, { recursive: true, force: true });
+  delete process.env.XDG_DATA_HOME;
+  delete process.env.XDG_CONFIG_HOME;
+  vi.restoreAllMocks();
+});
+
+describe('backup and restore', () => {
+  it('round-trips repos, vectors, lists, meta and history into an empty data dir', async () => {
+    await seedCollection();
+    const archive = join(tmpDir, 'stars.starepo.gz');
+    const { createBackup } = await import('../src/lib/backup.js');
+    const manifest = await createBackup(archive);
+
+    expect(manifest.tables).toMatchObject({ repos: 2, star_lists: 1 });
+    expect(existsSync(`${archive}.tmp`)).toBe(false);
+
+    useDataDir('target');
+    const { restoreBackup } = await import('../src/lib/backup.js');
+    await restoreBackup(archive);
+
+    const { getRepoByName, listRepoFullNames } = await import('../src/lib/storage.js');
+    const { getListMemberNames } = await import('../src/lib/lists.js');
+    const { getMeta, getHistoryFilePath } = await import('../src/lib/config.js');
+    expect((await listRepoFullNames()).sort()).toEqual(['alice/hello', 'bob/world']);
+    const vector = Array.from((await getRepoByName('alice/hello'))!.vector as unknown as ArrayLike<number>);
+    expect(vector).toHaveLength(1024);
+    expect(vector[0]).toBeCloseTo(0.25);
+    expect(await getListMemberNames('Tools')).toEqual(['alice/hello']);
+    expect(getMeta('embedding_model')).toBe(manifest.embedding_model);
+    expect(getMeta('sync_checkpoint')).toBeNull();
+    expect(readFileSync(getHistoryFilePath(), 'utf-8')).toBe('{"mode":"full"}\n');
+  });
+
+  it('replaces the current index instead of merging into it', async () => {
+    const { upsertRepos } = await import('../src/lib/storage.js');
+    await upsertRepos([makeRepo('alice/hello')]);
+    const archive = join(tmpDir, 'stars.starepo.gz');
+    await (await import('../src/lib/backup.js')).createBackup(archive);
+
+    await upsertRepos([makeRepo('carol/new')]);
+    await (await import('../src/lib/lists.js')).replaceStarLists([{ name: 'Later', slug: 'later', description: '', repos: ['carol/new'] }]);
+    vi.resetModules();
+    await (await import('../src/lib/backup.js')).restoreBackup(archive);
+
+    const { listRepoFullNames } = await import('../src/lib/storage.js');
+    const { getDB } = await import('../src/lib/db.js');
+    expect(await listRepoFullNames()).toEqual(['alice/hello']);
+    expect(await (await getDB()).tableNames()).not.toContain('star_lists');
+  });
+
+  it('rejects corrupted, truncated and foreign archives before touching the index', async () => {
+    await seedCollection();
+    const archive = join(tmpDir, 'stars.starepo.gz');
+    const { createBackup, restoreBackup, verifyBackup } = await import('../src/lib/backup.js');
+    await createBackup(archive);
+
+    const lines = gunzipSync(readFileSync(archive)).toString('utf-8').trim().split('\n');
+    const tampered = join(tmpDir, 'tampered.gz');
+    const edited = lines.map((line) => (line.startsWith('{"type":"history"') ? line.replace('full', 'forced') : line));
+    writeFileSync(tampered, gzipSync(edited.join('\n')));
+    await expect(restoreBackup(tampered)).rejects.toThrow('checksum mismatch');
+
+    const truncated = join(tmpDir, 'truncated.gz');
+    writeFileSync(truncated, gzipSync(lines.slice(0, -1).join('\n')));
+    await expect(verifyBackup(truncated)).rejects.toThrow('missing checksum');
+
+    const foreign = join(tmpDir, 'foreign.gz');
+    writeFileSync(foreign, gzipSync('{"hello":"world"}\n'));
+    await expect(verifyBackup(foreign)).rejects.toThrow('is not a starepo backup');
+
+    const plain = join(tmpDir, 'plain.json');
+    writeFileSync(plain, '[]');
+    await expect(verifyBackup(plain)).rejects.toThrow('Cannot read backup');
+
+    const { listRepoFullNames } = await import('../src/lib/storage.js');
+    expect(await listRepoFullNames()).toHaveLength(2);
+  });
+
+  it('refuses a different embedding model or newer schema unless forced', async () => {
+    await seedCollection();
+    const archive = join(tmpDir, 'stars.starepo.gz');
+    const { createBackup, restoreBackup } = await import('../src/lib/backup.js');
+    await createBackup(archive);
+    await rewriteBackup(archive, (record) => {
+      if (record.type !== 'manifest') return;
+      const manifest = record.manifest as Record<string, unknown>;
+      manifest.embedding_model = 'Xenova/other-model';
+      manifest.schema_version = 99;
+    });
+
+    await expect(restoreBackup(archive)).rejects.toThrow(/^Refusing to restore .*schema v99.*Xenova\/other-model.*--force/);
+
+    await expect(restoreBackup(archive, { force: true })).resolves.toMatchObject({ schema_version: 99 });
+  });
+
+  it('refuses a backup of another profile or collection unless forced', async () => {
+    await seedCollection();
+    const archive = join(tmpDir, 'stars.starepo.gz');
+    const { createBackup, restoreBackup } = await import('../src/lib/backup.js');
+    const { createProfile, useProfile, useCollectionUser } = await import('../src/lib/config.js');
+    await createBackup(archive);
+
+    createProfile('work');
+    useProfile('work');
+    await expect(restoreBackup(archive)).rejects.toThrow(
+      'it was made from your own stars in profile "default", not your own stars in profile "work"'
+    );
+
+    useProfile('default');
+    useCollectionUser('octocat');
+    await expect(restoreBackup(archive)).rejects.toThrow('not octocat\'s stars in profile "default"');
+    await expect(restoreBackup(archive, { force: true })).resolves.toMatchObject({ collection: null, profile: 'default' });
+  });
+
+  it('leaves the index untouched when loading fails and drops the local history', async () => {
+    const { upsertRepos } = await import('../src/lib/storage.js');
+    const { getHistoryFilePath } = await import('../src/lib/config.js');
+    await upsertRepos([makeRepo('alice/hello')]);
+    const archive = join(tmpDir, 'stars.starepo.gz');
+    await (await import('../src/lib/backup.js')).createBackup(archive);
+    await upsertRepos([makeRepo('carol/new')]);
+    writeFileSync(getHistoryFilePath(), '{"mode":"incremental"}\n', 'utf-8');
+
+    const broken = join(tmpDir, 'broken.starepo.gz');
+    writeFileSync(broken, readFileSync(archive));
+    await rewriteBackup(broken, (record) => {
+      if (record.type === 'batch') record.ipc = Buffer.from('not arrow').toString('base64');
+    });
+    vi.resetModules();
+    await expect((await import('../src/lib/backup.js')).restoreBackup(broken)).rejects.toThrow();
+    expect((await (await import('../src/lib/storage.js')).listRepoFullNames()).sort()).toEqual(['alice/hello', 'carol/new']);
+
+    vi.resetModules();
+    await (await import('../src/lib/backup.js')).restoreBackup(archive);
+    expect(await (await import('../src/lib/storage.js')).listRepoFullNames()).toEqual(['alice/hello']);
+    expect(readFileSync(getHistoryFilePath(), 'utf-8')).toBe('');
+  });
+});
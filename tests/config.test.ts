@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { chmodSync, mkdtempSync, rmSync, statSync, writeFileSync } from 'fs';
+import { chmodSync, mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from 'fs';
 import { tmpdir } from 'os';
 import { join } from 'path';
 
@@ -10,6 +10,9 @@ function setupTempEnv() {
   tmpDir = mkdtempSync(join(tmpdir(), 'starepo-test-'));
   process.env.XDG_CONFIG_HOME = join(tmpDir, 'config');
   process.env.XDG_DATA_HOME = join(tmpDir, 'data');
+  // Tokens from the surrounding shell (e.g. CI) would shadow the stored credentials.
+  delete process.env.STAREPO_TOKEN;
+  delete process.env.GITHUB_TOKEN;
 }
 
 function cleanupTempEnv() {
@@ -60,6 +63,211 @@ describe('config: token management', () => {
   });
 });
 
+describe('config: token sources', () => {
+  beforeEach(() => {
+    setupTempEnv();
+    vi.resetModules();
+  });
+  afterEach(() => {
+    cleanupTempEnv();
+    delete process.env.STAREPO_TOKEN;
+    delete process.env.GITHUB_TOKEN;
+  });
+
+  it('prefers STAREPO_TOKEN, then GITHUB_TOKEN, over the stored token', async () => {
+    const { saveToken, resolveToken } = await import('../src/lib/config.js');
+    saveToken('stored');
+    expect(resolveToken()).toEqual({ token: 'stored', source: 'auth.json' });
+
+    process.env.GITHUB_TOKEN = 'from-github-env';
+    expect(resolveToken()).toEqual({ token: 'from-github-env', source: 'GITHUB_TOKEN' });
+
+    process.env.STAREPO_TOKEN = 'from-starepo-env';
+    expect(resolveToken()).toEqual({ token: 'from-starepo-env', source: 'STAREPO_TOKEN' });
+  });
+
+  it('runs a stored token command on every lookup', async () => {
+    const { saveTokenCommand, resolveToken, getAuthFilePath } = await import('../src/lib/config.js');
+    saveTokenCommand('echo helper-token');
+
+    expect(resolveToken()).toEqual({ token: 'helper-token', source: 'token-command' });
+    expect(JSON.parse(readFileSync(getAuthFilePath(), 'utf-8'))).not.toHaveProperty('token');
+  });
+
+  it('reports a failing token command', async () => {
+    const { saveTokenCommand, getToken } = await import('../src/lib/config.js');
+    saveTokenCommand('echo nope >&2; exit 3');
+
+    expect(() => getToken()).toThrow('Token command `echo nope >&2; exit 3` failed: nope');
+  });
+});
+
+describe('config: GitHub host', () => {
+  beforeEach(() => {
+    setupTempEnv();
+    vi.resetModules();
+  });
+  afterEach(() => {
+    cleanupTempEnv();
+    delete process.env.STAREPO_GITHUB_API_URL;
+    delete process.env.STAREPO_GITHUB_OAUTH_HOST;
+    delete process.env.STAREPO_GITHUB_CLIENT_ID;
+  });
+
+  it('defaults to github.com with the built-in client ID', async () => {
+    const { getGitHubHost } = await import('../src/lib/config.js');
+    expect(getGitHubHost()).toEqual({
+      apiBaseUrl: 'https://api.github.com',
+      oauthHost: 'https://github.com',
+      clientId: 'Ov23liAWejDY5000tT9s',
+    });
+  });
+
+  it('derives the Enterprise API URL from the config file and lets env vars override it', async () => {
+    const { getConfigFilePath, getGitHubHost } = await import('../src/lib/config.js');
+    writeFileSync(getConfigFilePath(), JSON.stringify({ oauthHost: 'https://ghe.example.com/', clientId: 'Iv1.ghe' }));
+
+    expect(getGitHubHost()).toEqual({
+      apiBaseUrl: 'https://ghe.example.com/api/v3',
+      oauthHost: 'https://ghe.example.com',
+      clientId: 'Iv1.ghe',
+    });
+
+    process.env.STAREPO_GITHUB_API_URL = 'https://other.example.com/api/v3';
+    process.env.STAREPO_GITHUB_OAUTH_HOST = '';
+    expect(getGitHubHost().apiBaseUrl).toBe('https://other.example.com/api/v3');
+    expect(getGitHubHost().oauthHost).toBe('https://ghe.example.com');
+  });
+
+  it('has no client ID for an Enterprise host unless one is configured', async () => {
+    process.env.STAREPO_GITHUB_API_URL = 'https://ghe.example.com/api/v3';
+    const { getGitHubHost } = await import('../src/lib/config.js');
+    expect(getGitHubHost()).toEqual({
+      apiBaseUrl: 'https://ghe.example.com/api/v3',
+      oauthHost: 'https://ghe.example.com',
+      clientId: null,
+    });
+  });
+
+  it('only returns the stored token for the host it was issued for', async () => {
+    const { getAuthFilePath, getToken, saveToken } = await import('../src/lib/config.js');
+    process.env.STAREPO_GITHUB_API_URL = 'https://ghe.example.com/api/v3';
+    saveToken('ghe-token');
+
+    expect(JSON.parse(readFileSync(getAuthFilePath(), 'utf-8')).host).toBe('https://ghe.example.com/api/v3');
+    expect(getToken()).toBe('ghe-token');
+
+    delete process.env.STAREPO_GITHUB_API_URL;
+    expect(getToken()).toBeNull();
+  });
+
+  it('treats tokens saved without a host as github.com tokens', async () => {
+    const { getAuthFilePath, getToken } = await import('../src/lib/config.js');
+    writeFileSync(getAuthFilePath(), JSON.stringify({ token: 'legacy', createdAt: '2026-01-01T00:00:00Z' }));
+
+    expect(getToken()).toBe('legacy');
+    process.env.STAREPO_GITHUB_API_URL = 'https://ghe.example.com/api/v3';
+    expect(getToken()).toBeNull();
+  });
+
+  it('reports an invalid config file', async () => {
+    const { getConfigFilePath, getGitHubHost } = await import('../src/lib/config.js');
+    writeFileSync(getConfigFilePath(), '{ not json');
+    expect(() => getGitHubHost()).toThrow('Invalid config file');
+  });
+});
+
+describe('config: profiles', () => {
+  beforeEach(() => {
+    setupTempEnv();
+    vi.resetModules();
+  });
+  afterEach(() => {
+    cleanupTempEnv();
+    delete process.env.STAREPO_PROFILE;
+  });
+
+  it('keeps the original layout for the default profile', async () => {
+    const { getActiveProfile, getConfigDir, getDataDir } = await import('../src/lib/config.js');
+    expect(getActiveProfile()).toBe('default');
+    expect(getConfigDir()).toBe(join(tmpDir, 'config', 'starepo'));
+    expect(getDataDir()).toBe(join(tmpDir, 'data', 'starepo'));
+  });
+
+  it('isolates tokens, meta and data per profile', async () => {
+    const config = await import('../src/lib/config.js');
+    config.saveToken('personal-token');
+    config.setMeta('last_sync', 'personal');
+
+    config.createProfile('work');
+    config.useProfile('work');
+
+    expect(config.getDataDir()).toBe(join(tmpDir, 'data', 'starepo', 'profiles', 'work'));
+    expect(config.getSharedDataDir()).toBe(join(tmpDir, 'data', 'starepo'));
+    expect(config.getToken()).toBeNull();
+    expect(config.getMeta('last_sync')).toBeNull();
+
+    config.saveToken('work-token');
+    expect(config.getToken()).toBe('work-token');
+
+    config.useProfile('default');
+    expect(config.getToken()).toBe('personal-token');
+  });
+
+  it('selects the profile from STAREPO_PROFILE', async () => {
+    process.env.STAREPO_PROFILE = 'ci';
+    const { getActiveProfile, getConfigDir } = await import('../src/lib/config.js');
+    expect(getActiveProfile()).toBe('ci');
+    expect(getConfigDir()).toBe(join(tmpDir, 'config', 'starepo', 'profiles', 'ci'));
+  });
+
+  it('lists, adds and removes profiles', async () => {
+    const config = await import('../src/lib/config.js');
+    config.createProfile('work');
+    config.createProfile('archive');
+
+    expect(config.listProfiles()).toEqual(['default', 'archive', 'work']);
+    expect(() => config.createProfile('work')).toThrow('Profile "work" already exists.');
+
+    config.removeProfile('archive');
+    expect(config.listProfiles()).toEqual(['default', 'work']);
+    expect(() => config.removeProfile('default')).toThrow('cannot be removed');
+    expect(() => config.removeProfile('work', 'work')).toThrow('Profile "work" is the active profile.');
+    config.useProfile('work');
+    expect(() => config.removeProfile('work')).toThrow('is the active profile');
+    expect(config.listProfiles()).toEqual(['default', 'work']);
+  });
+
+  it('rejects unknown and malformed profile names', async () => {
+    const { useProfile, createProfile } = await import('../src/lib/config.js');
+    expect(() => useProfile('missing')).toThrow('Unknown profile "missing". Create it with `starepo profile add missing`.');
+    expect(() => createProfile('../escape')).toThrow('Invalid profile name');
+  });
+});
+
+describe('config: user collections', () => {
+  beforeEach(() => {
+    setupTempEnv();
+    vi.resetModules();
+  });
+  afterEach(cleanupTempEnv);
+
+  it('moves the database and meta into users/<login> for another user\'s stars', async () => {
+    const config = await import('../src/lib/config.js');
+    config.setMeta('last_sync', 'own');
+
+    config.useCollectionUser('@Octocat');
+    expect(config.getDBPath()).toBe(join(tmpDir, 'data', 'starepo', 'users', 'octocat', 'lancedb'));
+    expect(config.getMeta('last_sync')).toBeNull();
+
+    expect(config.runInCollection(null, () => config.getMeta('last_sync'))).toBe('own');
+
+    config.useCollectionUser(null);
+    expect(config.getDBPath()).toBe(join(tmpDir, 'data', 'starepo', 'lancedb'));
+    expect(() => config.useCollectionUser('-bad-')).toThrow('Invalid GitHub login');
+  });
+});
+
 describe('config: meta management', () => {
   beforeEach(() => {
     setupTempEnv();
@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { RepoInput } from '../src/lib/storage.js';
+
+let tmpDir: string;
+const savedEnv = { STAREPO_TOKEN: process.env.STAREPO_TOKEN, GITHUB_TOKEN: process.env.GITHUB_TOKEN };
+
+function makeRepo(fullName: string, vector?: number[]): RepoInput {
+  return {
+    id: Math.floor(Math.random() * 1_000_000),
+    full_name: fullName,
+    name: fullName.split('/')[1],
+    description: 'A parser library',
+    html_url: `https://github.com/${fullName}`,
+    homepage: '',
+    language: 'Rust',
+    topics: ['parsing'],
+    stars_count: 10,
+    forks_count: 0,
+    starred_at: '2026-01-01T00:00:00Z',
+    updated_at: '',
+    vector,
+  };
+}
+
+function statuses(checks: Array<{ name: string; status: string }>): Record<string, string> {
+  return Object.fromEntries(checks.map((check) => [check.name, check.status]));
+}
+
+beforeEach(() => {
+  tmpDir = mkdtempSync(join(tmpdir(), 'starepo-doctor-test-'));
+  process.env.XDG_DATA_HOME = join(tmpDir, 'data');
+  process.env.XDG_CONFIG_HOME = join(tmpDir, 'config');
+  delete process.env.STAREPO_TOKEN;
+  delete process.env.GITHUB_TOKEN;
+  vi.resetModules();
+});
+
+afterEach(() => {
+  rmSync(tmpDir, { recursive: true, force: true });
+  delete process.env.XDG_DATA_HOME;
+  delete process.env.XDG_CONFIG_HOME;
+  for (const [name, value] of Object.entries(savedEnv)) {
+    if (value !== undefined) process.env[name] = value;
+  }
+  vi.restoreAllMocks();
+});
+
+describe('diagnose', () => {
+  it('reports a missing full-text index and builds it with fix', async () => {
+    const { upsertRepos } = await import('../src/lib/storage.js');
+    const { diagnose } = await import('../src/commands/doctor.js');
+    await upsertRepos([makeRepo('a/parser'), makeRepo('b/lexer')]);
+
+    const before = await diagnose();
+    expect(statuses(before.checks)).toEqual({
+      schema: 'ok',
+      duplicates: 'ok',
+      vectors: 'ok',
+      'embedding cache': 'ok',
+      'embedding model': 'ok',
+      'full-text index': 'fail',
+      token: 'warn',
+    });
+    expect(before.problems).toBe(1);
+
+    const fixed = await diagnose({ fix: true });
+    expect(statuses(fixed.checks)['full-text index']).toBe('fixed');
+    expect(fixed.problems).toBe(0);
+    expect((await diagnose()).problems).toBe(0);
+  });
+
+  it('reports a corrupt schema version and re-runs the migrations with fix', async () => {
+    const { upsertRepos, rebuildFTSIndex } = await import('../src/lib/storage.js');
+    const { getMeta, setMeta } = await import('../src/lib/config.js');
+    const { diagnose } = await import('../src/commands/doctor.js');
+    await upsertRepos([makeRepo('a/parser')]);
+    await rebuildFTSIndex();
+    const current = getMeta('schema_version');
+
+    setMeta('schema_version', 'garbage');
+    const before = await diagnose();
+    expect(before.checks.find((check) => check.name === 'schema')).toMatchObject({
+      status: 'fail',
+      detail: expect.stringContaining('"garbage" is not a number'),
+    });
+
+    setMeta('schema_version', 'garbage');
+    const fixed = await diagnose({ fix: true });
+    expect(statuses(fixed.checks).schema).toBe('fixed');
+    expect(getMeta('schema_version')).toBe(current);
+    expect(statuses((await diagnose()).checks).schema).toBe('ok');
+
+    setMeta('schema_version', '999');
+    expect(statuses((await diagnose({ fix: true })).checks).schema).toBe('fail');
+  });
+
+  it('repairs duplicate rows, stale embedding flags and the has_embeddings cache', async () => {
+    const { upsertRepos, getTable, listRepos, inspectRepoTable } = await import('../src/lib/storage.js');
+    const { updateRows } = await import('../src/lib/lance-helpers.js');
+    const { setMeta } = await import('../src/lib/config.js');
+    const { setEmbeddingMetadata } = await import('../src/lib/embeddings.js');
+    const { diagnose } = await import('../src/commands/doctor.js');
+    const vector = new Array(1024).fill(0.1);
+    await upsertRepos([makeRepo('a/embedded', vector), makeRepo('b/plain'), makeRepo('b/plain')]);
+    setEmbeddingMetadata();
+    const table = await getTable();
+    await updateRows(table, { has_embedding: true }, "full_name = 'b/plain'");
+    setMeta('has_embeddings', 'false');
+
+    const before = await diagnose();
+    expect(statuses(before.checks)).toMatchObject({
+      duplicates: 'fail',
+      vectors: 'fail',
+      'embedding cache': 'fail',
+      'embedding model': 'ok',
+    });
+
+    const fixed = await diagnose({ fix: true });
+    expect(statuses(fixed.checks)).toMatchObject({
+      duplicates: 'fixed',
+      vectors: 'fixed',
+      'embedding cache': 'fixed',
+    });
+    expect(fixed.problems).toBe(0);
+
+    const health = await inspectRepoTable();
+    expect(health.duplicateNames).toEqual([]);
+    expect(health.flaggedWithoutVector).toEqual([]);
+    expect((await listRepos()).map((repo) => repo.full_name).sort()).toEqual(['a/embedded', 'b/plain']);
+  });
+
+  it('warns about vectors awaiting re-embedding and keeps them flagged with fix', async () => {
+    const { upsertRepos, rebuildFTSIndex, markEmbeddingsStale, getRepoByName } = await import('../src/lib/storage.js');
+    const { setEmbeddingMetadata } = await import('../src/lib/embeddings.js');
+    const { diagnose } = await import('../src/commands/doctor.js');
+    await upsertRepos([makeRepo('a/annotated', new Array(1024).fill(0.1))]);
+    await rebuildFTSIndex();
+    setEmbeddingMetadata();
+    await markEmbeddingsStale(['a/annotated']);
+
+    const report = await diagnose({ fix: true });
+    expect(statuses(report.checks).vectors).toBe('warn');
+    expect(report.problems).toBe(0);
+    expect((await getRepoByName('a/annotated'))!.has_embedding).toBe(false);
+  });
+
+  it('flags vectors from another embedding model without touching them', async () => {
+    const { upsertRepos, rebuildFTSIndex } = await import('../src/lib/storage.js');
+    const { setMeta } = await import('../src/lib/config.js');
+    const { diagnose } = await import('../src/commands/doctor.js');
+    await upsertRepos([makeRepo('a/embedded', new Array(1024).fill(0.1))]);
+    await rebuildFTSIndex();
+    setMeta('embedding_model', 'Xenova/all-MiniLM-L6-v2');
+    setMeta('embedding_version', '1');
+
+    const report = await diagnose({ fix: true });
+    const model = report.checks.find((check) => check.name === 'embedding model')!;
+
+    expect(model.status).toBe('fail');
+    expect(model.detail).toContain('starepo embed --force');
+    expect(report.problems).toBe(1);
+  });
+});
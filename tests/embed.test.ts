@@ -1,10 +1,25 @@
-import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 
+let tmpDir: string;
+
+// runEmbed takes the collection's write lock, which lives in the data dir.
 beforeEach(() => {
+  tmpDir = mkdtempSync(join(tmpdir(), 'starepo-embed-test-'));
+  process.env.XDG_DATA_HOME = join(tmpDir, 'data');
+  process.env.XDG_CONFIG_HOME = join(tmpDir, 'config');
   vi.resetModules();
   vi.restoreAllMocks();
 });
 
+afterEach(() => {
+  rmSync(tmpDir, { recursive: true, force: true });
+  delete process.env.XDG_DATA_HOME;
+  delete process.env.XDG_CONFIG_HOME;
+});
+
 describe('runEmbed', () => {
   it('prints sync guidance when there are no repositories', async () => {
     const logs: string[] = [];
@@ -120,6 +135,9 @@ describe('runEmbed', () => {
       generateAndStoreEmbeddings,
     }));
 
+    const updateRepoIndexes = vi.fn().mockResolvedValue({ created: [], optimized: true });
+    vi.doMock('../src/lib/storage.js', () => ({ updateRepoIndexes }));
+
     const { runEmbed } = await import('../src/commands/embed.js');
     await runEmbed({ force: true });
 
@@ -163,6 +181,9 @@ describe('runEmbed', () => {
       generateAndStoreEmbeddings,
     }));
 
+    const updateRepoIndexes = vi.fn().mockResolvedValue({ created: [], optimized: true });
+    vi.doMock('../src/lib/storage.js', () => ({ updateRepoIndexes }));
+
     const { runEmbed } = await import('../src/commands/embed.js');
     await runEmbed();
 
@@ -173,5 +194,6 @@ describe('runEmbed', () => {
     expect(logs.join('\n')).toContain('Generating embeddings for 2 repositories...');
     expect(logs.join('\n')).toContain('Skipped 3 repositories that already had embeddings.');
     expect(logs.join('\n')).toContain('Embedding coverage is now 5/5.');
+    expect(updateRepoIndexes).toHaveBeenCalledTimes(1);
   });
 });
@@ -51,11 +51,20 @@ describe('repoToText', () => {
     const text = repoToText({ ...baseRepo, topics: '["ai","ml","python"]' });
     expect(text).toContain('ai ml python');
   });
+
+  it('appends personal tags and the note', async () => {
+    const { repoToText } = await import('../src/lib/embeddings.js');
+    const text = repoToText({ ...baseRepo, topics: '[]' }, { tags: ['evaluated'], note: 'Great for demos' });
+    expect(text.endsWith('evaluated Great for demos')).toBe(true);
+  });
 });
 
 describe('generateAndStoreEmbeddings', () => {
   beforeEach(() => {
     vi.resetModules();
+    vi.doMock('../src/lib/annotations.js', () => ({
+      getAnnotations: vi.fn().mockResolvedValue(new Map()),
+    }));
   });
 
   it('marks embeddings as available and stores metadata when repos already have embeddings', async () => {
@@ -75,7 +84,7 @@ describe('generateAndStoreEmbeddings', () => {
       getStats: vi.fn().mockResolvedValue({ count: 1 }),
     }));
     vi.doMock('../src/lib/config.js', () => ({
-      getDataDir: vi.fn().mockReturnValue('/tmp/starepo-test'),
+      getSharedDataDir: vi.fn().mockReturnValue('/tmp/starepo-test'),
       getMeta: vi.fn().mockReturnValue(null),
       setMeta,
     }));
@@ -112,7 +121,7 @@ describe('generateAndStoreEmbeddings', () => {
       getStats: vi.fn().mockResolvedValue({ count: 3 }),
     }));
     vi.doMock('../src/lib/config.js', () => ({
-      getDataDir: vi.fn().mockReturnValue('/tmp/starepo-test'),
+      getSharedDataDir: vi.fn().mockReturnValue('/tmp/starepo-test'),
       getMeta: vi.fn().mockReturnValue(null),
       setMeta,
     }));
@@ -154,7 +163,7 @@ describe('generateAndStoreEmbeddings', () => {
       getStats: vi.fn().mockResolvedValue({ count: 1 }),
     }));
     vi.doMock('../src/lib/config.js', () => ({
-      getDataDir: vi.fn().mockReturnValue('/tmp/starepo-test'),
+      getSharedDataDir: vi.fn().mockReturnValue('/tmp/starepo-test'),
       getMeta: vi.fn().mockReturnValue(null),
       setMeta: vi.fn(),
     }));
@@ -193,7 +202,7 @@ describe('generateAndStoreEmbeddings', () => {
       getStats: vi.fn().mockResolvedValue({ count: 2 }),
     }));
     vi.doMock('../src/lib/config.js', () => ({
-      getDataDir: vi.fn().mockReturnValue('/tmp/starepo-test'),
+      getSharedDataDir: vi.fn().mockReturnValue('/tmp/starepo-test'),
       getMeta: vi.fn().mockReturnValue('1'),
       setMeta,
     }));
@@ -220,7 +229,7 @@ describe('generateAndStoreEmbeddings', () => {
 
   it('reads embedding metadata from config', async () => {
     vi.doMock('../src/lib/config.js', () => ({
-      getDataDir: vi.fn().mockReturnValue('/tmp/starepo-test'),
+      getSharedDataDir: vi.fn().mockReturnValue('/tmp/starepo-test'),
       getMeta: vi.fn((key: string) => {
         if (key === 'embedding_model') return 'Xenova/bge-m3';
         if (key === 'embedding_version') return '2';
@@ -244,7 +253,7 @@ describe('generateAndStoreEmbeddings', () => {
     const env = {} as { cacheDir?: string };
 
     vi.doMock('../src/lib/config.js', () => ({
-      getDataDir: vi.fn().mockReturnValue('/tmp/starepo-test'),
+      getSharedDataDir: vi.fn().mockReturnValue('/tmp/starepo-test'),
       getMeta: vi.fn().mockReturnValue(null),
       setMeta: vi.fn(),
     }));
@@ -275,7 +284,7 @@ describe('generateAndStoreEmbeddings', () => {
       countReposWithoutEmbedding: vi.fn().mockResolvedValue(1),
     }));
     vi.doMock('../src/lib/config.js', () => ({
-      getDataDir: vi.fn().mockReturnValue('/tmp/starepo-test'),
+      getSharedDataDir: vi.fn().mockReturnValue('/tmp/starepo-test'),
       getMeta: vi.fn((key: string) => {
         if (key === 'embedding_model') return 'legacy/model';
         if (key === 'embedding_version') return '0';
@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PassThrough } from 'stream';
+import type { RepoInput } from '../src/lib/storage.js';
+
+let tmpDir: string;
+
+function makeRepo(overrides: Partial<RepoInput>): RepoInput {
+  return {
+    id: Math.floor(Math.random() * 1_000_000),
+    full_name: 'user/repo',
+    name: 'repo',
+    description: 'A repo',
+    html_url: 'https://github.com/user/repo',
+    homepage: '',
+    language: 'Go',
+    topics: [],
+    stars_count: 1,
+    forks_count: 0,
+    starred_at: '2026-01-01T00:00:00Z',
+    updated_at: '',
+    ...overrides,
+  };
+}
+
+async function seed(): Promise<void> {
+  const { upsertRepos } = await import('../src/lib/storage.js');
+  await upsertRepos([
+    makeRepo({ id: 1, full_name: 'go/fast', html_url: 'https://github.com/go/fast', stars_count: 50, topics: ['cli', 'http'] }),
+    makeRepo({ id: 2, full_name: 'go/slow', html_url: 'https://github.com/go/slow', stars_count: 5, topics: ['cli'], description: 'Says "hi", <b>loudly</b>' }),
+    makeRepo({ id: 3, full_name: 'rs/tool', html_url: 'https://github.com/rs/tool', language: 'Rust', archived: true }),
+    makeRepo({ id: 4, full_name: 'misc/notes', html_url: 'https://github.com/misc/notes', language: '' }),
+  ]);
+}
+
+async function exportToString(options: Parameters<typeof import('../src/commands/export.js').exportRepos>[1]) {
+  const { exportRepos } = await import('../src/commands/export.js');
+  const stream = new PassThrough();
+  const chunks: string[] = [];
+  stream.on('data', (chunk: Buffer) => chunks.push(chunk.toString('utf-8')));
+  const count = await exportRepos(stream, options);
+  return { count, text: chunks.join('') };
+}
+
+beforeEach(() => {
+  tmpDir = mkdtempSync(join(tmpdir(), 'starepo-export-test-'));
+  process.env.XDG_DATA_HOME = join(tmpDir, 'data');
+  process.env.XDG_CONFIG_HOME = join(tmpDir, 'config');
+  vi.resetModules();
+});
+
+afterEach(() => {
+  rmSync(tmpDir, { recursive: true, force: true });
+  delete process.env.XDG_DATA_HOME;
+  delete process.env.XDG_CONFIG_HOME;
+  vi.restoreAllMocks();
+});
+
+describe('exportRepos', () => {
+  it('streams every matching row as JSON, NDJSON and CSV without vectors', async () => {
+    await seed();
+
+    const json = await exportToString({ format: 'json', filters: { excludeArchived: true } });
+    const parsed = JSON.parse(json.text) as Array<Record<string, unknown>>;
+    expect(json.count).toBe(3);
+    expect(parsed.map((repo) => repo.full_name).sort()).toEqual(['go/fast', 'go/slow', 'misc/notes']);
+    expect(parsed[0]).not.toHaveProperty('vector');
+
+    const ndjson = await exportToString({ format: 'ndjson', filters: { language: 'Rust' } });
+    expect(ndjson.text.trim().split('\n').map((line) => JSON.parse(line).full_name)).toEqual(['rs/tool']);
+
+    const csv = await exportToString({ format: 'csv', filters: { language: 'Go' } });
+    const lines = csv.text.trimEnd().split('\r\n');
+    expect(lines[0].startsWith('id,full_name,name,description,url,')).toBe(true);
+    expect(lines.find((line) => line.includes('go/slow'))).toContain('"Says ""hi"", <b>loudly</b>"');
+    expect(lines.find((line) => line.includes('go/fast'))).toContain(',cli;http,');
+  });
+
+  it('writes an empty JSON array when nothing matches', async () => {
+    await seed();
+    const { count, text } = await exportToString({ format: 'json', filters: { language: 'Zig' } });
+    expect(count).toBe(0);
+    expect(JSON.parse(text)).toEqual([]);
+  });
+
+  it('groups Markdown by language and HTML by topic with escaping', async () => {
+    await seed();
+
+    const markdown = (await exportToString({ format: 'markdown', title: 'My stars' })).text;
+    expect(markdown).toContain('# My stars\n\n## Go (2)\n\n- [go/fast](https://github.com/go/fast) - A repo (★ 50)\n- [go/slow]');
+    expect(markdown.indexOf('## Rust (1)')).toBeLessThan(markdown.indexOf('## Other (1)'));
+
+    const html = (await exportToString({ format: 'html', groupBy: 'topic' })).text;
+    expect(html).toContain('<h2>cli (2)</h2>');
+    expect(html).toContain('<h2>http (1)</h2>');
+    expect(html).toContain('Says &quot;hi&quot;, &lt;b&gt;loudly&lt;/b&gt;');
+    expect(html.indexOf('<h2>Other (2)</h2>')).toBeGreaterThan(html.indexOf('<h2>http (1)</h2>'));
+  });
+});
+
+describe('runExport', () => {
+  it('writes the export to a file', async () => {
+    await seed();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const output = join(tmpDir, 'stars.ndjson');
+
+    const { runExport } = await import('../src/commands/export.js');
+    await runExport({ format: 'ndjson', output });
+
+    expect(readFileSync(output, 'utf-8').trim().split('\n')).toHaveLength(4);
+    expect(console.log).toHaveBeenCalledWith(`Exported 4 repositories to ${output}.`);
+  });
+});
@@ -1,4 +1,7 @@
-import { describe, expect, it } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import type { Octokit } from '@octokit/rest';
 
 function starredItem(overrides: Record<string, unknown> = {}) {
@@ -16,6 +19,14 @@ function starredItem(overrides: Record<string, unknown> = {}) {
       stargazers_count: 10,
       forks_count: 2,
       updated_at: null,
+      archived: true,
+      fork: false,
+      license: { spdx_id: 'MIT' },
+      owner: { login: 'user', type: 'Organization' },
+      created_at: '2020-05-01T00:00:00Z',
+      pushed_at: '2025-12-31T00:00:00Z',
+      open_issues_count: 4,
+      visibility: 'public',
     },
     ...overrides,
   };
@@ -57,10 +68,36 @@ describe('github star fetching', () => {
         forks_count: 2,
         starred_at: '2026-01-02T00:00:00Z',
         updated_at: '',
+        archived: true,
+        fork: false,
+        license: 'MIT',
+        owner_login: 'user',
+        owner_type: 'Organization',
+        created_at: '2020-05-01T00:00:00Z',
+        pushed_at: '2025-12-31T00:00:00Z',
+        open_issues_count: 4,
+        visibility: 'public',
       },
     ]);
   });
 
+  it('defaults optional repository fields missing from older API versions', async () => {
+    const { fetchAllStars } = await import('../src/lib/github.js');
+    const olderRepo: Record<string, unknown> = { ...starredItem().repo, license: null };
+    delete olderRepo.archived;
+    delete olderRepo.owner;
+    delete olderRepo.visibility;
+    const [repo] = await fetchAllStars(mockOctokit([[starredItem({ repo: olderRepo })]]));
+
+    expect(repo).toMatchObject({
+      archived: false,
+      license: '',
+      owner_login: 'user',
+      owner_type: '',
+      visibility: '',
+    });
+  });
+
   it('stops incremental fetching when it reaches stars older than since', async () => {
     const { fetchStarsSince } = await import('../src/lib/github.js');
     const repos = await fetchStarsSince(mockOctokit([
@@ -77,6 +114,24 @@ describe('github star fetching', () => {
     expect(repos.map(repo => repo.full_name)).toEqual(['user/repo']);
   });
 
+  it('streams pages oldest-first from the requested start page', async () => {
+    const { streamStars } = await import('../src/lib/github.js');
+    const octokit = mockOctokit([
+      [starredItem()],
+      [starredItem({ repo: { ...starredItem().repo, full_name: 'user/next', name: 'next' } })],
+    ]);
+    const iterator = vi.spyOn(octokit.paginate, 'iterator');
+    const seen: Array<[string[], number]> = [];
+
+    const total = await streamStars(octokit, (repos, page) => {
+      seen.push([repos.map(repo => repo.full_name), page]);
+    }, { startPage: 3 });
+
+    expect(total).toBe(2);
+    expect(seen).toEqual([[['user/repo'], 3], [['user/next'], 4]]);
+    expect(iterator.mock.calls[0][1]).toMatchObject({ page: 3, sort: 'created', direction: 'asc' });
+  });
+
   it('throws a clear error for non-starred GitHub response shapes', async () => {
     const { fetchAllStars } = await import('../src/lib/github.js');
 
@@ -84,4 +139,228 @@ describe('github star fetching', () => {
       [{ id: 1, full_name: 'user/repo' }],
     ]))).rejects.toThrow('Unexpected GitHub starred repository response');
   });
+
+  it('fetches star lists and follows list item pagination', async () => {
+    const { fetchStarLists } = await import('../src/lib/github.js');
+    const graphql = vi.fn()
+      .mockResolvedValueOnce({
+        owner: {
+          lists: {
+            pageInfo: { hasNextPage: false, endCursor: null },
+            nodes: [
+              {
+                id: 'UL_1',
+                name: 'Production deps',
+                slug: 'production-deps',
+                description: null,
+                items: {
+                  pageInfo: { hasNextPage: true, endCursor: 'c1' },
+                  nodes: [{ nameWithOwner: 'user/repo' }, {}],
+                },
+              },
+            ],
+          },
+        },
+      })
+      .mockResolvedValueOnce({
+        node: {
+          items: {
+            pageInfo: { hasNextPage: false, endCursor: null },
+            nodes: [{ nameWithOwner: 'user/other' }],
+          },
+        },
+      });
+
+    const lists = await fetchStarLists({ graphql } as unknown as Octokit);
+
+    expect(lists).toEqual([
+      { name: 'Production deps', slug: 'production-deps', description: '', repos: ['user/repo', 'user/other'] },
+    ]);
+    expect(graphql).toHaveBeenLastCalledWith(expect.any(String), { id: 'UL_1', cursor: 'c1' });
+  });
+
+  it('walks starred repository identifiers across GraphQL pages', async () => {
+    const { fetchStarredFullNames, fetchStarredTotalCount } = await import('../src/lib/github.js');
+    const graphql = vi.fn()
+      .mockResolvedValueOnce({ owner: { starredRepositories: { totalCount: 2 } } })
+      .mockResolvedValueOnce({
+        owner: {
+          starredRepositories: {
+            pageInfo: { hasNextPage: true, endCursor: 'c1' },
+            nodes: [{ nameWithOwner: 'user/one' }],
+          },
+        },
+      })
+      .mockResolvedValueOnce({
+        owner: {
+          starredRepositories: {
+            pageInfo: { hasNextPage: false, endCursor: null },
+            nodes: [{ nameWithOwner: 'user/two' }],
+          },
+        },
+      });
+    const octokit = { graphql } as unknown as Octokit;
+
+    expect(await fetchStarredTotalCount(octokit)).toBe(2);
+    expect(await fetchStarredFullNames(octokit)).toEqual(['user/one', 'user/two']);
+    expect(graphql).toHaveBeenLastCalledWith(expect.any(String), { cursor: 'c1' });
+  });
+
+  it('queries another user\'s public stars and reports unknown logins', async () => {
+    const { fetchStarredTotalCount, streamStars } = await import('../src/lib/github.js');
+    const graphql = vi.fn()
+      .mockResolvedValueOnce({ owner: { starredRepositories: { totalCount: 7 } } })
+      .mockResolvedValueOnce({ owner: null });
+    const octokit = mockOctokit([[starredItem()]]);
+    Object.assign(octokit, { graphql });
+    Object.assign(octokit.activity, { listReposStarredByUser: () => undefined });
+    const iterator = vi.spyOn(octokit.paginate, 'iterator');
+
+    expect(await fetchStarredTotalCount(octokit, 'torvalds')).toBe(7);
+    expect(graphql).toHaveBeenCalledWith(expect.stringContaining('owner: user(login: $login)'), { login: 'torvalds' });
+    await expect(fetchStarredTotalCount(octokit, 'nobody')).rejects.toThrow('GitHub user "nobody" not found.');
+
+    await streamStars(octokit, () => {}, { user: 'torvalds' });
+    expect(iterator.mock.calls[0][0]).toBe(octokit.activity.listReposStarredByUser);
+    expect(iterator.mock.calls[0][1]).toMatchObject({ username: 'torvalds', page: 1 });
+  });
+
+  it('maps batched repository metadata and skips repos that no longer resolve', async () => {
+    const { fetchRepoMetadata } = await import('../src/lib/github.js');
+    const graphql = vi.fn().mockRejectedValue(Object.assign(new Error('Could not resolve to a Repository'), {
+      data: {
+        r0: {
+          description: null,
+          homepageUrl: 'https://example.com',
+          primaryLanguage: { name: 'Rust' },
+          repositoryTopics: { nodes: [{ topic: { name: 'cli' } }] },
+          stargazerCount: 99,
+          forkCount: 3,
+          updatedAt: '2026-02-01T00:00:00Z',
+          isArchived: true,
+          isFork: true,
+          licenseInfo: null,
+          owner: { login: 'user', __typename: 'User' },
+          createdAt: '2020-01-01T00:00:00Z',
+          pushedAt: '2026-01-30T00:00:00Z',
+          issues: { totalCount: 5 },
+          pullRequests: { totalCount: 2 },
+          visibility: 'PUBLIC',
+        },
+        r1: null,
+      },
+    }));
+
+    const metadata = await fetchRepoMetadata({ graphql } as unknown as Octokit, ['user/repo', 'user/gone']);
+
+    expect(metadata).toEqual([
+      {
+        full_name: 'user/repo',
+        description: '',
+        homepage: 'https://example.com',
+        language: 'Rust',
+        topics: ['cli'],
+        stars_count: 99,
+        forks_count: 3,
+        updated_at: '2026-02-01T00:00:00Z',
+        archived: true,
+        fork: true,
+        license: '',
+        owner_login: 'user',
+        owner_type: 'User',
+        created_at: '2020-01-01T00:00:00Z',
+        pushed_at: '2026-01-30T00:00:00Z',
+        open_issues_count: 7,
+        visibility: 'public',
+      },
+    ]);
+    expect(graphql).toHaveBeenCalledWith(expect.stringContaining('r1: repository(owner: $o1, name: $n1)'), {
+      o0: 'user', n0: 'repo', o1: 'user', n1: 'gone',
+    });
+  });
+});
+
+describe('github star actions', () => {
+  it('fetches a single repository as a starred RepoInput', async () => {
+    const { fetchRepository } = await import('../src/lib/github.js');
+    const get = vi.fn().mockResolvedValue({ data: starredItem().repo });
+
+    const repo = await fetchRepository({ repos: { get } } as unknown as Octokit, 'User/Repo', '2026-03-01T00:00:00Z');
+
+    expect(get).toHaveBeenCalledWith({ owner: 'User', repo: 'Repo' });
+    expect(repo).toMatchObject({ full_name: 'user/repo', starred_at: '2026-03-01T00:00:00Z', license: 'MIT' });
+  });
+
+  it('reports missing repositories and missing star scope clearly', async () => {
+    const { fetchRepository, starRepository, unstarRepository } = await import('../src/lib/github.js');
+    const notFound = Object.assign(new Error('Not Found'), { status: 404 });
+    const octokit = {
+      repos: { get: vi.fn().mockRejectedValue(notFound) },
+      activity: {
+        starRepoForAuthenticatedUser: vi.fn().mockRejectedValue(notFound),
+        unstarRepoForAuthenticatedUser: vi.fn().mockResolvedValue({ status: 204 }),
+      },
+    } as unknown as Octokit;
+
+    await expect(fetchRepository(octokit, 'user/gone')).rejects.toThrow('Repository user/gone not found on GitHub.');
+    await expect(starRepository(octokit, 'user/repo')).rejects.toThrow('lacks the public_repo scope');
+    await expect(unstarRepository(octokit, 'user/repo')).resolves.toBeUndefined();
+    expect(octokit.activity.unstarRepoForAuthenticatedUser).toHaveBeenCalledWith({ owner: 'user', repo: 'repo' });
+  });
+});
+
+describe('github latest releases', () => {
+  it('batches repos into one query and keeps published releases with a notes excerpt', async () => {
+    const { fetchLatestReleases } = await import('../src/lib/github.js');
+    const graphql = vi.fn().mockRejectedValue(Object.assign(new Error('Could not resolve to a Repository'), {
+      data: {
+        r0: { latestRelease: { tagName: 'v2.0.0', name: null, publishedAt: '2026-03-02T00:00:00Z', url: 'https://github.com/a/one/releases/tag/v2.0.0', description: '## Highlights\n\n* **Faster**' } },
+        r1: { latestRelease: null },
+        r2: null,
+      },
+    }));
+
+    const releases = await fetchLatestReleases({ graphql } as unknown as Octokit, ['a/one', 'b/none', 'c/gone']);
+
+    expect(graphql).toHaveBeenCalledTimes(1);
+    expect(graphql.mock.calls[0][1]).toMatchObject({ o0: 'a', n0: 'one', o2: 'c', n2: 'gone' });
+    expect(releases).toEqual([{
+      full_name: 'a/one',
+      tag_name: 'v2.0.0',
+      name: '',
+      published_at: '2026-03-02T00:00:00Z',
+      url: 'https://github.com/a/one/releases/tag/v2.0.0',
+      notes: 'Highlights Faster',
+    }]);
+  });
+});
+
+describe('github host configuration', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), 'starepo-github-test-'));
+    process.env.XDG_CONFIG_HOME = join(tmpDir, 'config');
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+    delete process.env.XDG_CONFIG_HOME;
+    delete process.env.STAREPO_GITHUB_API_URL;
+  });
+
+  it('points the client at the configured API base URL', async () => {
+    process.env.STAREPO_GITHUB_API_URL = 'https://ghe.example.com/api/v3';
+    const { createOctokit } = await import('../src/lib/github.js');
+
+    expect(createOctokit('token').request.endpoint.DEFAULTS.baseUrl).toBe('https://ghe.example.com/api/v3');
+  });
+
+  it('refuses device flow on an Enterprise host without a client ID', async () => {
+    process.env.STAREPO_GITHUB_API_URL = 'https://ghe.example.com/api/v3';
+    const { runDeviceFlow } = await import('../src/lib/github.js');
+
+    await expect(runDeviceFlow()).rejects.toThrow('No OAuth client ID configured for https://ghe.example.com');
+  });
 });
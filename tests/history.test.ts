@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { appendFileSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { SyncHistoryEntry } from '../src/lib/history.js';
+
+let tmpDir: string;
+
+function makeEntry(overrides: Partial<SyncHistoryEntry> = {}): SyncHistoryEntry {
+  return {
+    started_at: '2026-03-01T10:00:00.000Z',
+    finished_at: '2026-03-01T10:01:00.000Z',
+    mode: 'incremental',
+    resumed: false,
+    added: [],
+    removed: [],
+    metadata_changed: null,
+    embedded: 0,
+    total: 10,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  tmpDir = mkdtempSync(join(tmpdir(), 'starepo-history-test-'));
+  process.env.XDG_DATA_HOME = join(tmpDir, 'data');
+  process.env.XDG_CONFIG_HOME = join(tmpDir, 'config');
+  vi.resetModules();
+});
+
+afterEach(() => {
+  rmSync(tmpDir, { recursive: true, force: true });
+  delete process.env.XDG_DATA_HOME;
+  delete process.env.XDG_CONFIG_HOME;
+  vi.restoreAllMocks();
+});
+
+describe('sync history', () => {
+  it('reads entries back in order and skips a torn line', async () => {
+    const { appendSyncHistory, readSyncHistory } = await import('../src/lib/history.js');
+    const { getHistoryFilePath } = await import('../src/lib/config.js');
+    appendSyncHistory(makeEntry({ added: ['a/one'] }));
+    appendFileSync(getHistoryFilePath(), '{"started_at": "2026-03-02');
+
+    expect(readSyncHistory()).toEqual([makeEntry({ added: ['a/one'] })]);
+  });
+
+  it('finds the run that removed a repo, newest first', async () => {
+    const { appendSyncHistory } = await import('../src/lib/history.js');
+    appendSyncHistory(makeEntry({ finished_at: '2026-03-01T10:01:00.000Z', added: ['Owner/Tool'] }));
+    appendSyncHistory(makeEntry({ finished_at: '2026-03-05T10:01:00.000Z', added: ['b/two'] }));
+    appendSyncHistory(makeEntry({ finished_at: '2026-03-09T10:01:00.000Z', removed: ['Owner/Tool', 'c/three'] }));
+    const logs: string[] = [];
+    vi.spyOn(console, 'log').mockImplementation((message?: string) => { logs.push(String(message ?? '')); });
+
+    const { getSyncHistory, runHistory } = await import('../src/commands/history.js');
+    expect(getSyncHistory({ repo: 'owner/tool' }).map((entry) => entry.finished_at)).toEqual([
+      '2026-03-09T10:01:00.000Z',
+      '2026-03-01T10:01:00.000Z',
+    ]);
+
+    await runHistory({ repo: 'owner/tool', limit: 1 });
+    expect(logs).toHaveLength(1);
+    expect(logs[0]).toContain('incremental  (+0, -2, 10 total)');
+    expect(logs[0]).toContain('  - Owner/Tool');
+    expect(logs[0]).not.toContain('c/three');
+  });
+});
@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+let tmpDir: string;
+
+function starredItem(fullName: string, starredAt = '2026-03-01T00:00:00Z') {
+  return {
+    starred_at: starredAt,
+    repo: {
+      id: fullName.length,
+      full_name: fullName,
+      name: fullName.split('/')[1],
+      description: null,
+      html_url: `https://github.com/${fullName}`,
+      homepage: null,
+      language: 'Go',
+      topics: ['cli'],
+      stargazers_count: 5,
+      forks_count: 1,
+      updated_at: '2026-02-01T00:00:00Z',
+      owner: { login: fullName.split('/')[0], type: 'User' },
+    },
+  };
+}
+
+beforeEach(() => {
+  tmpDir = mkdtempSync(join(tmpdir(), 'starepo-import-test-'));
+  process.env.XDG_DATA_HOME = join(tmpDir, 'data');
+  process.env.XDG_CONFIG_HOME = join(tmpDir, 'config');
+  vi.resetModules();
+});
+
+afterEach(() => {
+  rmSync(tmpDir, { recursive: true, force: true });
+  delete process.env.XDG_DATA_HOME;
+  delete process.env.XDG_CONFIG_HOME;
+  vi.restoreAllMocks();
+});
+
+describe('parseStarsExport', () => {
+  it('reads paginated gh output, slurped pages and NDJSON with the starred feed validation', async () => {
+    const { parseStarsExport } = await import('../src/commands/import.js');
+    const a = starredItem('a/one');
+    const b = starredItem('b/two');
+
+    const paginated = `${JSON.stringify([a])}\n${JSON.stringify([b, { full_name: 'plain/repo' }])}`;
+    expect(parseStarsExport(paginated)).toMatchObject({ repos: [{ full_name: 'a/one' }, { full_name: 'b/two' }], skipped: 1 });
+    expect(parseStarsExport(JSON.stringify([[a], [b]])).repos).toHaveLength(2);
+
+    const ndjson = [a, b, starredItem('a/one', '2026-04-01T00:00:00Z')].map((item) => JSON.stringify(item)).join('\n');
+    const { repos } = parseStarsExport(ndjson);
+    expect(repos.map((repo) => repo.full_name)).toEqual(['a/one', 'b/two']);
+    expect(repos[0]).toMatchObject({ starred_at: '2026-04-01T00:00:00Z', description: '', owner_login: 'a' });
+  });
+
+  it('rejects malformed JSON with the offset of the bad value', async () => {
+    const { parseJsonValues } = await import('../src/commands/import.js');
+
+    expect(parseJsonValues('[1, "]"] {"a": 2}')).toEqual([[1, ']'], { a: 2 }]);
+    expect(() => parseJsonValues('[1] oops')).toThrow('Invalid JSON at offset 4');
+    expect(() => parseJsonValues('[{"a": 1}')).toThrow('ends in the middle of a value');
+  });
+});
+
+describe('importStars', () => {
+  it('merges by default and removes repos missing from the file with replace', async () => {
+    const { upsertRepos, listRepoFullNames } = await import('../src/lib/storage.js');
+    const { mapToRepoInput } = await import('../src/lib/github.js');
+    await upsertRepos([mapToRepoInput(starredItem('old/repo'))]);
+
+    const { importStars } = await import('../src/commands/import.js');
+    const text = JSON.stringify([starredItem('a/one'), starredItem('b/two')]);
+
+    expect(await importStars(text)).toEqual({ imported: 2, skipped: 0, removed: [] });
+    expect((await listRepoFullNames()).sort()).toEqual(['a/one', 'b/two', 'old/repo']);
+
+    expect((await importStars(text, { replace: true })).removed).toEqual(['old/repo']);
+    expect((await listRepoFullNames()).sort()).toEqual(['a/one', 'b/two']);
+    await expect(importStars('[]', { replace: true })).rejects.toThrow('No starred repositories found');
+    expect(await listRepoFullNames()).toHaveLength(2);
+  });
+
+  it('reads the export from a file and generates embeddings unless disabled', async () => {
+    const runEmbed = vi.fn();
+    vi.doMock('../src/commands/embed.js', () => ({ runEmbed }));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const file = join(tmpDir, 'stars.json');
+    writeFileSync(file, JSON.stringify([starredItem('a/one')]));
+
+    const { runImport } = await import('../src/commands/import.js');
+    await runImport(file, { noEmbeddings: true });
+    expect(runEmbed).not.toHaveBeenCalled();
+
+    await runImport(file);
+    expect(runEmbed).toHaveBeenCalledTimes(1);
+    expect(console.log).toHaveBeenCalledWith('Imported 1 starred repositories.');
+  });
+});
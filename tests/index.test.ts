@@ -9,12 +9,36 @@ import { parseListOptions } from '../src/lib/sort.js';
 function makeDeps(overrides: Partial<CliDeps> = {}): CliDeps {
   return {
     runAuth: vi.fn(async () => 'token') as unknown as CliDeps['runAuth'],
+    runAuthStatus: vi.fn(async () => {}) as unknown as CliDeps['runAuthStatus'],
+    runLogout: vi.fn(async () => {}) as unknown as CliDeps['runLogout'],
     runSync: vi.fn(async () => {}) as unknown as CliDeps['runSync'],
+    runSyncWatch: vi.fn(async () => {}) as unknown as CliDeps['runSyncWatch'],
     runSearch: vi.fn(async () => {}) as unknown as CliDeps['runSearch'],
     runList: vi.fn(async () => {}) as unknown as CliDeps['runList'],
     runInfo: vi.fn(async () => {}) as unknown as CliDeps['runInfo'],
     runServe: vi.fn(async () => {}) as unknown as CliDeps['runServe'],
     runEmbed: vi.fn(async () => {}) as unknown as CliDeps['runEmbed'],
+    runStar: vi.fn(async () => 0) as unknown as CliDeps['runStar'],
+    runUnstar: vi.fn(async () => 0) as unknown as CliDeps['runUnstar'],
+    runReleases: vi.fn(async () => {}) as unknown as CliDeps['runReleases'],
+    runImport: vi.fn(async () => {}) as unknown as CliDeps['runImport'],
+    runExport: vi.fn(async () => {}) as unknown as CliDeps['runExport'],
+    runBackup: vi.fn(async () => {}) as unknown as CliDeps['runBackup'],
+    runRestore: vi.fn(async () => {}) as unknown as CliDeps['runRestore'],
+    runPurge: vi.fn(async () => {}) as unknown as CliDeps['runPurge'],
+    runStats: vi.fn(async () => {}) as unknown as CliDeps['runStats'],
+    runDoctor: vi.fn(async () => ({ checks: [], problems: 0 })) as unknown as CliDeps['runDoctor'],
+    runTrending: vi.fn(async () => {}) as unknown as CliDeps['runTrending'],
+    runTagAdd: vi.fn(async () => {}) as unknown as CliDeps['runTagAdd'],
+    runTagRemove: vi.fn(async () => {}) as unknown as CliDeps['runTagRemove'],
+    runTagList: vi.fn(async () => {}) as unknown as CliDeps['runTagList'],
+    runNote: vi.fn(async () => {}) as unknown as CliDeps['runNote'],
+    runHistory: vi.fn(async () => {}) as unknown as CliDeps['runHistory'],
+    runProfileList: vi.fn(async () => {}) as unknown as CliDeps['runProfileList'],
+    runProfileAdd: vi.fn(async () => {}) as unknown as CliDeps['runProfileAdd'],
+    runProfileRemove: vi.fn(async () => {}) as unknown as CliDeps['runProfileRemove'],
+    useProfile: vi.fn() as unknown as CliDeps['useProfile'],
+    useCollectionUser: vi.fn() as unknown as CliDeps['useCollectionUser'],
     getStats: vi.fn(async () => ({ count: 1, lastSync: null })) as unknown as CliDeps['getStats'],
     parseListOptions,
     version: '9.9.9-test',
@@ -52,6 +76,269 @@ describe('createProgram', () => {
     expect(deps.runServe).toHaveBeenCalledTimes(1);
   });
 
+  it('parses token auth options and auth subcommands', async () => {
+    const deps = makeDeps();
+
+    await parseUserArgs(deps, ['auth', '--token', 'ghp_test']);
+    await parseUserArgs(deps, ['auth', '--token']);
+    await parseUserArgs(deps, ['auth', '--token-command', 'gh auth token']);
+    await parseUserArgs(deps, ['auth', 'status']);
+    await parseUserArgs(deps, ['auth', 'logout']);
+
+    expect(deps.runAuth).toHaveBeenNthCalledWith(1, { force: undefined, token: 'ghp_test' });
+    expect(deps.runAuth).toHaveBeenNthCalledWith(2, { force: undefined, tokenFromStdin: true });
+    expect(deps.runAuth).toHaveBeenNthCalledWith(3, { force: undefined, tokenCommand: 'gh auth token' });
+    expect(deps.runAuth).toHaveBeenCalledTimes(3);
+    expect(deps.runAuthStatus).toHaveBeenCalledTimes(1);
+    expect(deps.runLogout).toHaveBeenCalledTimes(1);
+  });
+
+  it('parses star and unstar commands with bulk input', async () => {
+    const deps = makeDeps();
+
+    await parseUserArgs(deps, ['auth', '--write']);
+    await parseUserArgs(deps, ['star', 'a/one', 'b/two', '--no-embeddings']);
+    await parseUserArgs(deps, ['unstar', '--file', '-']);
+
+    expect(deps.runAuth).toHaveBeenCalledWith({ force: undefined, write: true });
+    expect(deps.runStar).toHaveBeenCalledWith(['a/one', 'b/two'], { file: undefined, noEmbeddings: true });
+    expect(deps.runUnstar).toHaveBeenCalledWith([], { file: '-' });
+  });
+
+  it('exits non-zero when some repos could not be starred', async () => {
+    const deps = makeDeps();
+    vi.mocked(deps.runStar).mockResolvedValueOnce(1);
+
+    await expect(parseUserArgs(deps, ['star', 'a/one', 'b/two'])).rejects.toThrow('exit:1');
+    expect(deps.error).not.toHaveBeenCalled();
+  });
+
+  it('parses the releases command and release sync flag', async () => {
+    const deps = makeDeps();
+
+    await parseUserArgs(deps, ['sync', '--releases']);
+    await parseUserArgs(deps, ['releases', '--days', '7', '--lang', 'Go', '--json']);
+
+    expect(deps.runSync).toHaveBeenCalledWith(expect.objectContaining({ releases: true }));
+    expect(deps.runReleases).toHaveBeenCalledWith({
+      days: 7, language: 'Go', topic: undefined, list: undefined, limit: 50, json: true,
+    });
+    await expect(parseUserArgs(deps, ['releases', '--days', '0'])).rejects.toThrow('exit:1');
+  });
+
+  it('parses the history command', async () => {
+    const deps = makeDeps();
+
+    await parseUserArgs(deps, ['history', '--repo', 'a/one', '--json']);
+
+    expect(deps.runHistory).toHaveBeenCalledWith({ repo: 'a/one', limit: 20, json: true });
+  });
+
+  it('parses the import command with merge and replace modes', async () => {
+    const deps = makeDeps();
+
+    await parseUserArgs(deps, ['import', 'stars.json']);
+    await parseUserArgs(deps, ['import', '-', '--replace', '--no-embeddings']);
+
+    expect(deps.runImport).toHaveBeenNthCalledWith(1, 'stars.json', { noEmbeddings: false });
+    expect(deps.runImport).toHaveBeenNthCalledWith(2, '-', { replace: true, noEmbeddings: true });
+  });
+
+  it('parses watch mode for sync and serve', async () => {
+    const deps = makeDeps();
+
+    await parseUserArgs(deps, ['sync', '--watch', '--interval', '2h', '--no-embeddings']);
+    await parseUserArgs(deps, ['serve', '--watch']);
+
+    expect(deps.runSync).not.toHaveBeenCalled();
+    expect(deps.runSyncWatch).toHaveBeenCalledWith(expect.objectContaining({ noEmbeddings: true }), 7_200_000);
+    expect(deps.runServe).toHaveBeenCalledWith({ watchIntervalMs: 1_800_000 });
+    await expect(parseUserArgs(deps, ['sync', '--watch', '--interval', '5s'])).rejects.toThrow('at least 60 seconds');
+  });
+
+  it('parses the export command with list filters', async () => {
+    const deps = makeDeps();
+
+    await parseUserArgs(deps, ['export', '--format', 'markdown', '--group-by', 'topic', '--lang', 'Go', '--no-archived', '-o', 'stars.md']);
+
+    expect(deps.runExport).toHaveBeenCalledWith({
+      filters: expect.objectContaining({ language: 'Go', excludeArchived: true }),
+      format: 'markdown',
+      groupBy: 'topic',
+      title: undefined,
+      output: 'stars.md',
+    });
+    await expect(parseUserArgs(deps, ['export', '--format', 'xml'])).rejects.toThrow('exit:1');
+    expect(deps.error).toHaveBeenCalledWith('Invalid --format value "xml". Must be one of: json, ndjson, csv, markdown, html');
+  });
+
+  it('parses backup and restore and reports restore refusals', async () => {
+    const runRestore = vi.fn(async () => { throw new Error('Refusing to restore x.gz'); });
+    const deps = makeDeps({ runRestore: runRestore as unknown as CliDeps['runRestore'] });
+
+    await parseUserArgs(deps, ['backup', 'stars.jsonl.gz']);
+    await expect(parseUserArgs(deps, ['restore', 'x.gz', '--force'])).rejects.toThrow('exit:1');
+
+    expect(deps.runBackup).toHaveBeenCalledWith('stars.jsonl.gz', { wait: undefined });
+    expect(runRestore).toHaveBeenCalledWith('x.gz', { force: true });
+    expect(deps.error).toHaveBeenCalledWith('Refusing to restore x.gz');
+  });
+
+  it('parses tag and note commands and the --tag filter', async () => {
+    const deps = makeDeps();
+
+    await parseUserArgs(deps, ['tag', 'add', 'vercel/next.js', 'evaluated', 'used-in-prod', '--wait']);
+    await parseUserArgs(deps, ['tag', 'remove', 'vercel/next.js', 'avoid']);
+    await parseUserArgs(deps, ['tag', 'list', '--json']);
+    await parseUserArgs(deps, ['note', 'vercel/next.js', 'Used for the docs site']);
+    await parseUserArgs(deps, ['note', 'vercel/next.js', '--clear']);
+    await parseUserArgs(deps, ['list', '--tag', 'evaluated']);
+
+    expect(deps.runTagAdd).toHaveBeenCalledWith('vercel/next.js', ['evaluated', 'used-in-prod'], { wait: true });
+    expect(deps.runTagRemove).toHaveBeenCalledWith('vercel/next.js', ['avoid'], { wait: undefined });
+    expect(deps.runTagList).toHaveBeenCalledWith({ json: true });
+    expect(deps.runNote).toHaveBeenNthCalledWith(1, 'vercel/next.js', 'Used for the docs site', { clear: undefined });
+    expect(deps.runNote).toHaveBeenNthCalledWith(2, 'vercel/next.js', undefined, { clear: true });
+    expect(deps.runList).toHaveBeenCalledWith(expect.objectContaining({ tag: 'evaluated' }));
+  });
+
+  it('parses purge and the unstarred filters', async () => {
+    const deps = makeDeps();
+
+    await parseUserArgs(deps, ['purge', '--older-than', '90d', '--dry-run']);
+    await parseUserArgs(deps, ['purge']);
+    await parseUserArgs(deps, ['list', '--only-unstarred']);
+    await expect(parseUserArgs(deps, ['search', 'x', '--include-unstarred', '--only-unstarred'])).rejects.toThrow('exit:1');
+
+    expect(deps.runPurge).toHaveBeenNthCalledWith(1, { olderThanMs: 90 * 24 * 60 * 60 * 1000, dryRun: true });
+    expect(deps.runPurge).toHaveBeenNthCalledWith(2, { olderThanMs: undefined, dryRun: undefined });
+    expect(deps.runList).toHaveBeenCalledWith(expect.objectContaining({ unstarred: 'only' }));
+    expect(deps.error).toHaveBeenCalledWith('Use either --include-unstarred or --only-unstarred, not both.');
+  });
+
+  it('parses stats', async () => {
+    const deps = makeDeps();
+
+    await parseUserArgs(deps, ['stats', '--top', '5', '--json']);
+    await parseUserArgs(deps, ['stats']);
+    await expect(parseUserArgs(deps, ['stats', '--top', '0'])).rejects.toThrow('exit:1');
+
+    expect(deps.runStats).toHaveBeenNthCalledWith(1, { top: 5, json: true });
+    expect(deps.runStats).toHaveBeenNthCalledWith(2, { top: 10, json: undefined });
+  });
+
+  it('parses doctor and exits 1 while problems remain', async () => {
+    const deps = makeDeps();
+
+    await parseUserArgs(deps, ['doctor', '--fix', '--wait', '--json']);
+    vi.mocked(deps.runDoctor).mockResolvedValueOnce({ checks: [], problems: 2 });
+    await expect(parseUserArgs(deps, ['doctor'])).rejects.toThrow('exit:1');
+
+    expect(deps.runDoctor).toHaveBeenNthCalledWith(1, { fix: true, wait: true, json: true });
+    expect(deps.runDoctor).toHaveBeenNthCalledWith(2, { fix: undefined, wait: undefined, json: undefined });
+    expect(deps.error).not.toHaveBeenCalled();
+  });
+
+  it('parses trending and the growth sort window', async () => {
+    const deps = makeDeps();
+
+    await parseUserArgs(deps, ['trending', '--days', '7', '--relative', '--lang', 'Go', '-n', '5']);
+    await parseUserArgs(deps, ['list', '--sort', 'growth', '--growth-days', '14']);
+    await expect(parseUserArgs(deps, ['trending', '--days', '0'])).rejects.toThrow('exit:1');
+
+    expect(deps.runTrending).toHaveBeenCalledWith({
+      days: 7,
+      relative: true,
+      language: 'Go',
+      topic: undefined,
+      list: undefined,
+      tag: undefined,
+      limit: 5,
+      json: undefined,
+    });
+    expect(deps.runList).toHaveBeenCalledWith(expect.objectContaining({ sort: 'growth', growthDays: 14 }));
+  });
+
+  it('passes --wait to the commands that take the write lock', async () => {
+    const deps = makeDeps();
+
+    await parseUserArgs(deps, ['sync', '--wait']);
+    await parseUserArgs(deps, ['embed', '--wait']);
+    await parseUserArgs(deps, ['import', 'stars.json', '--wait']);
+    await parseUserArgs(deps, ['restore', 'stars.backup', '--wait']);
+
+    expect(deps.runSync).toHaveBeenCalledWith(expect.objectContaining({ wait: true }));
+    expect(deps.runEmbed).toHaveBeenCalledWith({ force: undefined, wait: true });
+    expect(deps.runImport).toHaveBeenCalledWith('stars.json', expect.objectContaining({ wait: true }));
+    expect(deps.runRestore).toHaveBeenCalledWith('stars.backup', { force: undefined, wait: true });
+  });
+
+  it('selects the profile before running a command', async () => {
+    const deps = makeDeps();
+
+    await parseUserArgs(deps, ['--profile', 'work', 'sync']);
+    await parseUserArgs(deps, ['serve', '--profile', 'personal']);
+
+    expect(deps.useProfile).toHaveBeenNthCalledWith(1, 'work');
+    expect(deps.useProfile).toHaveBeenNthCalledWith(2, 'personal');
+    expect(deps.runServe).toHaveBeenCalledTimes(1);
+  });
+
+  it('falls back to STAREPO_PROFILE and skips the lookup for profile management', async () => {
+    const deps = makeDeps();
+    vi.stubEnv('STAREPO_PROFILE', 'work');
+
+    try {
+      await parseUserArgs(deps, ['list']);
+      await parseUserArgs(deps, ['profile', 'add', 'new-one']);
+      await parseUserArgs(deps, ['profile', 'remove', 'old']);
+      await parseUserArgs(deps, ['profile', 'list']);
+    } finally {
+      vi.unstubAllEnvs();
+    }
+
+    expect(deps.useProfile).toHaveBeenCalledTimes(1);
+    expect(deps.useProfile).toHaveBeenCalledWith('work');
+    expect(deps.runProfileAdd).toHaveBeenCalledWith('new-one');
+    expect(deps.runProfileRemove).toHaveBeenCalledWith('old', { active: undefined });
+    expect(deps.runProfileList).toHaveBeenCalledTimes(1);
+  });
+
+  it('passes --profile to profile list and remove as the active profile', async () => {
+    const deps = makeDeps();
+
+    await parseUserArgs(deps, ['--profile', 'work', 'profile', 'list']);
+    await parseUserArgs(deps, ['--profile', 'work', 'profile', 'remove', 'work']);
+
+    expect(deps.useProfile).not.toHaveBeenCalled();
+    expect(deps.runProfileList).toHaveBeenCalledWith({ active: 'work' });
+    expect(deps.runProfileRemove).toHaveBeenCalledWith('work', { active: 'work' });
+  });
+
+  it('scopes sync, search, list and info to another user\'s collection', async () => {
+    const deps = makeDeps();
+
+    await parseUserArgs(deps, ['sync', '--user', 'torvalds']);
+    await parseUserArgs(deps, ['search', 'kernel', '-u', 'torvalds']);
+    await parseUserArgs(deps, ['list', '--user', 'torvalds']);
+    await parseUserArgs(deps, ['info', 'a/b', '--user', 'torvalds']);
+    await parseUserArgs(deps, ['list']);
+
+    expect(deps.useCollectionUser).toHaveBeenCalledTimes(4);
+    expect(deps.useCollectionUser).toHaveBeenCalledWith('torvalds');
+    expect(deps.runSearch).toHaveBeenCalledWith('kernel', expect.not.objectContaining({ user: expect.anything() }));
+  });
+
+  it('parses sync metadata refresh options', async () => {
+    const deps = makeDeps();
+
+    await parseUserArgs(deps, ['sync', '--refresh-max-age', '7']);
+    await parseUserArgs(deps, ['sync', '--refresh']);
+
+    expect(deps.runSync).toHaveBeenNthCalledWith(1, expect.objectContaining({ refreshMaxAgeDays: 7 }));
+    expect(deps.runSync).toHaveBeenNthCalledWith(2, expect.objectContaining({ refresh: true }));
+  });
+
   it('parses search options and checks local data before dispatching', async () => {
     const deps = makeDeps();
 
@@ -102,10 +102,9 @@ describe('runSearch', () => {
 });
 
 describe('runList', () => {
-  it('lists repos from storage when no query is provided', async () => {
+  it('lists repos from storage with the sort and limit pushed down', async () => {
     const logs: string[] = [];
     const listRepos = vi.fn().mockResolvedValue([
-      { ...repo, full_name: 'user/low', stars_count: 1 },
       { ...repo, full_name: 'user/high', stars_count: 100 },
     ]);
     vi.spyOn(console, 'log').mockImplementation((message?: string) => {
@@ -116,7 +115,8 @@ describe('runList', () => {
       getStats: vi.fn().mockResolvedValue({ count: 2, lastSync: null }),
       getRepoByName: vi.fn(),
     }));
-    vi.doMock('../src/lib/search.js', () => ({
+    vi.doMock('../src/lib/search.js', async () => ({
+      ...(await vi.importActual<typeof import('../src/lib/search.js')>('../src/lib/search.js')),
       hybridSearch: vi.fn(),
     }));
 
@@ -128,10 +128,11 @@ describe('runList', () => {
       topic: undefined,
       starredAfter: undefined,
       starredBefore: undefined,
-      limit: undefined,
+      limit: 1,
+      orderBy: 'stars_count',
+      descending: true,
     });
     expect(logs.join('\n')).toContain('user/high');
-    expect(logs.join('\n')).not.toContain('user/low');
   });
 
   it('uses hybrid search when a query is provided', async () => {
@@ -162,7 +163,18 @@ describe('runList', () => {
     vi.doMock('../src/lib/storage.js', () => ({
       listRepos: vi.fn(),
       getStats: vi.fn(),
-      getRepoByName: vi.fn().mockResolvedValue(repo),
+      getRepoByName: vi.fn().mockResolvedValue({
+        ...repo,
+        archived: true,
+        license: 'MIT',
+        owner_login: 'user',
+        owner_type: 'Organization',
+        pushed_at: '2025-12-31T00:00:00Z',
+        visibility: 'public',
+      }),
+    }));
+    vi.doMock('../src/lib/lists.js', () => ({
+      getListsForRepo: vi.fn().mockResolvedValue(['evaluate', 'production deps']),
     }));
     vi.doMock('../src/lib/search.js', () => ({
       hybridSearch: vi.fn(),
@@ -173,5 +185,10 @@ describe('runList', () => {
 
     expect(logs.join('\n')).toContain('Name:        user/repo');
     expect(logs.join('\n')).toContain('Topics:      cli, typescript');
+    expect(logs.join('\n')).toContain('Lists:       evaluate, production deps');
+    expect(logs.join('\n')).toContain('Owner:       user (Organization)');
+    expect(logs.join('\n')).toContain('License:     MIT');
+    expect(logs.join('\n')).toContain('Status:      archived, public');
+    expect(logs.join('\n')).toContain('Pushed at:   2025-12-31T00:00:00Z');
   });
 });
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { RepoInput } from '../src/lib/storage.js';
+
+let tmpDir: string;
+
+function makeRepo(overrides: Partial<RepoInput> = {}): RepoInput {
+  return {
+    id: Math.floor(Math.random() * 1_000_000),
+    full_name: 'user/repo',
+    name: 'repo',
+    description: 'A test repo',
+    html_url: 'https://github.com/user/repo',
+    homepage: '',
+    language: 'TypeScript',
+    topics: ['testing'],
+    stars_count: 10,
+    forks_count: 1,
+    starred_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+beforeEach(async () => {
+  tmpDir = mkdtempSync(join(tmpdir(), 'starepo-lists-test-'));
+  process.env.XDG_DATA_HOME = join(tmpDir, 'data');
+  process.env.XDG_CONFIG_HOME = join(tmpDir, 'config');
+  vi.resetModules();
+
+  const { upsertRepos } = await import('../src/lib/storage.js');
+  const { replaceStarLists } = await import('../src/lib/lists.js');
+  await upsertRepos([
+    makeRepo({ id: 1, full_name: 'a/eval-ts', language: 'TypeScript' }),
+    makeRepo({ id: 2, full_name: 'b/eval-py', language: 'Python' }),
+    makeRepo({ id: 3, full_name: 'c/prod', language: 'Go' }),
+  ]);
+  await replaceStarLists([
+    { name: 'Evaluate', slug: 'evaluate', description: '', repos: ['a/eval-ts', 'b/eval-py'] },
+    { name: 'Production deps', slug: 'production-deps', description: 'Used in prod', repos: ['c/prod', 'a/eval-ts'] },
+  ]);
+});
+
+afterEach(() => {
+  rmSync(tmpDir, { recursive: true, force: true });
+  delete process.env.XDG_DATA_HOME;
+  delete process.env.XDG_CONFIG_HOME;
+});
+
+describe('lists: membership', () => {
+  it('returns the lists a repo belongs to, sorted by name', async () => {
+    const { getListsForRepo } = await import('../src/lib/lists.js');
+    expect(await getListsForRepo('a/eval-ts')).toEqual(['Evaluate', 'Production deps']);
+    expect(await getListsForRepo('nobody/nothing')).toEqual([]);
+  });
+
+  it('resolves members by list name (case-insensitive) or slug', async () => {
+    const { getListMemberNames } = await import('../src/lib/lists.js');
+    expect((await getListMemberNames('production deps')).sort()).toEqual(['a/eval-ts', 'c/prod']);
+    expect((await getListMemberNames('production-deps')).sort()).toEqual(['a/eval-ts', 'c/prod']);
+  });
+
+  it('replaces all memberships on every sync', async () => {
+    const { replaceStarLists, getListsForRepo } = await import('../src/lib/lists.js');
+    await replaceStarLists([
+      { name: 'Evaluate', slug: 'evaluate', description: '', repos: ['b/eval-py'] },
+    ]);
+
+    expect(await getListsForRepo('a/eval-ts')).toEqual([]);
+    expect(await getListsForRepo('b/eval-py')).toEqual(['Evaluate']);
+  });
+});
+
+describe('lists: repo filtering', () => {
+  it('filters listRepos and countRepos by list membership', async () => {
+    const { listRepos, countRepos } = await import('../src/lib/storage.js');
+
+    const repos = await listRepos({ list: 'evaluate', language: 'python' });
+
+    expect(repos.map((repo) => repo.full_name)).toEqual(['b/eval-py']);
+    expect(await countRepos({ list: 'Evaluate' })).toBe(2);
+  });
+
+  it('returns nothing for an unknown list', async () => {
+    const { listRepos, countRepos } = await import('../src/lib/storage.js');
+
+    expect(await listRepos({ list: 'missing' })).toEqual([]);
+    expect(await countRepos({ list: 'missing' })).toBe(0);
+  });
+
+  it('applies the list filter to keyword search', async () => {
+    const { searchFTS } = await import('../src/lib/storage.js');
+
+    const results = await searchFTS('eval', 10, { list: 'production-deps' });
+
+    expect(results.map((repo) => repo.full_name)).toEqual(['a/eval-ts']);
+  });
+});
@@ -0,0 +1,179 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { spawn, type ChildProcess } from 'child_process';
+import { existsSync, mkdtempSync, readFileSync, rmSync, utimesSync, writeFileSync } from 'fs';
+import { hostname, tmpdir } from 'os';
+import { join, resolve } from 'path';
+
+// These tests run real child processes (node + tsx) against the same XDG
+// directories to check what one process sees of another's writes.
+
+const CONFIG_MODULE = resolve('src/lib/config.ts');
+const LOCK_MODULE = resolve('src/lib/lock.ts');
+
+let tmpDir: string;
+const children: ChildProcess[] = [];
+
+function spawnScript(code: string): ChildProcess {
+  const child = spawn(process.execPath, ['--import', 'tsx', '--input-type=module', '-e', code], {
+    env: { ...process.env },
+    stdio: ['pipe', 'pipe', 'inherit'],
+  });
+  children.push(child);
+  return child;
+}
+
+function exited(child: ChildProcess): Promise<number | null> {
+  return new Promise((resolveExit) => child.once('exit', (code) => resolveExit(code)));
+}
+
+function printed(child: ChildProcess, text: string): Promise<void> {
+  return new Promise((resolvePrinted, reject) => {
+    let output = '';
+    child.stdout!.on('data', (chunk: Buffer) => {
+      output += chunk.toString();
+      if (output.includes(text)) resolvePrinted();
+    });
+    child.once('exit', () => reject(new Error(`child exited before printing "${text}"`)));
+  });
+}
+
+beforeEach(() => {
+  tmpDir = mkdtempSync(join(tmpdir(), 'starepo-lock-test-'));
+  process.env.XDG_DATA_HOME = join(tmpDir, 'data');
+  process.env.XDG_CONFIG_HOME = join(tmpDir, 'config');
+  vi.resetModules();
+});
+
+afterEach(() => {
+  for (const child of children.splice(0)) {
+    if (child.exitCode === null) child.kill();
+  }
+  rmSync(tmpDir, { recursive: true, force: true });
+  delete process.env.XDG_DATA_HOME;
+  delete process.env.XDG_CONFIG_HOME;
+  vi.restoreAllMocks();
+});
+
+describe('meta.json across processes', () => {
+  it('keeps every key when several processes update it at once', async () => {
+    const writers = [0, 1, 2, 3].map((writer) => spawnScript(`
+      const { setMeta } = await import(${JSON.stringify(CONFIG_MODULE)});
+      for (let i = 0; i < 25; i++) setMeta('w${writer}_' + i, String(i));
+    `));
+
+    expect(await Promise.all(writers.map(exited))).toEqual([0, 0, 0, 0]);
+
+    const { getAllMeta, getMetaFilePath } = await import('../src/lib/config.js');
+    expect(Object.keys(getAllMeta())).toHaveLength(100);
+    expect(() => JSON.parse(readFileSync(getMetaFilePath(), 'utf-8'))).not.toThrow();
+  }, 60_000);
+
+  it('breaks a lock left by a dead process right away', async () => {
+    const dead = spawnScript('');
+    await exited(dead);
+
+    const { setMeta, getMeta, getMetaFilePath } = await import('../src/lib/config.js');
+    setMeta('seed', '1');
+    writeFileSync(`${getMetaFilePath()}.lock`, `${hostname()}:${dead.pid}:left-behind`);
+
+    const started = Date.now();
+    setMeta('last_sync', 'now');
+    expect(Date.now() - started).toBeLessThan(1_000);
+    expect(getMeta('last_sync')).toBe('now');
+    expect(existsSync(`${getMetaFilePath()}.lock`)).toBe(false);
+  });
+});
+
+describe('withWriteLock', () => {
+  it('refuses a second writer with the holder named, or waits for it', async () => {
+    const holder = spawnScript(`
+      const { withWriteLock } = await import(${JSON.stringify(LOCK_MODULE)});
+      await withWriteLock('sync', async () => {
+        console.log('locked');
+        await new Promise((done) => process.stdin.once('data', done));
+      });
+    `);
+    const holderExit = exited(holder);
+    await printed(holder, 'locked');
+
+    const { withWriteLock, readLockOwner } = await import('../src/lib/lock.js');
+    expect(readLockOwner()).toMatchObject({ pid: holder.pid, command: 'sync' });
+    await expect(withWriteLock('embed', async () => 'ran')).rejects.toThrow(`\`sync\`, pid ${holder.pid}`);
+
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const waiting = withWriteLock('embed', async () => 'ran', { wait: true });
+    holder.stdin!.end('release\n');
+    expect(await waiting).toBe('ran');
+    expect(await holderExit).toBe(0);
+    expect(readLockOwner()).toBeNull();
+  }, 60_000);
+
+  it('takes over a lock left by a dead process and is re-entrant', async () => {
+    const dead = spawnScript('');
+    await exited(dead);
+    const { withWriteLock, getWriteLockPath, readLockOwner } = await import('../src/lib/lock.js');
+    writeFileSync(getWriteLockPath(), JSON.stringify({
+      pid: dead.pid, hostname: hostname(), command: 'sync', started_at: new Date().toISOString(),
+    }));
+
+    const result = await withWriteLock('embed', async () => {
+      expect(readLockOwner()).toMatchObject({ pid: process.pid, command: 'embed' });
+      return withWriteLock('schema migration', async () => 'nested');
+    });
+
+    expect(result).toBe('nested');
+    expect(readLockOwner()).toBeNull();
+  }, 60_000);
+
+  it('lets only one of several waiters take over the same stale lock', async () => {
+    const dead = spawnScript('');
+    await exited(dead);
+    const { getWriteLockPath } = await import('../src/lib/lock.js');
+    writeFileSync(getWriteLockPath(), JSON.stringify({
+      pid: dead.pid, hostname: hostname(), command: 'sync', started_at: new Date().toISOString(),
+    }));
+
+    const logPath = join(tmpDir, 'holders.log');
+    const waiters = [0, 1, 2].map(() => spawnScript(`
+      const { appendFileSync } = await import('fs');
+      const { withWriteLock } = await import(${JSON.stringify(LOCK_MODULE)});
+      console.log('ready');
+      await new Promise((done) => process.stdin.once('data', done));
+      await withWriteLock('embed', async () => {
+        appendFileSync(${JSON.stringify(logPath)}, 'start\\n');
+        await new Promise((done) => setTimeout(done, 200));
+        appendFileSync(${JSON.stringify(logPath)}, 'end\\n');
+      }, { wait: true });
+    `));
+    const exits = Promise.all(waiters.map(exited));
+    await Promise.all(waiters.map((waiter) => printed(waiter, 'ready')));
+    for (const waiter of waiters) waiter.stdin!.end('go\n');
+
+    expect(await exits).toEqual([0, 0, 0]);
+    expect(readFileSync(logPath, 'utf-8').trim().split('\n')).toEqual(['start', 'end', 'start', 'end', 'start', 'end']);
+  }, 60_000);
+
+  it('takes over a lock file left without an owner once it is a few seconds old', async () => {
+    const { withWriteLock, getWriteLockPath } = await import('../src/lib/lock.js');
+    writeFileSync(getWriteLockPath(), '');
+    await expect(withWriteLock('embed', async () => 'ran')).rejects.toThrow('Another starepo process is writing');
+
+    const old = new Date(Date.now() - 60_000);
+    utimesSync(getWriteLockPath(), old, old);
+    expect(await withWriteLock('embed', async () => 'ran')).toBe('ran');
+  });
+
+  it('runs overlapping calls of one process one after the other', async () => {
+    const { withWriteLock } = await import('../src/lib/lock.js');
+    const events: string[] = [];
+    const run = (name: string) => withWriteLock(name, async () => {
+      events.push(`start ${name}`);
+      await new Promise((done) => setTimeout(done, 50));
+      events.push(`end ${name}`);
+    });
+
+    await Promise.all([run('sync'), run('star')]);
+
+    expect(events).toEqual(['start sync', 'end sync', 'start star', 'end star']);
+  });
+});
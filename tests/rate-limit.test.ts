@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+
+interface FakeResponse {
+  status: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+let server: Server;
+let baseUrl: string;
+let queue: FakeResponse[];
+let requests: string[];
+
+function quotaHeaders(remaining: number, resetInSeconds = 3600): Record<string, string> {
+  return {
+    'x-ratelimit-limit': '5000',
+    'x-ratelimit-remaining': String(remaining),
+    'x-ratelimit-used': String(5000 - remaining),
+    'x-ratelimit-reset': String(Math.floor(Date.now() / 1000) + resetInSeconds),
+    'x-ratelimit-resource': 'core',
+  };
+}
+
+// A fake GitHub API: replies with the queued responses in order.
+beforeEach(async () => {
+  queue = [];
+  requests = [];
+  server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    requests.push(`${req.method} ${req.url}`);
+    const next = queue.shift() ?? { status: 500, body: { message: 'No queued response' } };
+    res.writeHead(next.status, { 'content-type': 'application/json', ...next.headers });
+    res.end(JSON.stringify(next.body ?? {}));
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+  vi.restoreAllMocks();
+});
+
+async function createClient() {
+  const { createOctokit } = await import('../src/lib/github.js');
+  const sleep = vi.fn().mockResolvedValue(undefined);
+  const octokit = createOctokit('token', { baseUrl, retry: { sleep, baseDelayMs: 10 } });
+  return { octokit, sleep };
+}
+
+describe('rate limit handling', () => {
+  it('retries 5xx responses with exponential backoff and records the quota', async () => {
+    queue.push(
+      { status: 502, headers: quotaHeaders(4999) },
+      { status: 503, headers: quotaHeaders(4998) },
+      { status: 200, headers: quotaHeaders(4997), body: { login: 'octocat' } },
+    );
+    const { octokit, sleep } = await createClient();
+    const { getRateLimits, formatRateLimits } = await import('../src/lib/rate-limit.js');
+
+    const response = await octokit.request('GET /user');
+
+    expect(response.data).toEqual({ login: 'octocat' });
+    expect(requests).toHaveLength(3);
+    expect(sleep.mock.calls.map(([ms]) => ms)).toEqual([10, 20]);
+    expect(getRateLimits(octokit)).toMatchObject([{ resource: 'core', limit: 5000, remaining: 4997, used: 3 }]);
+    expect(formatRateLimits(getRateLimits(octokit))).toContain('core 4997/5000');
+  });
+
+  it('honors retry-after on secondary rate limits', async () => {
+    queue.push(
+      { status: 403, headers: { 'retry-after': '7' }, body: { message: 'You have exceeded a secondary rate limit.' } },
+      { status: 429, headers: { 'retry-after': '3' } },
+      { status: 200, headers: quotaHeaders(10), body: [] },
+    );
+    const { octokit, sleep } = await createClient();
+
+    await octokit.request('GET /user/starred');
+
+    expect(sleep.mock.calls.map(([ms]) => ms)).toEqual([7000, 3000]);
+  });
+
+  it('waits for the primary rate limit reset when it is close', async () => {
+    queue.push(
+      { status: 403, headers: quotaHeaders(0, 30), body: { message: 'API rate limit exceeded' } },
+      { status: 200, headers: quotaHeaders(5000), body: {} },
+    );
+    const { octokit, sleep } = await createClient();
+
+    await octokit.request('GET /user');
+
+    const [[delay]] = sleep.mock.calls;
+    expect(delay).toBeGreaterThan(25_000);
+    expect(delay).toBeLessThanOrEqual(31_000);
+  });
+
+  it('fails with a clear error when the primary reset is too far away', async () => {
+    queue.push({ status: 403, headers: quotaHeaders(0, 3600), body: { message: 'API rate limit exceeded' } });
+    const { octokit, sleep } = await createClient();
+
+    await expect(octokit.request('GET /user')).rejects.toThrow('GitHub API rate limit exceeded; it resets in about 60 minutes.');
+    expect(sleep).not.toHaveBeenCalled();
+  });
+
+  it('does not retry permission errors or exhaust retries forever', async () => {
+    queue.push({ status: 403, headers: quotaHeaders(4000), body: { message: 'Resource not accessible by integration' } });
+    const { octokit, sleep } = await createClient();
+
+    await expect(octokit.request('GET /user')).rejects.toMatchObject({ status: 403 });
+    expect(requests).toHaveLength(1);
+    expect(sleep).not.toHaveBeenCalled();
+
+    queue.push(...Array.from({ length: 6 }, () => ({ status: 500 })));
+    await expect(octokit.request('GET /user')).rejects.toMatchObject({ status: 500 });
+    expect(requests).toHaveLength(1 + 5);
+  });
+
+  it('streams starred pages through the retrying client', async () => {
+    const item = {
+      starred_at: '2026-01-02T00:00:00Z',
+      repo: {
+        id: 1,
+        full_name: 'user/repo',
+        name: 'repo',
+        description: null,
+        html_url: 'https://github.com/user/repo',
+        homepage: null,
+        language: null,
+        topics: [],
+        stargazers_count: 1,
+        forks_count: 0,
+        updated_at: null,
+      },
+    };
+    queue.push(
+      { status: 503 },
+      { status: 200, headers: quotaHeaders(4999), body: [item] },
+    );
+    const { octokit } = await createClient();
+    const { streamStars } = await import('../src/lib/github.js');
+
+    const pages: number[] = [];
+    const total = await streamStars(octokit, (_repos, page) => { pages.push(page); });
+
+    expect(total).toBe(1);
+    expect(pages).toEqual([1]);
+    expect(requests[1]).toContain('/user/starred?');
+  });
+});
@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { RepoInput } from '../src/lib/storage.js';
+import type { RepoRelease } from '../src/lib/releases.js';
+
+let tmpDir: string;
+
+function makeRepo(fullName: string, language: string): RepoInput {
+  return {
+    id: Math.floor(Math.random() * 1_000_000),
+    full_name: fullName,
+    name: fullName.split('/')[1],
+    description: 'A repo',
+    html_url: `https://github.com/${fullName}`,
+    homepage: '',
+    language,
+    topics: [],
+    stars_count: 1,
+    forks_count: 0,
+    starred_at: '2026-01-01T00:00:00Z',
+    updated_at: '',
+  };
+}
+
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+function makeRelease(fullName: string, tag: string, publishedAt: string): RepoRelease {
+  return {
+    full_name: fullName,
+    tag_name: tag,
+    name: tag,
+    published_at: publishedAt,
+    url: `https://github.com/${fullName}/releases/tag/${tag}`,
+    notes: `Notes for ${tag}`,
+  };
+}
+
+beforeEach(() => {
+  tmpDir = mkdtempSync(join(tmpdir(), 'starepo-releases-test-'));
+  process.env.XDG_DATA_HOME = join(tmpDir, 'data');
+  process.env.XDG_CONFIG_HOME = join(tmpDir, 'config');
+  vi.resetModules();
+});
+
+afterEach(() => {
+  rmSync(tmpDir, { recursive: true, force: true });
+  delete process.env.XDG_DATA_HOME;
+  delete process.env.XDG_CONFIG_HOME;
+  vi.restoreAllMocks();
+});
+
+describe('excerptReleaseNotes', () => {
+  it('flattens markdown into one line and truncates long notes', async () => {
+    const { excerptReleaseNotes } = await import('../src/lib/releases.js');
+
+    expect(excerptReleaseNotes('## What\'s new\n\n* **Faster** [builds](https://x.dev)\n<!-- hidden -->\n> note'))
+      .toBe('What\'s new Faster builds note');
+    const excerpt = excerptReleaseNotes('word '.repeat(100), 20);
+    expect(excerpt).toBe('word word word word…');
+  });
+});
+
+describe('saveReleases / listRecentReleases', () => {
+  it('replaces the release of each checked repo and lists recent ones newest first', async () => {
+    const { saveReleases, listRecentReleases } = await import('../src/lib/releases.js');
+    await saveReleases(['a/one', 'b/two', 'c/three'], [
+      makeRelease('a/one', 'v1.0.0', daysAgo(3)),
+      makeRelease('b/two', 'v2.0.0', daysAgo(1)),
+      makeRelease('c/three', 'v0.1.0', daysAgo(40)),
+    ]);
+    await saveReleases(['a/one', 'b/two'], [makeRelease('a/one', 'v1.1.0', daysAgo(2))]);
+
+    const recent = await listRecentReleases({ since: new Date(Date.now() - 14 * 24 * 60 * 60 * 1000) });
+    expect(recent.map((release) => `${release.full_name}@${release.tag_name}`)).toEqual(['a/one@v1.1.0']);
+
+    const all = await listRecentReleases({ since: new Date(0) });
+    expect(all.map((release) => release.full_name)).toEqual(['a/one', 'c/three']);
+    expect(typeof all[0].published_at_ts).toBe('number');
+  });
+
+  it('drops the releases of repos that are unstarred or deleted', async () => {
+    const { upsertRepos, retireRepos, deleteReposByName } = await import('../src/lib/storage.js');
+    const { saveReleases, listRecentReleases } = await import('../src/lib/releases.js');
+    await upsertRepos([makeRepo('a/one', 'Go'), makeRepo('b/two', 'Go'), makeRepo('c/three', 'Go')]);
+    await saveReleases(['a/one', 'b/two', 'c/three'], [
+      makeRelease('a/one', 'v1.0.0', daysAgo(1)),
+      makeRelease('b/two', 'v2.0.0', daysAgo(2)),
+      makeRelease('c/three', 'v3.0.0', daysAgo(3)),
+    ]);
+
+    await retireRepos(['a/one']);
+    await deleteReposByName(['b/two']);
+
+    expect((await listRecentReleases({ since: new Date(0) })).map((release) => release.full_name)).toEqual(['c/three']);
+  });
+});
+
+describe('runReleases', () => {
+  it('asks for a release sync before any release data exists', async () => {
+    const logs: string[] = [];
+    vi.spyOn(console, 'log').mockImplementation((message?: string) => { logs.push(String(message ?? '')); });
+
+    const { runReleases } = await import('../src/commands/releases.js');
+    await runReleases();
+
+    expect(logs).toEqual(['No release data yet. Run `starepo sync --releases` first.']);
+  });
+
+  it('shows only releases of current stars that match the repo filters', async () => {
+    const { upsertRepos } = await import('../src/lib/storage.js');
+    const { saveReleases } = await import('../src/lib/releases.js');
+    const { setMeta } = await import('../src/lib/config.js');
+    await upsertRepos([makeRepo('go/tool', 'Go'), makeRepo('rs/crate', 'Rust')]);
+    await saveReleases(['go/tool', 'rs/crate', 'gone/repo'], [
+      makeRelease('go/tool', 'v1.2.0', daysAgo(2)),
+      makeRelease('rs/crate', 'v0.9.0', daysAgo(1)),
+      makeRelease('gone/repo', 'v3.0.0', daysAgo(1)),
+    ]);
+    setMeta('last_release_sync', new Date().toISOString());
+    const logs: string[] = [];
+    vi.spyOn(console, 'log').mockImplementation((message?: string) => { logs.push(String(message ?? '')); });
+
+    const { runReleases, getRecentReleases } = await import('../src/commands/releases.js');
+    expect((await getRecentReleases({})).map((release) => release.full_name)).toEqual(['rs/crate', 'go/tool']);
+
+    await runReleases({ days: 7, language: 'Go', json: true });
+    const parsed = JSON.parse(logs[0]) as Array<Record<string, unknown>>;
+    expect(parsed.map((release) => release.full_name)).toEqual(['go/tool']);
+    expect(parsed[0]).not.toHaveProperty('published_at_ts');
+  });
+});
@@ -4,6 +4,8 @@ import { tmpdir } from 'os';
 import { join } from 'path';
 import type { RepoInput } from '../src/lib/storage.js';
 
+type StorageModule = typeof import('../src/lib/storage.js');
+
 let tmpDir: string;
 
 function makeRepo(overrides: Partial<RepoInput> = {}): RepoInput {
@@ -160,7 +162,8 @@ describe('hybridSearch: candidate expansion for correctness', () => {
         .slice(0, limit)
     );
 
-    vi.doMock('../src/lib/storage.js', () => ({
+    vi.doMock('../src/lib/storage.js', async () => ({
+      hasRepoFilters: (await vi.importActual<StorageModule>('../src/lib/storage.js')).hasRepoFilters,
       listRepos: vi.fn(),
       searchVector: vi.fn(),
       searchFTS,
@@ -181,20 +184,20 @@ describe('hybridSearch: candidate expansion for correctness', () => {
     expect(results.map(r => r.full_name)).toEqual(['user/repo-75', 'user/repo-90']);
   });
 
-  it('expands candidates for non-relevance sorting in query mode', async () => {
+  it('sorts only the best relevance matches in query mode', async () => {
     const count = 120;
-    const searchFTS = vi.fn().mockResolvedValue(
-      Array.from({ length: count }, (_, i) =>
-        makeStoredRepo(i, {
-          full_name: `user/sort-${i}`,
-          name: `sort-${i}`,
-          stars_count: i,
-          forks_count: count - i,
-        })
-      )
+    const ranked = Array.from({ length: count }, (_, i) =>
+      makeStoredRepo(i, {
+        full_name: `user/sort-${i}`,
+        name: `sort-${i}`,
+        stars_count: i,
+        forks_count: count - i,
+      })
     );
+    const searchFTS = vi.fn(async (_query: string, candidateLimit: number) => ranked.slice(0, candidateLimit));
 
-    vi.doMock('../src/lib/storage.js', () => ({
+    vi.doMock('../src/lib/storage.js', async () => ({
+      hasRepoFilters: (await vi.importActual<StorageModule>('../src/lib/storage.js')).hasRepoFilters,
       listRepos: vi.fn(),
       searchVector: vi.fn(),
       searchFTS,
@@ -208,22 +211,22 @@ describe('hybridSearch: candidate expansion for correctness', () => {
     const { hybridSearch } = await import('../src/lib/search.js');
     const results = await hybridSearch('tooling', 3, { sort: 'stars', order: 'desc' });
 
-    expect(searchFTS).toHaveBeenCalledWith('tooling', count, { sort: 'stars', order: 'desc' });
+    expect(searchFTS.mock.calls).toEqual([['tooling', 50, { sort: 'stars', order: 'desc' }]]);
     expect(results.map(r => r.full_name)).toEqual([
-      'user/sort-119',
-      'user/sort-118',
-      'user/sort-117',
+      'user/sort-49',
+      'user/sort-48',
+      'user/sort-47',
     ]);
   });
 
-  it('does not pre-limit list mode before business sorting', async () => {
+  it('pushes sort and limit into storage in list mode', async () => {
     const listRepos = vi.fn().mockResolvedValue([
-      makeStoredRepo(1, { full_name: 'user/low', name: 'low', stars_count: 1 }),
       makeStoredRepo(2, { full_name: 'user/high', name: 'high', stars_count: 100 }),
       makeStoredRepo(3, { full_name: 'user/mid', name: 'mid', stars_count: 50 }),
     ]);
 
-    vi.doMock('../src/lib/storage.js', () => ({
+    vi.doMock('../src/lib/storage.js', async () => ({
+      hasRepoFilters: (await vi.importActual<StorageModule>('../src/lib/storage.js')).hasRepoFilters,
       listRepos,
       searchVector: vi.fn(),
       searchFTS: vi.fn(),
@@ -233,14 +236,13 @@ describe('hybridSearch: candidate expansion for correctness', () => {
     }));
 
     const { hybridSearch } = await import('../src/lib/search.js');
-    const results = await hybridSearch('', 2, { sort: 'stars', order: 'desc' });
+    const results = await hybridSearch('', 2, { sort: 'stars', order: 'desc', language: 'Rust' });
 
     expect(listRepos).toHaveBeenCalledWith({
-      language: undefined,
-      topic: undefined,
-      starredAfter: undefined,
-      starredBefore: undefined,
-      limit: undefined,
+      language: 'Rust',
+      limit: 2,
+      orderBy: 'stars_count',
+      descending: true,
     });
     expect(results.map(r => r.full_name)).toEqual(['user/high', 'user/mid']);
   });
@@ -272,7 +274,8 @@ describe('hybridSearch: embedding availability lookup', () => {
       },
     ]);
 
-    vi.doMock('../src/lib/storage.js', () => ({
+    vi.doMock('../src/lib/storage.js', async () => ({
+      hasRepoFilters: (await vi.importActual<StorageModule>('../src/lib/storage.js')).hasRepoFilters,
       listRepos: vi.fn(),
       searchVector: vi.fn(),
       searchFTS,
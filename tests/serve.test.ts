@@ -2,8 +2,13 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 
 type MockRequest = { params: Record<string, unknown> };
 type MockResponse = {
-  tools?: Array<{ name: string; inputSchema: { properties: Record<string, unknown> } }>;
+  tools?: Array<{
+    name: string;
+    inputSchema: { properties: Record<string, unknown> };
+    annotations?: Record<string, unknown>;
+  }>;
   content?: Array<{ text: string }>;
+  isError?: boolean;
 };
 type RequestHandler = (request: MockRequest) => Promise<MockResponse>;
 
@@ -66,8 +71,14 @@ describe('runServe', () => {
     listRepos?: ReturnType<typeof vi.fn>;
     getRepoByName?: ReturnType<typeof vi.fn>;
     getStats?: ReturnType<typeof vi.fn>;
+    getListsForRepo?: ReturnType<typeof vi.fn>;
+    getAnnotation?: ReturnType<typeof vi.fn>;
+    annotateRepo?: ReturnType<typeof vi.fn>;
     runSync?: ReturnType<typeof vi.fn>;
+    starRepos?: ReturnType<typeof vi.fn>;
+    unstarRepos?: ReturnType<typeof vi.fn>;
     resolveStarredTimeRange?: ReturnType<typeof vi.fn>;
+    getCollectionStats?: ReturnType<typeof vi.fn>;
   } = {}) {
     vi.doMock('../src/lib/search.js', () => ({
       hybridSearch: mocks.hybridSearch ?? vi.fn(),
@@ -76,6 +87,22 @@ describe('runServe', () => {
       listRepos: mocks.listRepos ?? vi.fn(),
       getRepoByName: mocks.getRepoByName ?? vi.fn(),
       getStats: mocks.getStats ?? vi.fn().mockResolvedValue({ count: 42, lastSync: null }),
+      hasRepoFilters: (filters: Record<string, unknown>) => Object.values(filters).some(Boolean),
+    }));
+    vi.doMock('../src/lib/stats.js', () => ({
+      getCollectionStats: mocks.getCollectionStats ?? vi.fn(),
+    }));
+    vi.doMock('../src/lib/lists.js', () => ({
+      getListsForRepo: mocks.getListsForRepo ?? vi.fn().mockResolvedValue([]),
+    }));
+    vi.doMock('../src/lib/annotations.js', async () => ({
+      normalizeTag: (await vi.importActual<typeof import('../src/lib/annotations.js')>('../src/lib/annotations.js'))
+        .normalizeTag,
+      getAnnotation: mocks.getAnnotation ?? vi.fn().mockResolvedValue(null),
+    }));
+    vi.doMock('../src/commands/annotate.js', () => ({
+      annotateRepo: mocks.annotateRepo ?? vi.fn(),
+      findStoredRepo: vi.fn(async (fullName: string) => ({ full_name: fullName })),
     }));
     vi.doMock('../src/lib/time.js', () => ({
       resolveStarredTimeRange: mocks.resolveStarredTimeRange ?? vi.fn().mockReturnValue({}),
@@ -83,6 +110,12 @@ describe('runServe', () => {
     vi.doMock('../src/commands/sync.js', () => ({
       runSync: mocks.runSync ?? vi.fn(),
     }));
+    vi.doMock('../src/commands/star.js', async () => ({
+      parseRepoFullName: (await vi.importActual<typeof import('../src/commands/star.js')>('../src/commands/star.js'))
+        .parseRepoFullName,
+      starRepos: mocks.starRepos ?? vi.fn(),
+      unstarRepos: mocks.unstarRepos ?? vi.fn(),
+    }));
     vi.doMock('../src/lib/version.js', () => ({
       VERSION: '9.9.9-test',
     }));
@@ -149,7 +182,10 @@ describe('runServe', () => {
     const listResult = await callToolHandler({
       params: {
         name: 'list_stars',
-        arguments: { topic: 'cli', limit: 3, since: '2026-01-01' },
+        arguments: {
+          topic: 'cli', limit: 3, since: '2026-01-01', exclude_archived: true, exclude_forks: true,
+          license: 'mit', owner: 'octo',
+        },
       },
     });
 
@@ -164,6 +200,10 @@ describe('runServe', () => {
       topic: 'cli',
       starredAfter: '2026-01-01T00:00:00.000Z',
       starredBefore: undefined,
+      excludeArchived: true,
+      excludeForks: true,
+      license: 'mit',
+      owner: 'octo',
       limit: 3,
     });
     expect(resolveStarredTimeRange).toHaveBeenCalledWith({ since: '2026-01-01', until: undefined, days: undefined });
@@ -171,14 +211,59 @@ describe('runServe', () => {
     expect(JSON.parse(listResult.content![0].text)[0]).toMatchObject({ full_name: 'user/repo' });
   });
 
+  it('passes the unstarred filters through and rejects both at once', async () => {
+    const listRepos = vi.fn().mockResolvedValue([]);
+    const { callToolHandler } = await startServer({ listRepos });
+
+    await callToolHandler({ params: { name: 'list_stars', arguments: { only_unstarred: true } } });
+    await callToolHandler({ params: { name: 'list_stars', arguments: { include_unstarred: true } } });
+    await expect(callToolHandler({
+      params: { name: 'list_stars', arguments: { include_unstarred: true, only_unstarred: true } },
+    })).rejects.toThrow('not both');
+
+    expect(listRepos).toHaveBeenNthCalledWith(1, expect.objectContaining({ unstarred: 'only' }));
+    expect(listRepos).toHaveBeenNthCalledWith(2, expect.objectContaining({ unstarred: 'include' }));
+    expect(listRepos).toHaveBeenCalledTimes(2);
+  });
+
+  it('runs tool calls inside the requested user\'s collection', async () => {
+    const seenUsers: Array<string | null> = [];
+    const { getCollectionUser } = await import('../src/lib/config.js');
+    const listRepos = vi.fn(async () => {
+      const { getCollectionUser: current } = await import('../src/lib/config.js');
+      seenUsers.push(current());
+      return [sampleRepo];
+    });
+    const { callToolHandler, listToolsHandler } = await startServer({ listRepos });
+
+    const listed = await listToolsHandler({ params: {} });
+    // Starring always acts on the signed-in user, so those tools take no user.
+    for (const tool of (listed.tools ?? []).filter((tool) => !tool.name.endsWith('star_repos'))) {
+      expect(tool.inputSchema.properties.user).toBeDefined();
+    }
+
+    await callToolHandler({ params: { name: 'list_stars', arguments: { user: 'Torvalds' } } });
+    await callToolHandler({ params: { name: 'list_stars', arguments: {} } });
+
+    expect(seenUsers).toEqual(['torvalds', null]);
+    expect(getCollectionUser()).toBeNull();
+    await expect(callToolHandler({
+      params: { name: 'list_stars', arguments: { user: 'not a login' } },
+    })).rejects.toMatchObject({ code: 'InvalidParams', message: 'Invalid GitHub login: "not a login".' });
+  });
+
   it('returns repository info and starred resources', async () => {
     const getRepoByName = vi.fn().mockResolvedValue(sampleRepo);
     const listRepos = vi.fn().mockResolvedValue([sampleRepo]);
     const getStats = vi.fn().mockResolvedValue({ count: 1, lastSync: '2026-01-03T00:00:00Z' });
+    const getListsForRepo = vi.fn().mockResolvedValue(['evaluate']);
+    const getAnnotation = vi.fn().mockResolvedValue({ tags: ['evaluated'], note: 'Good docs' });
     const { callToolHandler, listResourcesHandler, readResourceHandler } = await startServer({
       getRepoByName,
       listRepos,
       getStats,
+      getListsForRepo,
+      getAnnotation,
     });
 
     const infoResult = await callToolHandler({
@@ -188,9 +273,73 @@ describe('runServe', () => {
     const allStars = await readResourceHandler({ params: { uri: 'starepo://stars' } });
     const oneStar = await readResourceHandler({ params: { uri: 'starepo://stars/user/repo' } });
 
-    expect(JSON.parse(infoResult.content![0].text)).toMatchObject({ full_name: 'user/repo' });
+    expect(JSON.parse(infoResult.content![0].text)).toMatchObject({
+      full_name: 'user/repo',
+      lists: ['evaluate'],
+      tags: ['evaluated'],
+      note: 'Good docs',
+    });
     expect(resources.resources?.[0]).toMatchObject({ uri: 'starepo://stars' });
     expect(JSON.parse(allStars.contents![0].text)).toMatchObject({ stats: { count: 1 } });
     expect(JSON.parse(oneStar.contents![0].text)).toMatchObject({ full_name: 'user/repo' });
   });
+
+  it('serves collection statistics as a resource', async () => {
+    const stats = { total: 2, languages: [{ name: 'Rust', count: 2 }] };
+    const getCollectionStats = vi.fn().mockResolvedValue(stats);
+    const { listResourcesHandler, readResourceHandler } = await startServer({ getCollectionStats });
+
+    const resources = await listResourcesHandler({ params: {} });
+    const result = await readResourceHandler({ params: { uri: 'starepo://stats' } });
+
+    expect(resources.resources?.map((resource) => resource.uri)).toContain('starepo://stats');
+    expect(result.contents![0]).toMatchObject({ uri: 'starepo://stats', mimeType: 'application/json' });
+    expect(JSON.parse(result.contents![0].text)).toEqual(stats);
+  });
+
+  it('stars and unstars repositories with confirmation-friendly annotations', async () => {
+    const starRepos = vi.fn().mockResolvedValue([{ fullName: 'vercel/next.js', ok: true }]);
+    const unstarRepos = vi.fn().mockResolvedValue([{ fullName: 'user/gone', ok: false, error: 'HTTP 404' }]);
+    const { listToolsHandler, callToolHandler } = await startServer({ starRepos, unstarRepos });
+
+    const listed = await listToolsHandler({ params: {} });
+    const starTool = listed.tools?.find((tool) => tool.name === 'star_repos');
+    const unstarTool = listed.tools?.find((tool) => tool.name === 'unstar_repos');
+    expect(starTool?.annotations).toMatchObject({ readOnlyHint: false, destructiveHint: false });
+    expect(unstarTool?.annotations).toMatchObject({ readOnlyHint: false, destructiveHint: true });
+
+    const starred = await callToolHandler({
+      params: { name: 'star_repos', arguments: { repos: ['https://github.com/vercel/next.js', 'vercel/next.js'] } },
+    });
+    const unstarred = await callToolHandler({
+      params: { name: 'unstar_repos', arguments: { repos: ['user/gone'] } },
+    });
+
+    expect(starRepos).toHaveBeenCalledWith(['vercel/next.js']);
+    expect(starred.isError).toBe(false);
+    expect(unstarred.isError).toBe(true);
+    expect(JSON.parse(unstarred.content![0].text)).toEqual([{ fullName: 'user/gone', ok: false, error: 'HTTP 404' }]);
+    await expect(callToolHandler({
+      params: { name: 'star_repos', arguments: { repos: [] } },
+    })).rejects.toMatchObject({ code: 'InvalidParams' });
+  });
+
+  it('annotates a star and validates tags', async () => {
+    const annotateRepo = vi.fn().mockResolvedValue({ full_name: 'user/repo', tags: ['evaluated'], note: 'Keep' });
+    const { listToolsHandler, callToolHandler } = await startServer({ annotateRepo });
+
+    const listed = await listToolsHandler({ params: {} });
+    const tool = listed.tools?.find((candidate) => candidate.name === 'annotate_star');
+    expect(tool?.annotations).toMatchObject({ readOnlyHint: false, destructiveHint: false, openWorldHint: false });
+
+    const result = await callToolHandler({
+      params: { name: 'annotate_star', arguments: { full_name: 'user/repo', add_tags: ['Evaluated'], note: 'Keep' } },
+    });
+
+    expect(annotateRepo).toHaveBeenCalledWith({ full_name: 'user/repo' }, { addTags: ['evaluated'], removeTags: undefined, note: 'Keep' });
+    expect(JSON.parse(result.content![0].text)).toMatchObject({ tags: ['evaluated'] });
+    await expect(callToolHandler({
+      params: { name: 'annotate_star', arguments: { full_name: 'user/repo', add_tags: ['not a tag'] } },
+    })).rejects.toMatchObject({ code: 'InvalidParams' });
+  });
 });
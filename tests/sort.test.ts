@@ -57,6 +57,25 @@ describe('parseListOptions', () => {
     expect(() => parseListOptions({ limit: '10', sort: 'name' })).toThrow('Invalid --sort value');
     expect(() => parseListOptions({ limit: '10', order: 'sideways' })).toThrow('Invalid --order value');
   });
+
+  it('maps repository attribute filters, treating commander\'s default archived=true as no filter', () => {
+    expect(parseListOptions({ limit: '10', archived: true })).toMatchObject({
+      excludeArchived: undefined,
+      excludeForks: undefined,
+    });
+    expect(parseListOptions({
+      limit: '10',
+      archived: false,
+      excludeForks: true,
+      license: 'MIT',
+      owner: 'octo',
+    })).toMatchObject({
+      excludeArchived: true,
+      excludeForks: true,
+      license: 'MIT',
+      owner: 'octo',
+    });
+  });
 });
 
 describe('sortRepos', () => {
@@ -73,6 +92,12 @@ describe('sortRepos', () => {
     expect(sortRepos(repos, 'updated', 'desc').map(r => r.full_name)).toEqual(['user/low', 'user/mid', 'user/high']);
   });
 
+  it('sorts by stars gained, treating repos without history as 0', () => {
+    const growth = new Map([['user/low', 40], ['user/high', 5]]);
+    expect(sortRepos(repos, 'growth', 'desc', growth).map(r => r.full_name)).toEqual(['user/low', 'user/high', 'user/mid']);
+    expect(parseListOptions({ limit: '10', sort: 'growth', growthDays: '7' })).toMatchObject({ sort: 'growth', growthDays: 7 });
+  });
+
   it('preserves order for relevance sorting', () => {
     expect(sortRepos(repos, 'relevance', 'desc')).toBe(repos);
   });
@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { RepoInput } from '../src/lib/storage.js';
+
+let tmpDir: string;
+
+function makeRepo(fullName: string, language: string, stars: number): RepoInput {
+  return {
+    id: Math.floor(Math.random() * 1_000_000),
+    full_name: fullName,
+    name: fullName.split('/')[1],
+    description: 'A repo',
+    html_url: `https://github.com/${fullName}`,
+    homepage: '',
+    language,
+    topics: [],
+    stars_count: stars,
+    forks_count: 0,
+    starred_at: '2026-01-01T00:00:00Z',
+    updated_at: '',
+  };
+}
+
+function counts(fullName: string, stars: number, forks = 0) {
+  return { full_name: fullName, stars_count: stars, forks_count: forks };
+}
+
+function daysAgo(days: number): Date {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+}
+
+beforeEach(() => {
+  tmpDir = mkdtempSync(join(tmpdir(), 'starepo-star-history-test-'));
+  process.env.XDG_DATA_HOME = join(tmpDir, 'data');
+  process.env.XDG_CONFIG_HOME = join(tmpDir, 'config');
+  vi.resetModules();
+});
+
+afterEach(() => {
+  rmSync(tmpDir, { recursive: true, force: true });
+  delete process.env.XDG_DATA_HOME;
+  delete process.env.XDG_CONFIG_HOME;
+  vi.restoreAllMocks();
+});
+
+describe('recordStarCounts / getStarHistory', () => {
+  it('keeps one sample per day and skips unchanged counts', async () => {
+    const { recordStarCounts, getStarHistory } = await import('../src/lib/star-history.js');
+    const day1 = new Date('2026-05-01T08:00:00Z');
+
+    expect(await recordStarCounts([counts('a/one', 10)], day1)).toBe(1);
+    expect(await recordStarCounts([counts('a/one', 12)], new Date('2026-05-01T20:00:00Z'))).toBe(1);
+    expect(await recordStarCounts([counts('a/one', 12)], new Date('2026-05-02T08:00:00Z'))).toBe(0);
+    expect(await recordStarCounts([counts('a/one', 12, 3)], new Date('2026-05-03T08:00:00Z'))).toBe(1);
+
+    expect(await getStarHistory('a/one')).toEqual([
+      { full_name: 'a/one', day: '2026-05-01', stars_count: 12, forks_count: 0 },
+      { full_name: 'a/one', day: '2026-05-03', stars_count: 12, forks_count: 3 },
+    ]);
+  });
+});
+
+describe('getStarGrowth', () => {
+  it('measures growth from the last sample before the window, or the first one inside it', async () => {
+    const { recordStarCounts, getStarGrowth } = await import('../src/lib/star-history.js');
+    await recordStarCounts([counts('a/old', 100), counts('b/flat', 50)], daysAgo(60));
+    await recordStarCounts([counts('a/old', 150)], daysAgo(40));
+    await recordStarCounts([counts('a/old', 180), counts('c/new', 0)], daysAgo(10));
+    await recordStarCounts([counts('c/new', 20)], daysAgo(1));
+
+    const growth = await getStarGrowth(30);
+
+    expect(growth.get('a/old')).toMatchObject({ stars_before: 150, stars_now: 180, stars_gained: 30, growth: 0.2 });
+    expect(growth.get('b/flat')).toMatchObject({ stars_gained: 0, growth: 0 });
+    expect(growth.get('c/new')).toMatchObject({ stars_before: 0, stars_gained: 20, growth: null });
+    expect((await getStarGrowth(30, { fullNames: ['b/flat'] })).size).toBe(1);
+  });
+});
+
+describe('sparkline', () => {
+  it('scales values between the series min and max', async () => {
+    const { sparkline } = await import('../src/lib/star-history.js');
+
+    expect(sparkline([0, 7, 14])).toBe('▁▅█');
+    expect(sparkline([5, 5])).toBe('▁▁');
+    expect(sparkline([1, 2, 3, 4], 2)).toBe('▁█');
+    expect(sparkline([])).toBe('');
+  });
+});
+
+describe('getTrendingStars', () => {
+  it('ranks current stars matching the filters by stars gained or relative growth', async () => {
+    const { upsertRepos } = await import('../src/lib/storage.js');
+    const { recordStarCounts } = await import('../src/lib/star-history.js');
+    await upsertRepos([makeRepo('go/big', 'Go', 1100), makeRepo('go/small', 'Go', 20), makeRepo('rs/crate', 'Rust', 500)]);
+    await recordStarCounts([counts('go/big', 1000), counts('go/small', 10), counts('rs/crate', 100), counts('gone/repo', 1)], daysAgo(20));
+    await recordStarCounts([counts('go/big', 1100), counts('go/small', 20), counts('rs/crate', 500), counts('gone/repo', 900)], daysAgo(1));
+
+    const { getTrendingStars } = await import('../src/commands/trending.js');
+
+    expect((await getTrendingStars({})).map((entry) => entry.full_name)).toEqual(['rs/crate', 'go/big', 'go/small']);
+    expect((await getTrendingStars({ language: 'Go' }, 30, { relative: true })).map((entry) => entry.full_name))
+      .toEqual(['go/small', 'go/big']);
+    expect(await getTrendingStars({}, 30, { limit: 1 })).toHaveLength(1);
+  });
+});
@@ -0,0 +1,194 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { RepoInput } from '../src/lib/storage.js';
+
+function makeRepo(fullName: string): RepoInput {
+  return {
+    id: 1,
+    full_name: fullName,
+    name: fullName.split('/')[1],
+    description: 'A repo',
+    html_url: `https://github.com/${fullName}`,
+    homepage: '',
+    language: 'Rust',
+    topics: ['cli'],
+    stars_count: 1,
+    forks_count: 0,
+    starred_at: '2026-03-01T00:00:00Z',
+    updated_at: '',
+  };
+}
+
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = mkdtempSync(join(tmpdir(), 'starepo-star-test-'));
+  process.env.XDG_DATA_HOME = join(tmpDir, 'data');
+  process.env.XDG_CONFIG_HOME = join(tmpDir, 'config');
+  vi.resetModules();
+  vi.restoreAllMocks();
+});
+
+afterEach(() => {
+  rmSync(tmpDir, { recursive: true, force: true });
+  delete process.env.XDG_DATA_HOME;
+  delete process.env.XDG_CONFIG_HOME;
+});
+
+function mockDeps(overrides: {
+  fetchRepository?: ReturnType<typeof vi.fn>;
+  starRepository?: ReturnType<typeof vi.fn>;
+  unstarRepository?: ReturnType<typeof vi.fn>;
+  generateEmbedding?: ReturnType<typeof vi.fn>;
+  readStdin?: ReturnType<typeof vi.fn>;
+  localNames?: string[];
+  storedRepos?: Array<RepoInput & { has_embedding?: boolean; unstarred_at?: string }>;
+  annotations?: Map<string, { tags: string[]; note: string }>;
+} = {}) {
+  const upsertRepos = vi.fn();
+  const retireRepos = vi.fn();
+  vi.doMock('../src/commands/auth.js', () => ({
+    ensureAuth: vi.fn().mockResolvedValue('token'),
+  }));
+  vi.doMock('../src/lib/stdin.js', () => ({
+    readStdin: overrides.readStdin ?? vi.fn(),
+  }));
+  vi.doMock('../src/lib/github.js', () => ({
+    createOctokit: vi.fn().mockReturnValue({}),
+    fetchRepository: overrides.fetchRepository ?? vi.fn(async (_octokit: unknown, name: string) => makeRepo(name)),
+    starRepository: overrides.starRepository ?? vi.fn(),
+    unstarRepository: overrides.unstarRepository ?? vi.fn(),
+  }));
+  vi.doMock('../src/lib/storage.js', () => ({
+    upsertRepos,
+    retireRepos,
+    listRepoFullNames: vi.fn().mockResolvedValue(overrides.localNames ?? []),
+    getRepoByName: vi.fn(async (name: string) =>
+      overrides.storedRepos?.find((repo) => repo.full_name === name) ?? null),
+  }));
+  vi.doMock('../src/lib/annotations.js', () => ({
+    getAnnotations: vi.fn().mockResolvedValue(overrides.annotations ?? new Map()),
+  }));
+  vi.doMock('../src/lib/embeddings.js', () => ({
+    generateEmbedding: overrides.generateEmbedding ?? vi.fn().mockResolvedValue(new Array(1024).fill(0.1)),
+    repoToText: (repo: { full_name: string }, annotation?: { tags: string[] } | null) =>
+      [repo.full_name, ...(annotation?.tags ?? [])].join(' '),
+  }));
+  return { upsertRepos, retireRepos };
+}
+
+describe('parseRepoFullName / parseRepoList', () => {
+  it('accepts owner/repo and repository URLs and rejects anything else', async () => {
+    const { parseRepoFullName, parseRepoList } = await import('../src/commands/star.js');
+
+    expect(parseRepoFullName('vercel/next.js')).toBe('vercel/next.js');
+    expect(parseRepoFullName('https://github.com/vercel/next.js/')).toBe('vercel/next.js');
+    expect(parseRepoFullName('https://ghe.example.com/team/tool.git')).toBe('team/tool');
+    expect(() => parseRepoFullName('just-a-name')).toThrow('Invalid repository "just-a-name". Use owner/repo.');
+    expect(parseRepoList('# to try\na/one, b/two\n\nhttps://github.com/c/three#readme  # later\n'))
+      .toEqual(['a/one', 'b/two', 'c/three']);
+  });
+});
+
+describe('starRepos', () => {
+  it('stars each repo, stores the successful ones with vectors and reports failures', async () => {
+    const starRepository = vi.fn(async (_octokit: unknown, name: string) => {
+      if (name === 'b/private') throw new Error('GitHub refused to star b/private (HTTP 404).');
+    });
+    const { upsertRepos } = mockDeps({ starRepository });
+
+    const { starRepos } = await import('../src/commands/star.js');
+    const results = await starRepos(['a/one', 'b/private']);
+
+    expect(results).toEqual([
+      { fullName: 'a/one', ok: true },
+      { fullName: 'b/private', ok: false, error: 'GitHub refused to star b/private (HTTP 404).' },
+    ]);
+    expect(upsertRepos).toHaveBeenCalledTimes(1);
+    const [stored] = upsertRepos.mock.calls[0][0] as RepoInput[];
+    expect(stored.full_name).toBe('a/one');
+    expect(stored.vector).toHaveLength(1024);
+  });
+
+  it('keeps the star without a vector when the embedding model is unavailable', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { upsertRepos } = mockDeps({ generateEmbedding: vi.fn().mockRejectedValue(new Error('offline')) });
+
+    const { starRepos } = await import('../src/commands/star.js');
+    await starRepos(['a/one']);
+
+    expect((upsertRepos.mock.calls[0][0] as RepoInput[])[0].vector).toBeUndefined();
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Run `starepo embed` later'));
+  });
+
+  it('keeps the star date and vector of repos that are already starred and embeds new ones with their tags', async () => {
+    const generateEmbedding = vi.fn().mockResolvedValue(new Array(1024).fill(0.2));
+    const { upsertRepos } = mockDeps({
+      generateEmbedding,
+      storedRepos: [{ ...makeRepo('a/old'), starred_at: '2020-05-01T00:00:00Z', has_embedding: true, unstarred_at: '' }],
+      annotations: new Map([['b/new', { tags: ['later'], note: '' }]]),
+    });
+
+    const { starRepos } = await import('../src/commands/star.js');
+    await starRepos(['a/old', 'b/new']);
+
+    const stored = new Map((upsertRepos.mock.calls[0][0] as RepoInput[]).map((repo) => [repo.full_name, repo]));
+    expect(stored.get('a/old')!.starred_at).toBe('2020-05-01T00:00:00Z');
+    expect(stored.get('a/old')!.vector).toBeUndefined();
+    expect(stored.get('b/new')!.vector).toHaveLength(1024);
+    expect(generateEmbedding).toHaveBeenCalledTimes(1);
+    expect(generateEmbedding).toHaveBeenCalledWith('b/new later');
+  });
+});
+
+describe('unstarRepos', () => {
+  it('unstars using the locally stored casing and deletes only the unstarred rows', async () => {
+    const unstarRepository = vi.fn(async (_octokit: unknown, name: string) => {
+      if (name === 'c/fails') throw new Error('boom');
+    });
+    const { retireRepos } = mockDeps({ unstarRepository, localNames: ['Facebook/React'] });
+
+    const { unstarRepos } = await import('../src/commands/star.js');
+    const results = await unstarRepos(['facebook/react', 'c/fails']);
+
+    expect(unstarRepository).toHaveBeenCalledWith({}, 'Facebook/React');
+    expect(results.map((result) => result.ok)).toEqual([true, false]);
+    expect(retireRepos).toHaveBeenCalledWith(['Facebook/React']);
+  });
+});
+
+describe('runStar / runUnstar', () => {
+  it('merges positional names with a file, deduplicates them and counts the failures', async () => {
+    const listFile = join(tmpDir, 'repos.txt');
+    writeFileSync(listFile, 'a/one\nb/two\n');
+    const starRepository = vi.fn(async (_octokit: unknown, name: string) => {
+      if (name === 'b/two') throw new Error('nope');
+    });
+    mockDeps({ starRepository });
+    const logs: string[] = [];
+    vi.spyOn(console, 'log').mockImplementation((message?: string) => { logs.push(String(message ?? '')); });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { runStar } = await import('../src/commands/star.js');
+    expect(await runStar(['a/one'], { file: listFile, noEmbeddings: true })).toBe(1);
+
+    expect(starRepository).toHaveBeenCalledTimes(2);
+    expect(logs).toContain('Starred a/one');
+    expect(logs).toContain('\nStarred 1 of 2 repositories.');
+    expect(console.error).toHaveBeenCalledWith('Failed: b/two: nope');
+  });
+
+  it('reads names from stdin and requires at least one repository', async () => {
+    const readStdin = vi.fn().mockResolvedValue('x/y\n');
+    const unstarRepository = vi.fn();
+    mockDeps({ readStdin, unstarRepository });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    const { runUnstar } = await import('../src/commands/star.js');
+    expect(await runUnstar([], { file: '-' })).toBe(0);
+
+    expect(unstarRepository).toHaveBeenCalledWith({}, 'x/y');
+    await expect(runUnstar([])).rejects.toThrow('No repositories given.');
+  });
+});
@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { RepoInput } from '../src/lib/storage.js';
+
+let tmpDir: string;
+
+function makeRepo(fullName: string, language: string, topics: string[], starredAt: string, vector?: number[]): RepoInput {
+  return {
+    id: Math.floor(Math.random() * 1_000_000),
+    full_name: fullName,
+    name: fullName.split('/')[1],
+    description: 'A repo',
+    html_url: `https://github.com/${fullName}`,
+    homepage: '',
+    language,
+    topics,
+    stars_count: 1,
+    forks_count: 0,
+    starred_at: starredAt,
+    updated_at: '',
+    vector,
+  };
+}
+
+beforeEach(() => {
+  tmpDir = mkdtempSync(join(tmpdir(), 'starepo-stats-test-'));
+  process.env.XDG_DATA_HOME = join(tmpDir, 'data');
+  process.env.XDG_CONFIG_HOME = join(tmpDir, 'config');
+  vi.resetModules();
+});
+
+afterEach(() => {
+  rmSync(tmpDir, { recursive: true, force: true });
+  delete process.env.XDG_DATA_HOME;
+  delete process.env.XDG_CONFIG_HOME;
+  vi.restoreAllMocks();
+});
+
+describe('getCollectionStats', () => {
+  it('breaks the collection down by language, topic, owner and star date', async () => {
+    const { upsertRepos } = await import('../src/lib/storage.js');
+    const { setEmbeddingMetadata } = await import('../src/lib/embeddings.js');
+    const { getCollectionStats } = await import('../src/lib/stats.js');
+    await upsertRepos([
+      makeRepo('rust-lang/cargo', 'Rust', ['cli', 'rust'], '2025-11-02T00:00:00Z', new Array(1024).fill(0.1)),
+      makeRepo('rust-lang/rustfmt', 'Rust', ['rust'], '2026-01-15T00:00:00Z'),
+      makeRepo('vercel/next.js', 'TypeScript', ['react'], '2026-01-20T00:00:00Z'),
+      makeRepo('someone/notes', '', [], '2026-02-01T00:00:00Z'),
+    ]);
+    setEmbeddingMetadata();
+
+    const stats = await getCollectionStats(2);
+
+    expect(stats.total).toBe(4);
+    expect(stats.languages).toEqual([{ name: 'Rust', count: 2 }, { name: 'TypeScript', count: 1 }]);
+    expect(stats.topics).toEqual([{ name: 'rust', count: 2 }, { name: 'cli', count: 1 }]);
+    expect(stats.owners).toEqual([{ name: 'rust-lang', count: 2 }, { name: 'someone', count: 1 }]);
+    expect(stats.distinct).toEqual({ languages: 3, topics: 3, owners: 3 });
+    expect(stats.starred_by_year).toEqual([{ name: '2025', count: 1 }, { name: '2026', count: 3 }]);
+    expect(stats.starred_by_month).toEqual([
+      { name: '2025-11', count: 1 },
+      { name: '2026-01', count: 2 },
+      { name: '2026-02', count: 1 },
+    ]);
+    expect(stats.embeddings).toMatchObject({ embedded: 1, missing: 3, coverage: 0.25, current: true });
+    expect(stats.db_size_bytes).toBeGreaterThan(0);
+  });
+
+  it('reports an empty collection', async () => {
+    const { getCollectionStats } = await import('../src/lib/stats.js');
+
+    const stats = await getCollectionStats();
+
+    expect(stats).toMatchObject({ total: 0, languages: [], starred_by_year: [], last_sync: null });
+    expect(stats.embeddings).toMatchObject({ embedded: 0, coverage: 0, model: null, current: false });
+  });
+});
@@ -1,7 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { mkdtempSync, rmSync } from 'fs';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
 import { tmpdir } from 'os';
-import { join } from 'path';
+import { dirname, join } from 'path';
 import type { RepoInput } from '../src/lib/storage.js';
 
 let tmpDir: string;
@@ -214,6 +214,100 @@ describe('storage: listRepos', () => {
     });
     expect(repos.length).toBe(2);
   });
+
+  it('filters by archived, fork, license and owner', async () => {
+    const { upsertRepos, listRepos } = await import('../src/lib/storage.js');
+    await upsertRepos([
+      makeRepo({ id: 4, full_name: 'octo/old', archived: true, license: 'MIT', owner_login: 'Octo' }),
+      makeRepo({ id: 5, full_name: 'octo/copy', fork: true, license: 'Apache-2.0', owner_login: 'Octo' }),
+    ]);
+
+    const names = async (filters: Parameters<typeof listRepos>[0]) =>
+      (await listRepos(filters)).map(repo => repo.full_name).sort();
+
+    expect(await names({ excludeArchived: true })).not.toContain('octo/old');
+    expect(await names({ excludeForks: true })).not.toContain('octo/copy');
+    expect(await names({ license: 'mit' })).toEqual(['octo/old']);
+    expect(await names({ owner: '@octo' })).toEqual(['octo/copy', 'octo/old']);
+    expect(await names({ owner: 'b' })).toEqual(['b/py-tool']);
+  });
+
+  it('orders and limits in the query without reading vectors', async () => {
+    const { upsertRepos, listRepos } = await import('../src/lib/storage.js');
+    await upsertRepos([
+      makeRepo({
+        id: 4, full_name: 'd/popular', stars_count: 900, forks_count: 1,
+        starred_at: '2026-02-01T00:00:00Z', vector: new Array(1024).fill(0.1),
+      }),
+      makeRepo({ id: 5, full_name: 'e/quiet', language: 'Go', stars_count: 5, forks_count: 50, starred_at: '2026-02-02T00:00:00Z' }),
+    ]);
+    const names = async (options: Parameters<typeof listRepos>[0]) =>
+      (await listRepos(options)).map(repo => repo.full_name);
+
+    const top = await listRepos({ orderBy: 'stars_count', descending: true, limit: 1 });
+    expect(top.map(repo => repo.full_name)).toEqual(['d/popular']);
+    expect(top[0].vector).toBeUndefined();
+    expect(await names({ orderBy: 'forks_count', descending: true, language: 'go', limit: 2 }))
+      .toEqual(['e/quiet', 'c/go-svc']);
+    expect(await names({ orderBy: 'starred_at_ts', limit: 2 })).toEqual(['a/ts-lib', 'b/py-tool']);
+    expect(await names({ orderBy: 'score', descending: true, scores: new Map([['b/py-tool', 3]]), limit: 1 }))
+      .toEqual(['b/py-tool']);
+  });
+});
+
+describe('storage: applyRepoMetadata', () => {
+  it('rewrites only changed rows and keeps vectors and starred_at', async () => {
+    const { upsertRepos, updateEmbedding, applyRepoMetadata, getRepoByName } = await import('../src/lib/storage.js');
+    await upsertRepos([
+      makeRepo({ id: 1, full_name: 'x/changed', stars_count: 10, starred_at: '2025-05-05T00:00:00Z' }),
+      makeRepo({ id: 2, full_name: 'x/same', stars_count: 20 }),
+    ]);
+    await updateEmbedding('x/changed', new Array(1024).fill(0.2));
+
+    const changed = await applyRepoMetadata([
+      {
+        full_name: 'x/changed',
+        description: 'New description',
+        homepage: '',
+        language: 'TypeScript',
+        topics: ['testing', 'vitest', 'new'],
+        stars_count: 42,
+        forks_count: 10,
+        updated_at: '2026-02-01T00:00:00Z',
+      },
+      {
+        full_name: 'x/same',
+        description: 'A test repo',
+        homepage: '',
+        language: 'TypeScript',
+        topics: ['testing', 'vitest'],
+        stars_count: 20,
+        forks_count: 10,
+        updated_at: '2026-01-01T00:00:00Z',
+      },
+      {
+        full_name: 'x/unknown',
+        description: '',
+        homepage: '',
+        language: '',
+        topics: [],
+        stars_count: 1,
+        forks_count: 0,
+        updated_at: '',
+      },
+    ]);
+
+    const found = await getRepoByName('x/changed');
+    const vector = Array.from(found!.vector as unknown as ArrayLike<number>);
+    expect(changed).toBe(1);
+    expect(found!.stars_count).toBe(42);
+    expect(found!.description).toBe('New description');
+    expect(found!.topics_key).toContain('|bmV3|');
+    expect(found!.starred_at).toBe('2025-05-05T00:00:00Z');
+    expect(found!.has_embedding).toBe(true);
+    expect(vector[0]).toBeCloseTo(0.2);
+    expect(await getRepoByName('x/unknown')).toBeNull();
+  });
 });
 
 describe('storage: getStats', () => {
@@ -312,12 +406,67 @@ describe('storage: schema migrations', () => {
 
     await getTable();
 
-    expect(getMeta('schema_version')).toBe('5');
+    expect(getMeta('schema_version')).toBe('8');
+  });
+
+  it('derives language_key for tables from before v8', async () => {
+    const storage = await import('../src/lib/storage.js');
+    await storage.upsertRepos([makeRepo({ id: 1, full_name: 'a/ts', language: 'TypeScript' })]);
+    await (await storage.getTable()).dropColumns(['language_key']);
+    (await import('../src/lib/config.js')).setMeta('schema_version', '7');
+
+    vi.resetModules();
+    const { listRepos } = await import('../src/lib/storage.js');
+    const { getMeta } = await import('../src/lib/config.js');
+
+    expect((await listRepos({ language: 'typescript' })).map((repo) => repo.full_name)).toEqual(['a/ts']);
+    expect(getMeta('schema_version')).toBe('8');
+  });
+});
+
+describe('storage: search indexes', () => {
+  function embeddedRepos(count: number, offset = 0): RepoInput[] {
+    return Array.from({ length: count }, (_, i) => makeRepo({
+      id: offset + i,
+      full_name: `owner/repo-${offset + i}`,
+      language: i % 2 ? 'Rust' : 'Go',
+      vector: Array.from({ length: 1024 }, (_, d) => Math.sin((offset + i + 1) * (d + 1))),
+    }));
+  }
+
+  it('builds scalar indexes, adds the vector index past the threshold and folds in new rows', async () => {
+    const { upsertRepos, updateRepoIndexes, missingRepoIndexes, getTable, searchVector, listRepos } =
+      await import('../src/lib/storage.js');
+    await upsertRepos(embeddedRepos(300));
+
+    expect(await missingRepoIndexes({ vectorMinRows: 500 })).not.toContain('vector');
+    const first = await updateRepoIndexes({ vectorMinRows: 500 });
+    expect(first.created).toEqual(expect.arrayContaining(['language_key', 'starred_at_ts', 'stars_count', 'description']));
+    expect(first.optimized).toBe(false);
+
+    const second = await updateRepoIndexes({ vectorMinRows: 200 });
+    expect(second).toEqual({ created: ['vector'], optimized: true });
+    expect(await missingRepoIndexes({ vectorMinRows: 200 })).toEqual([]);
+
+    await upsertRepos(embeddedRepos(10, 300));
+    expect(await updateRepoIndexes({ vectorMinRows: 200 })).toEqual({ created: [], optimized: true });
+    const vectorIndex = (await (await getTable()).listIndices()).find((index) => index.columns.includes('vector'))!;
+    expect((await (await getTable()).indexStats(vectorIndex.name))?.numUnindexedRows).toBe(0);
+
+    const [nearest] = await searchVector(embeddedRepos(1, 305)[0].vector!, 1);
+    expect(nearest.full_name).toBe('owner/repo-305');
+    expect(await listRepos({ language: 'rust' })).toHaveLength(155);
+  });
+
+  it('builds nothing for an empty collection', async () => {
+    const { updateRepoIndexes } = await import('../src/lib/storage.js');
+
+    expect(await updateRepoIndexes({ vectorMinRows: 0 })).toEqual({ created: [], optimized: false });
   });
 });
 
 describe('storage: deleteReposMissingFromFullNames', () => {
-  it('deletes stale repos and returns the number removed', async () => {
+  it('retires stale repos and returns their names', async () => {
     const { upsertRepos, deleteReposMissingFromFullNames, getRepoByName, getStats } = await import('../src/lib/storage.js');
     await upsertRepos([
       makeRepo({ id: 1, full_name: 'a/keep' }),
@@ -327,10 +476,10 @@ describe('storage: deleteReposMissingFromFullNames', () => {
 
     const removed = await deleteReposMissingFromFullNames(['a/keep']);
 
-    expect(removed).toBe(2);
+    expect(removed.sort()).toEqual(['b/stale', 'c/stale']);
     expect(await getRepoByName('a/keep')).not.toBeNull();
-    expect(await getRepoByName('b/stale')).toBeNull();
-    expect(await getRepoByName('c/stale')).toBeNull();
+    expect((await getRepoByName('b/stale'))!.unstarred_at).not.toBe('');
+    expect((await getRepoByName('c/stale'))!.unstarred_at).not.toBe('');
     expect((await getStats()).count).toBe(1);
   });
 
@@ -343,11 +492,11 @@ describe('storage: deleteReposMissingFromFullNames', () => {
 
     const removed = await deleteReposMissingFromFullNames([]);
 
-    expect(removed).toBe(2);
+    expect(removed).toHaveLength(2);
     expect((await getStats()).count).toBe(0);
   });
 
-  it('returns zero when all repos are retained', async () => {
+  it('returns no names when all repos are retained', async () => {
     const { upsertRepos, deleteReposMissingFromFullNames, getStats } = await import('../src/lib/storage.js');
     await upsertRepos([
       makeRepo({ id: 1, full_name: 'a/keep' }),
@@ -356,13 +505,15 @@ describe('storage: deleteReposMissingFromFullNames', () => {
 
     const removed = await deleteReposMissingFromFullNames(['a/keep', 'b/keep']);
 
-    expect(removed).toBe(0);
+    expect(removed).toEqual([]);
     expect((await getStats()).count).toBe(2);
   });
 
   it('resets embedding availability when deletion empties the table', async () => {
     const { upsertRepos, updateEmbedding, deleteReposMissingFromFullNames, hasAnyEmbeddings } = await import('../src/lib/storage.js');
-    const { getMeta } = await import('../src/lib/config.js');
+    const { getMeta, getConfigFilePath } = await import('../src/lib/config.js');
+    mkdirSync(dirname(getConfigFilePath()), { recursive: true });
+    writeFileSync(getConfigFilePath(), JSON.stringify({ deleteUnstarred: true }));
 
     await upsertRepos([
       makeRepo({ id: 1, full_name: 'a/keep' }),
@@ -372,12 +523,63 @@ describe('storage: deleteReposMissingFromFullNames', () => {
 
     const removed = await deleteReposMissingFromFullNames([]);
 
-    expect(removed).toBe(1);
+    expect(removed).toEqual(['a/keep']);
     expect(await hasAnyEmbeddings()).toBe(false);
     expect(getMeta('has_embeddings')).toBe('false');
   });
 });
 
+describe('storage: unstarred tombstones', () => {
+  it('deletes unstarred repos when deleteUnstarred is set', async () => {
+    const { getConfigFilePath } = await import('../src/lib/config.js');
+    mkdirSync(dirname(getConfigFilePath()), { recursive: true });
+    writeFileSync(getConfigFilePath(), JSON.stringify({ deleteUnstarred: true }));
+    const { upsertRepos, retireRepos, getRepoByName } = await import('../src/lib/storage.js');
+    await upsertRepos([makeRepo({ id: 1, full_name: 'a/gone' })]);
+
+    await retireRepos(['a/gone']);
+
+    expect(await getRepoByName('a/gone')).toBeNull();
+  });
+
+  it('keeps unstarred repos hidden by default and reachable through the unstarred filter', async () => {
+    const { upsertRepos, deleteReposMissingFromFullNames, getRepoByName, listRepos, getStats } = await import('../src/lib/storage.js');
+    await upsertRepos([
+      makeRepo({ id: 1, full_name: 'a/keep' }),
+      makeRepo({ id: 2, full_name: 'b/gone' }),
+    ]);
+
+    expect(await deleteReposMissingFromFullNames(['a/keep'])).toEqual(['b/gone']);
+
+    const gone = await getRepoByName('b/gone');
+    expect(gone!.unstarred_at).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+    expect((await listRepos()).map((repo) => repo.full_name)).toEqual(['a/keep']);
+    expect((await listRepos({ unstarred: 'only' })).map((repo) => repo.full_name)).toEqual(['b/gone']);
+    expect((await listRepos({ unstarred: 'include' })).map((repo) => repo.full_name).sort()).toEqual(['a/keep', 'b/gone']);
+    expect((await getStats()).count).toBe(1);
+
+    // Starring it again clears the tombstone.
+    await upsertRepos([makeRepo({ id: 2, full_name: 'b/gone' })]);
+    expect((await getRepoByName('b/gone'))!.unstarred_at).toBe('');
+    expect((await getStats()).count).toBe(2);
+  });
+
+  it('lists tombstones older than a cutoff and keeps the first unstar time', async () => {
+    const { upsertRepos, markReposUnstarred, listUnstarredRepoNames, getRepoByName } = await import('../src/lib/storage.js');
+    await upsertRepos([
+      makeRepo({ id: 1, full_name: 'a/old' }),
+      makeRepo({ id: 2, full_name: 'b/new' }),
+    ]);
+
+    await markReposUnstarred(['a/old'], new Date('2026-01-01T00:00:00Z'));
+    await markReposUnstarred(['a/old', 'b/new'], new Date('2026-06-01T00:00:00Z'));
+
+    expect((await getRepoByName('a/old'))!.unstarred_at).toBe('2026-01-01T00:00:00.000Z');
+    expect((await listUnstarredRepoNames()).sort()).toEqual(['a/old', 'b/new']);
+    expect(await listUnstarredRepoNames(new Date('2026-03-01T00:00:00Z'))).toEqual(['a/old']);
+  });
+});
+
 describe('storage: FTS index initialization', () => {
   it('creates the FTS index once during table setup, not on every search', async () => {
     vi.resetModules();
@@ -397,7 +599,7 @@ describe('storage: FTS index initialization', () => {
       getDBPath: () => ':memory:',
       getConfigDir: () => tmpDir,
       getDataDir: () => tmpDir,
-      getMeta: (key: string) => key === 'schema_version' ? '5' : null,
+      getMeta: (key: string) => key === 'schema_version' ? '8' : null,
       setMeta: () => {},
       getToken: () => null,
       saveToken: () => {},
@@ -412,6 +614,7 @@ describe('storage: FTS index initialization', () => {
     const search = vi.fn().mockReturnValue(searchChain);
     const table = {
       createIndex,
+      listIndices: vi.fn().mockResolvedValue([]),
       search,
       query: vi.fn().mockReturnValue({
         where: vi.fn().mockReturnValue({ toArray: vi.fn().mockResolvedValue([]) }),
@@ -420,7 +623,13 @@ describe('storage: FTS index initialization', () => {
       countRows: vi.fn().mockResolvedValue(0),
     };
 
+    vi.doMock('../src/lib/annotations.js', () => ({
+      getTaggedNames: vi.fn().mockResolvedValue([]),
+      searchAnnotationNames: vi.fn().mockResolvedValue([]),
+    }));
+
     vi.doMock('@lancedb/lancedb', () => ({
+      Index: { fts: () => ({}) },
       connect: vi.fn().mockResolvedValue({
         tableNames: vi.fn().mockResolvedValue(['repos']),
         openTable: vi.fn().mockResolvedValue(table),
@@ -432,7 +641,9 @@ describe('storage: FTS index initialization', () => {
     await searchFTS('react', 10);
     await searchFTS('vue', 10);
 
-    expect(createIndex).toHaveBeenCalledTimes(1);
+    // One index per searched column.
+    expect(createIndex).toHaveBeenCalledTimes(5);
+    expect(createIndex).toHaveBeenCalledWith('description', expect.objectContaining({ name: 'fts_idx_description' }));
     expect(search).toHaveBeenCalledTimes(2);
   });
 
@@ -454,7 +665,7 @@ describe('storage: FTS index initialization', () => {
       getDBPath: () => ':memory:',
       getConfigDir: () => tmpDir,
       getDataDir: () => tmpDir,
-      getMeta: (key: string) => key === 'schema_version' ? '5' : null,
+      getMeta: (key: string) => key === 'schema_version' ? '8' : null,
       setMeta: () => {},
       getToken: () => null,
       saveToken: () => {},
@@ -511,6 +722,7 @@ describe('storage: FTS index initialization', () => {
     });
     const table = {
       createIndex,
+      listIndices: vi.fn().mockResolvedValue([]),
       search,
       query: vi.fn().mockReturnValue({
         where: vi.fn().mockReturnThis(),
@@ -519,7 +731,13 @@ describe('storage: FTS index initialization', () => {
       countRows: vi.fn().mockResolvedValue(rows.length),
     };
 
+    vi.doMock('../src/lib/annotations.js', () => ({
+      getTaggedNames: vi.fn().mockResolvedValue([]),
+      searchAnnotationNames: vi.fn().mockResolvedValue([]),
+    }));
+
     vi.doMock('@lancedb/lancedb', () => ({
+      Index: { fts: () => ({}) },
       connect: vi.fn().mockResolvedValue({
         tableNames: vi.fn().mockResolvedValue(['repos']),
         openTable: vi.fn().mockResolvedValue(table),
@@ -536,7 +754,7 @@ describe('storage: FTS index initialization', () => {
 });
 
 describe('storage: schema migration internals', () => {
-  it('backfills v2/v3/v4/v5 columns and persists the final schema version', async () => {
+  it('backfills v2/v3/v4/v5/v6 columns and persists the final schema version', async () => {
     vi.resetModules();
 
     vi.doMock('apache-arrow', () => ({
@@ -555,6 +773,7 @@ describe('storage: schema migration internals', () => {
       getDBPath: () => ':memory:',
       getConfigDir: () => tmpDir,
       getDataDir: () => tmpDir,
+      getCollectionDir: () => tmpDir,
       getMeta: (key: string) => key === 'schema_version' ? '1' : null,
       setMeta,
       getToken: () => null,
@@ -601,13 +820,20 @@ describe('storage: schema migration internals', () => {
                   ? [{ ...baseRow, starred_at_ts: Date.parse(baseRow.starred_at), updated_at_ts: Date.parse(baseRow.updated_at), topics_text: 'ai vector-search', has_embedding: false }]
                   : where === "topics_key = '' AND topics != '[]'"
                     ? [{ ...baseRow, starred_at_ts: Date.parse(baseRow.starred_at), updated_at_ts: Date.parse(baseRow.updated_at), topics_text: 'ai vector-search', has_embedding: true, topics_key: '' }]
-                    : []
+                    : where === "owner_login = ''"
+                      ? [{ ...baseRow, starred_at_ts: Date.parse(baseRow.starred_at), updated_at_ts: Date.parse(baseRow.updated_at), topics_text: 'ai vector-search', has_embedding: true, topics_key: '|YWk|dmVjdG9yLXNlYXJjaA|', archived: false, fork: false, license: '', owner_login: '' }]
+                      : []
           ),
         })),
       }),
       countRows: vi.fn().mockResolvedValue(1),
     };
 
+    vi.doMock('../src/lib/annotations.js', () => ({
+      getTaggedNames: vi.fn().mockResolvedValue([]),
+      searchAnnotationNames: vi.fn().mockResolvedValue([]),
+    }));
+
     vi.doMock('@lancedb/lancedb', () => ({
       connect: vi.fn().mockResolvedValue({
         tableNames: vi.fn().mockResolvedValue(['repos']),
@@ -623,10 +849,18 @@ describe('storage: schema migration internals', () => {
     expect(addColumns).toHaveBeenCalledWith([{ name: 'topics_text', valueSql: "''" }]);
     expect(addColumns).toHaveBeenCalledWith([{ name: 'has_embedding', valueSql: 'cast(false as boolean)' }]);
     expect(addColumns).toHaveBeenCalledWith([{ name: 'topics_key', valueSql: "''" }]);
+    expect(addColumns).toHaveBeenCalledWith([{ name: 'archived', valueSql: 'cast(false as boolean)' }]);
+    expect(addColumns).toHaveBeenCalledWith([{ name: 'owner_login', valueSql: "''" }]);
+    expect(addColumns).toHaveBeenCalledWith([{ name: 'open_issues_count', valueSql: 'cast(0 as int)' }]);
+    expect(addColumns).toHaveBeenCalledWith([{ name: 'unstarred_at', valueSql: "''" }]);
+    expect(addColumns).toHaveBeenCalledWith([{ name: 'language_key', valueSql: 'lower(language)' }]);
     expect(setMeta).toHaveBeenCalledWith('schema_version', '2');
     expect(setMeta).toHaveBeenCalledWith('schema_version', '3');
     expect(setMeta).toHaveBeenCalledWith('schema_version', '4');
     expect(setMeta).toHaveBeenCalledWith('schema_version', '5');
+    expect(setMeta).toHaveBeenCalledWith('schema_version', '6');
+    expect(setMeta).toHaveBeenCalledWith('schema_version', '7');
+    expect(setMeta).toHaveBeenCalledWith('schema_version', '8');
     expect(optimize).toHaveBeenCalledWith({ cleanupOlderThan: expect.any(Date) });
 
     const executedRows = execute.mock.calls.map((call) => call[0][0]);
@@ -644,6 +878,13 @@ describe('storage: schema migration internals', () => {
       expect.objectContaining({
         topics_key: '|YWk|dmVjdG9yLXNlYXJjaA|',
       }),
+      expect.objectContaining({
+        owner_login: 'user',
+        archived: false,
+        open_issues_count: 0,
+      }),
     ]);
+    // Rows written before the v6 columns exist must not carry them.
+    expect(executedRows[3]).not.toHaveProperty('owner_login');
   });
 });
@@ -24,6 +24,21 @@ function makeRepo(overrides: Partial<RepoInput> = {}): RepoInput {
   };
 }
 
+type PageHandler = (repos: RepoInput[], page: number) => Promise<void>;
+
+// Stands in for github.streamStars: hands each page to the caller in order,
+// starting from options.startPage like the real paginator.
+function streamPages(...pages: RepoInput[][]) {
+  return vi.fn(async (_octokit: unknown, onPage: PageHandler, options: { startPage?: number } = {}) => {
+    let total = 0;
+    for (let page = options.startPage ?? 1; page <= pages.length; page++) {
+      await onPage(pages[page - 1], page);
+      total += pages[page - 1].length;
+    }
+    return total;
+  });
+}
+
 beforeEach(() => {
   tmpDir = mkdtempSync(join(tmpdir(), 'starepo-sync-test-'));
   process.env.XDG_DATA_HOME = join(tmpDir, 'data');
@@ -51,10 +66,12 @@ describe('runSync: full sync cleanup', () => {
     }));
     vi.doMock('../src/lib/github.js', () => ({
       createOctokit: vi.fn().mockReturnValue({}),
-      fetchAllStars: vi.fn().mockResolvedValue([
+      streamStars: streamPages([
         makeRepo({ id: 1, full_name: 'keep/repo', name: 'repo' }),
       ]),
-      fetchStarsSince: vi.fn(),
+      fetchStarLists: vi.fn().mockResolvedValue([]),
+      fetchStarredTotalCount: vi.fn().mockResolvedValue(0),
+      fetchStarredFullNames: vi.fn().mockResolvedValue([]),
     }));
     vi.doMock('../src/lib/embeddings.js', () => ({
       generateAndStoreEmbeddings: vi.fn(),
@@ -64,8 +81,11 @@ describe('runSync: full sync cleanup', () => {
     await runSync({ noEmbeddings: true });
 
     expect(await getRepoByName('keep/repo')).not.toBeNull();
-    expect(await getRepoByName('stale/repo')).toBeNull();
+    expect((await getRepoByName('stale/repo'))!.unstarred_at).not.toBe('');
     expect((await getStats()).count).toBe(1);
+
+    const { getStarHistory } = await import('../src/lib/star-history.js');
+    expect(await getStarHistory('keep/repo')).toHaveLength(1);
   });
 
   it('clears the local cache when full sync returns zero stars', async () => {
@@ -79,8 +99,10 @@ describe('runSync: full sync cleanup', () => {
     }));
     vi.doMock('../src/lib/github.js', () => ({
       createOctokit: vi.fn().mockReturnValue({}),
-      fetchAllStars: vi.fn().mockResolvedValue([]),
-      fetchStarsSince: vi.fn(),
+      streamStars: streamPages([]),
+      fetchStarLists: vi.fn().mockResolvedValue([]),
+      fetchStarredTotalCount: vi.fn().mockResolvedValue(0),
+      fetchStarredFullNames: vi.fn().mockResolvedValue([]),
     }));
     vi.doMock('../src/lib/embeddings.js', () => ({
       generateAndStoreEmbeddings: vi.fn(),
@@ -104,10 +126,12 @@ describe('runSync: full sync cleanup', () => {
     }));
     vi.doMock('../src/lib/github.js', () => ({
       createOctokit: vi.fn().mockReturnValue({}),
-      fetchAllStars: vi.fn().mockResolvedValue([
+      streamStars: streamPages([
         makeRepo({ id: 1, full_name: 'keep/repo', name: 'repo', stars_count: 20 }),
       ]),
-      fetchStarsSince: vi.fn(),
+      fetchStarLists: vi.fn().mockResolvedValue([]),
+      fetchStarredTotalCount: vi.fn().mockResolvedValue(0),
+      fetchStarredFullNames: vi.fn().mockResolvedValue([]),
     }));
     vi.doMock('../src/lib/embeddings.js', () => ({
       generateAndStoreEmbeddings: vi.fn(),
@@ -138,10 +162,12 @@ describe('runSync: full sync cleanup', () => {
     }));
     vi.doMock('../src/lib/github.js', () => ({
       createOctokit: vi.fn().mockReturnValue({}),
-      fetchAllStars: vi.fn().mockResolvedValue([
+      streamStars: streamPages([
         makeRepo({ id: 1, full_name: 'keep/repo', name: 'repo' }),
       ]),
-      fetchStarsSince: vi.fn(),
+      fetchStarLists: vi.fn().mockResolvedValue([]),
+      fetchStarredTotalCount: vi.fn().mockResolvedValue(0),
+      fetchStarredFullNames: vi.fn().mockResolvedValue([]),
     }));
 
     const generateAndStoreEmbeddings = vi.fn();
@@ -175,14 +201,15 @@ describe('runSync: full sync cleanup', () => {
     vi.doMock('../src/commands/auth.js', () => ({
       ensureAuth: vi.fn().mockResolvedValue('token'),
     }));
-    const fetchAllStars = vi.fn();
-    const fetchStarsSince = vi.fn().mockResolvedValue([
+    const streamStars = streamPages([
       makeRepo({ id: 1, full_name: 'new/repo', name: 'repo' }),
     ]);
     vi.doMock('../src/lib/github.js', () => ({
       createOctokit: vi.fn().mockReturnValue({}),
-      fetchAllStars,
-      fetchStarsSince,
+      streamStars,
+      fetchStarLists: vi.fn().mockResolvedValue([]),
+      fetchStarredTotalCount: vi.fn().mockResolvedValue(1),
+      fetchStarredFullNames: vi.fn().mockResolvedValue([]),
     }));
     vi.doMock('../src/lib/embeddings.js', () => ({
       generateAndStoreEmbeddings: vi.fn(),
@@ -191,8 +218,10 @@ describe('runSync: full sync cleanup', () => {
     const { runSync } = await import('../src/commands/sync.js');
     await runSync({ noEmbeddings: true });
 
-    expect(fetchStarsSince).toHaveBeenCalledWith({}, new Date('2026-01-01T00:00:00.000Z'), expect.any(Function));
-    expect(fetchAllStars).not.toHaveBeenCalled();
+    expect(streamStars).toHaveBeenCalledWith({}, expect.any(Function), {
+      startPage: 1,
+      since: new Date('2026-01-01T00:00:00.000Z'),
+    });
     expect(await getRepoByName('new/repo')).not.toBeNull();
     expect(getMeta('last_sync')).not.toBe('2026-01-01T00:00:00.000Z');
   });
@@ -210,8 +239,10 @@ describe('runSync: full sync cleanup', () => {
     }));
     vi.doMock('../src/lib/github.js', () => ({
       createOctokit: vi.fn().mockReturnValue({}),
-      fetchAllStars: vi.fn(),
-      fetchStarsSince: vi.fn().mockResolvedValue([]),
+      streamStars: streamPages([]),
+      fetchStarLists: vi.fn().mockResolvedValue([]),
+      fetchStarredTotalCount: vi.fn().mockResolvedValue(0),
+      fetchStarredFullNames: vi.fn().mockResolvedValue([]),
     }));
     vi.doMock('../src/lib/embeddings.js', () => ({
       generateAndStoreEmbeddings: vi.fn(),
@@ -231,14 +262,15 @@ describe('runSync: full sync cleanup', () => {
     vi.doMock('../src/commands/auth.js', () => ({
       ensureAuth: vi.fn().mockResolvedValue('token'),
     }));
-    const fetchAllStars = vi.fn().mockResolvedValue([
+    const streamStars = streamPages([
       makeRepo({ id: 1, full_name: 'forced/repo', name: 'repo' }),
     ]);
-    const fetchStarsSince = vi.fn();
     vi.doMock('../src/lib/github.js', () => ({
       createOctokit: vi.fn().mockReturnValue({}),
-      fetchAllStars,
-      fetchStarsSince,
+      streamStars,
+      fetchStarLists: vi.fn().mockResolvedValue([]),
+      fetchStarredTotalCount: vi.fn().mockResolvedValue(0),
+      fetchStarredFullNames: vi.fn().mockResolvedValue([]),
     }));
     vi.doMock('../src/lib/embeddings.js', () => ({
       generateAndStoreEmbeddings: vi.fn(),
@@ -247,8 +279,7 @@ describe('runSync: full sync cleanup', () => {
     const { runSync } = await import('../src/commands/sync.js');
     await runSync({ force: true, noEmbeddings: true });
 
-    expect(fetchAllStars).toHaveBeenCalledTimes(1);
-    expect(fetchStarsSince).not.toHaveBeenCalled();
+    expect(streamStars).toHaveBeenCalledWith({}, expect.any(Function), { startPage: 1, since: undefined });
   });
 
   it('generates embeddings when synced repos have missing vectors', async () => {
@@ -263,10 +294,12 @@ describe('runSync: full sync cleanup', () => {
     }));
     vi.doMock('../src/lib/github.js', () => ({
       createOctokit: vi.fn().mockReturnValue({}),
-      fetchAllStars: vi.fn().mockResolvedValue([
+      streamStars: streamPages([
         makeRepo({ id: 1, full_name: 'missing/repo', name: 'repo' }),
       ]),
-      fetchStarsSince: vi.fn(),
+      fetchStarLists: vi.fn().mockResolvedValue([]),
+      fetchStarredTotalCount: vi.fn().mockResolvedValue(0),
+      fetchStarredFullNames: vi.fn().mockResolvedValue([]),
     }));
 
     const generateAndStoreEmbeddings = vi.fn().mockResolvedValue({
@@ -300,4 +333,454 @@ describe('runSync: full sync cleanup', () => {
     expect(logs.join('\n')).toContain('Generating embeddings for semantic search...');
     expect(logs.join('\n')).toContain('Semantic search is now available.');
   });
+
+  it('stores star list membership and keeps syncing when lists are unavailable', async () => {
+    const warnings: string[] = [];
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation((message?: string) => {
+      warnings.push(String(message ?? ''));
+    });
+    vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+    vi.doMock('../src/commands/auth.js', () => ({
+      ensureAuth: vi.fn().mockResolvedValue('token'),
+    }));
+    const fetchStarLists = vi.fn()
+      .mockResolvedValueOnce([
+        { name: 'Evaluate', slug: 'evaluate', description: '', repos: ['listed/repo'] },
+      ])
+      .mockRejectedValueOnce(new Error('Resource not accessible by integration'));
+    vi.doMock('../src/lib/github.js', () => ({
+      createOctokit: vi.fn().mockReturnValue({}),
+      streamStars: streamPages([
+        makeRepo({ id: 1, full_name: 'listed/repo', name: 'repo' }),
+        makeRepo({ id: 2, full_name: 'other/repo', name: 'repo' }),
+      ]),
+      fetchStarLists,
+      fetchStarredTotalCount: vi.fn().mockResolvedValue(0),
+      fetchStarredFullNames: vi.fn().mockResolvedValue([]),
+    }));
+    vi.doMock('../src/lib/embeddings.js', () => ({
+      generateAndStoreEmbeddings: vi.fn(),
+    }));
+
+    const { runSync } = await import('../src/commands/sync.js');
+    const { listRepos } = await import('../src/lib/storage.js');
+    await runSync({ noEmbeddings: true });
+
+    expect((await listRepos({ list: 'evaluate' })).map((repo) => repo.full_name)).toEqual(['listed/repo']);
+
+    await runSync({ force: true, noEmbeddings: true });
+
+    expect(warnings.join('\n')).toContain('Skipping star lists');
+    expect((await listRepos({ list: 'Evaluate' })).map((repo) => repo.full_name)).toEqual(['listed/repo']);
+  });
+
+  it('removes unstarred repos during incremental sync when the remote total differs', async () => {
+    const logs: string[] = [];
+    vi.spyOn(console, 'log').mockImplementation((message?: string) => {
+      logs.push(String(message ?? ''));
+    });
+    vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    const { setMeta, getMeta } = await import('../src/lib/config.js');
+    const { upsertRepos, getRepoByName, getStats } = await import('../src/lib/storage.js');
+    await upsertRepos([
+      makeRepo({ id: 1, full_name: 'keep/repo', name: 'repo' }),
+      makeRepo({ id: 2, full_name: 'gone/repo', name: 'repo' }),
+    ]);
+    setMeta('last_sync', '2026-01-01T00:00:00.000Z');
+
+    vi.doMock('../src/commands/auth.js', () => ({
+      ensureAuth: vi.fn().mockResolvedValue('token'),
+    }));
+    const fetchStarredFullNames = vi.fn().mockResolvedValue(['keep/repo']);
+    vi.doMock('../src/lib/github.js', () => ({
+      createOctokit: vi.fn().mockReturnValue({}),
+      streamStars: streamPages([]),
+      fetchStarLists: vi.fn().mockResolvedValue([]),
+      fetchStarredTotalCount: vi.fn().mockResolvedValue(1),
+      fetchStarredFullNames,
+    }));
+    vi.doMock('../src/lib/embeddings.js', () => ({
+      generateAndStoreEmbeddings: vi.fn(),
+    }));
+
+    const { runSync } = await import('../src/commands/sync.js');
+    await runSync({ noEmbeddings: true });
+
+    expect(fetchStarredFullNames).toHaveBeenCalledTimes(1);
+    expect((await getRepoByName('gone/repo'))!.unstarred_at).not.toBe('');
+    expect((await getStats()).count).toBe(1);
+    expect(logs.join('\n')).toContain('Removed 1 unstarred repos from local database.');
+    expect(getMeta('last_sync')).toBe('2026-01-01T00:00:00.000Z');
+  });
+
+  it('skips the identifier walk when the remote total matches the local count', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    const { setMeta } = await import('../src/lib/config.js');
+    setMeta('last_sync', '2026-01-01T00:00:00.000Z');
+
+    vi.doMock('../src/commands/auth.js', () => ({
+      ensureAuth: vi.fn().mockResolvedValue('token'),
+    }));
+    const fetchStarredFullNames = vi.fn();
+    vi.doMock('../src/lib/github.js', () => ({
+      createOctokit: vi.fn().mockReturnValue({}),
+      streamStars: streamPages([
+        makeRepo({ id: 1, full_name: 'new/repo', name: 'repo' }),
+      ]),
+      fetchStarLists: vi.fn().mockResolvedValue([]),
+      fetchStarredTotalCount: vi.fn().mockResolvedValue(1),
+      fetchStarredFullNames,
+    }));
+    vi.doMock('../src/lib/embeddings.js', () => ({
+      generateAndStoreEmbeddings: vi.fn(),
+    }));
+
+    const { runSync } = await import('../src/commands/sync.js');
+    await runSync({ noEmbeddings: true });
+
+    expect(fetchStarredFullNames).not.toHaveBeenCalled();
+  });
+
+  it('refreshes metadata for existing stars during incremental sync when requested', async () => {
+    const logs: string[] = [];
+    vi.spyOn(console, 'log').mockImplementation((message?: string) => {
+      logs.push(String(message ?? ''));
+    });
+    vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    const { setMeta, getMeta } = await import('../src/lib/config.js');
+    const { upsertRepos, getRepoByName } = await import('../src/lib/storage.js');
+    await upsertRepos([
+      makeRepo({ id: 1, full_name: 'old/repo', name: 'repo', stars_count: 10 }),
+    ]);
+    setMeta('last_sync', '2026-01-01T00:00:00.000Z');
+
+    vi.doMock('../src/commands/auth.js', () => ({
+      ensureAuth: vi.fn().mockResolvedValue('token'),
+    }));
+    const fetchRepoMetadata = vi.fn().mockResolvedValue([
+      {
+        full_name: 'old/repo',
+        description: 'A test repo',
+        homepage: '',
+        language: 'TypeScript',
+        topics: ['testing'],
+        stars_count: 500,
+        forks_count: 1,
+        updated_at: '2026-01-01T00:00:00Z',
+      },
+    ]);
+    vi.doMock('../src/lib/github.js', () => ({
+      createOctokit: vi.fn().mockReturnValue({}),
+      streamStars: streamPages([]),
+      fetchStarLists: vi.fn().mockResolvedValue([]),
+      fetchStarredTotalCount: vi.fn().mockResolvedValue(1),
+      fetchStarredFullNames: vi.fn(),
+      fetchRepoMetadata,
+    }));
+    vi.doMock('../src/lib/embeddings.js', () => ({
+      generateAndStoreEmbeddings: vi.fn(),
+    }));
+
+    const { runSync } = await import('../src/commands/sync.js');
+    await runSync({ noEmbeddings: true, refreshMaxAgeDays: 7 });
+
+    expect(fetchRepoMetadata).toHaveBeenCalledWith({}, ['old/repo']);
+    expect((await getRepoByName('old/repo'))!.stars_count).toBe(500);
+    expect(logs.join('\n')).toContain('Metadata refresh complete: 1 repos changed.');
+    expect(getMeta('last_refresh')).not.toBeNull();
+
+    fetchRepoMetadata.mockClear();
+    await runSync({ noEmbeddings: true, refreshMaxAgeDays: 7 });
+
+    expect(fetchRepoMetadata).not.toHaveBeenCalled();
+  });
+
+  it('leaves a page checkpoint when a sync is interrupted and resumes from it', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    const { getMeta } = await import('../src/lib/config.js');
+    const { getRepoByName } = await import('../src/lib/storage.js');
+
+    vi.doMock('../src/commands/auth.js', () => ({
+      ensureAuth: vi.fn().mockResolvedValue('token'),
+    }));
+    const pages = [
+      [makeRepo({ id: 1, full_name: 'page/one', name: 'one' })],
+      [makeRepo({ id: 2, full_name: 'page/two', name: 'two' })],
+    ];
+    const streamStars = streamPages(...pages);
+    streamStars.mockImplementationOnce(async (_octokit, onPage) => {
+      await onPage(pages[0], 1);
+      throw new Error('socket hang up');
+    });
+    const fetchStarredFullNames = vi.fn().mockResolvedValue(['page/one', 'page/two']);
+    vi.doMock('../src/lib/github.js', () => ({
+      createOctokit: vi.fn().mockReturnValue({}),
+      streamStars,
+      fetchStarLists: vi.fn().mockResolvedValue([]),
+      fetchStarredTotalCount: vi.fn().mockResolvedValue(2),
+      fetchStarredFullNames,
+    }));
+    vi.doMock('../src/lib/embeddings.js', () => ({
+      generateAndStoreEmbeddings: vi.fn(),
+    }));
+
+    const { runSync } = await import('../src/commands/sync.js');
+    await expect(runSync({ noEmbeddings: true })).rejects.toThrow('socket hang up');
+
+    expect(await getRepoByName('page/one')).not.toBeNull();
+    expect(getMeta('last_sync')).toBeNull();
+    expect(JSON.parse(getMeta('sync_checkpoint')!)).toMatchObject({ mode: 'full', page: 2, fetched: 1 });
+
+    await runSync({ noEmbeddings: true });
+
+    expect(streamStars).toHaveBeenLastCalledWith({}, expect.any(Function), { startPage: 2, since: undefined });
+    expect(fetchStarredFullNames).toHaveBeenCalledTimes(1);
+    expect(await getRepoByName('page/one')).not.toBeNull();
+    expect(await getRepoByName('page/two')).not.toBeNull();
+    expect(getMeta('sync_checkpoint')).toBeNull();
+    expect(getMeta('last_sync')).not.toBeNull();
+  });
+
+  it('keeps last_sync and the incremental lower bound when an incremental sync is interrupted', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    const { setMeta, getMeta } = await import('../src/lib/config.js');
+    setMeta('last_sync', '2026-01-01T00:00:00.000Z');
+
+    vi.doMock('../src/commands/auth.js', () => ({
+      ensureAuth: vi.fn().mockResolvedValue('token'),
+    }));
+    const streamStars = streamPages(
+      [makeRepo({ id: 1, full_name: 'new/one', name: 'one' })],
+      [makeRepo({ id: 2, full_name: 'new/two', name: 'two' })],
+    );
+    streamStars.mockImplementationOnce(async () => {
+      throw new Error('rate limited');
+    });
+    vi.doMock('../src/lib/github.js', () => ({
+      createOctokit: vi.fn().mockReturnValue({}),
+      streamStars,
+      fetchStarLists: vi.fn().mockResolvedValue([]),
+      fetchStarredTotalCount: vi.fn().mockResolvedValue(2),
+      fetchStarredFullNames: vi.fn(),
+    }));
+    vi.doMock('../src/lib/embeddings.js', () => ({
+      generateAndStoreEmbeddings: vi.fn(),
+    }));
+
+    const { runSync } = await import('../src/commands/sync.js');
+    await expect(runSync({ noEmbeddings: true })).rejects.toThrow('rate limited');
+    expect(getMeta('last_sync')).toBe('2026-01-01T00:00:00.000Z');
+
+    setMeta('sync_checkpoint', JSON.stringify({
+      mode: 'incremental',
+      page: 2,
+      since: '2026-01-01T00:00:00.000Z',
+      startedAt: '2026-02-01T00:00:00.000Z',
+      fetched: 1,
+    }));
+    await runSync({ noEmbeddings: true });
+
+    expect(streamStars).toHaveBeenLastCalledWith({}, expect.any(Function), {
+      startPage: 2,
+      since: new Date('2026-01-01T00:00:00.000Z'),
+    });
+    expect(getMeta('last_sync')).toBe('2026-02-01T00:00:00.000Z');
+    expect(getMeta('sync_checkpoint')).toBeNull();
+  });
+
+  it('discards a checkpoint when a full sync is forced', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    const { setMeta, getMeta } = await import('../src/lib/config.js');
+    setMeta('sync_checkpoint', JSON.stringify({
+      mode: 'full', page: 5, startedAt: '2026-02-01T00:00:00.000Z', fetched: 400,
+    }));
+
+    vi.doMock('../src/commands/auth.js', () => ({
+      ensureAuth: vi.fn().mockResolvedValue('token'),
+    }));
+    const streamStars = streamPages([makeRepo({ id: 1, full_name: 'fresh/repo', name: 'repo' })]);
+    vi.doMock('../src/lib/github.js', () => ({
+      createOctokit: vi.fn().mockReturnValue({}),
+      streamStars,
+      fetchStarLists: vi.fn().mockResolvedValue([]),
+      fetchStarredTotalCount: vi.fn().mockResolvedValue(1),
+      fetchStarredFullNames: vi.fn(),
+    }));
+    vi.doMock('../src/lib/embeddings.js', () => ({
+      generateAndStoreEmbeddings: vi.fn(),
+    }));
+
+    const { runSync } = await import('../src/commands/sync.js');
+    await runSync({ force: true, noEmbeddings: true });
+
+    expect(streamStars).toHaveBeenCalledWith({}, expect.any(Function), { startPage: 1, since: undefined });
+    expect(getMeta('sync_checkpoint')).toBeNull();
+    expect(getMeta('last_sync')).not.toBe('2026-02-01T00:00:00.000Z');
+  });
+
+  it('syncs another user\'s public stars into a separate collection', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    const config = await import('../src/lib/config.js');
+    const { upsertRepos, getStats, getRepoByName } = await import('../src/lib/storage.js');
+    await upsertRepos([makeRepo({ id: 1, full_name: 'mine/repo', name: 'repo' })]);
+    config.setMeta('last_sync', '2026-01-01T00:00:00.000Z');
+
+    vi.doMock('../src/commands/auth.js', () => ({
+      ensureAuth: vi.fn().mockResolvedValue('token'),
+    }));
+    const streamStars = streamPages([makeRepo({ id: 2, full_name: 'theirs/repo', name: 'repo' })]);
+    const fetchStarLists = vi.fn().mockResolvedValue([]);
+    vi.doMock('../src/lib/github.js', () => ({
+      createOctokit: vi.fn().mockReturnValue({}),
+      streamStars,
+      fetchStarLists,
+      fetchStarredTotalCount: vi.fn().mockResolvedValue(1),
+      fetchStarredFullNames: vi.fn(),
+    }));
+    vi.doMock('../src/lib/embeddings.js', () => ({
+      generateAndStoreEmbeddings: vi.fn(),
+    }));
+
+    const { runSync } = await import('../src/commands/sync.js');
+    await config.runInCollection('Octocat', () => runSync({ noEmbeddings: true }));
+
+    // A fresh collection has no last_sync of its own, so this is a full walk.
+    expect(streamStars).toHaveBeenCalledWith({}, expect.any(Function), {
+      startPage: 1,
+      since: undefined,
+      user: 'octocat',
+    });
+    expect(fetchStarLists).toHaveBeenCalledWith({}, 'octocat');
+    await config.runInCollection('octocat', async () => {
+      expect(config.getMeta('owner_login')).toBe('octocat');
+      expect((await getStats()).count).toBe(1);
+      expect(await getRepoByName('theirs/repo')).not.toBeNull();
+    });
+
+    expect((await getStats()).count).toBe(1);
+    expect(await getRepoByName('mine/repo')).not.toBeNull();
+    expect(config.getMeta('last_sync')).toBe('2026-01-01T00:00:00.000Z');
+  });
+
+  it('records latest releases only when asked to', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    const config = await import('../src/lib/config.js');
+
+    vi.doMock('../src/commands/auth.js', () => ({
+      ensureAuth: vi.fn().mockResolvedValue('token'),
+    }));
+    const fetchLatestReleases = vi.fn(async (_octokit: unknown, names: string[]) => names
+      .filter((name) => name === 'a/one')
+      .map((name) => ({
+        full_name: name,
+        tag_name: 'v1.0.0',
+        name: 'v1.0.0',
+        published_at: new Date().toISOString(),
+        url: `https://github.com/${name}/releases/tag/v1.0.0`,
+        notes: '',
+      })));
+    vi.doMock('../src/lib/github.js', () => ({
+      createOctokit: vi.fn().mockReturnValue({}),
+      streamStars: streamPages([
+        makeRepo({ id: 1, full_name: 'a/one', name: 'one' }),
+        makeRepo({ id: 2, full_name: 'b/two', name: 'two' }),
+      ]),
+      fetchStarLists: vi.fn().mockResolvedValue([]),
+      fetchStarredTotalCount: vi.fn().mockResolvedValue(2),
+      fetchStarredFullNames: vi.fn().mockResolvedValue([]),
+      fetchLatestReleases,
+    }));
+    vi.doMock('../src/lib/embeddings.js', () => ({
+      generateAndStoreEmbeddings: vi.fn(),
+    }));
+
+    const { runSync } = await import('../src/commands/sync.js');
+    await runSync({ noEmbeddings: true });
+    expect(fetchLatestReleases).not.toHaveBeenCalled();
+    expect(config.getMeta('last_release_sync')).toBeNull();
+
+    await runSync({ noEmbeddings: true, force: true, releases: true });
+    expect(fetchLatestReleases).toHaveBeenCalledTimes(1);
+    expect(config.getMeta('last_release_sync')).not.toBeNull();
+    const { listRecentReleases } = await import('../src/lib/releases.js');
+    expect((await listRecentReleases({ since: new Date(0) })).map((release) => release.full_name)).toEqual(['a/one']);
+  });
+
+  it('appends a history entry with the repos each run added and removed', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    const { upsertRepos } = await import('../src/lib/storage.js');
+    await upsertRepos([
+      makeRepo({ id: 1, full_name: 'keep/repo', name: 'repo' }),
+      makeRepo({ id: 2, full_name: 'gone/repo', name: 'repo' }),
+    ]);
+
+    vi.doMock('../src/commands/auth.js', () => ({
+      ensureAuth: vi.fn().mockResolvedValue('token'),
+    }));
+    vi.doMock('../src/lib/github.js', () => ({
+      createOctokit: vi.fn().mockReturnValue({}),
+      streamStars: streamPages([
+        makeRepo({ id: 1, full_name: 'keep/repo', name: 'repo' }),
+        makeRepo({ id: 3, full_name: 'new/repo', name: 'repo' }),
+      ]),
+      fetchStarLists: vi.fn().mockResolvedValue([]),
+      fetchStarredTotalCount: vi.fn().mockResolvedValue(2),
+      fetchStarredFullNames: vi.fn().mockResolvedValue([]),
+    }));
+    vi.doMock('../src/lib/embeddings.js', () => ({
+      generateAndStoreEmbeddings: vi.fn(),
+    }));
+
+    const { runSync } = await import('../src/commands/sync.js');
+    await runSync({ noEmbeddings: true });
+    const { readSyncHistory } = await import('../src/lib/history.js');
+    const [entry] = readSyncHistory();
+
+    expect(entry).toMatchObject({
+      mode: 'full',
+      resumed: false,
+      added: ['new/repo'],
+      removed: ['gone/repo'],
+      metadata_changed: null,
+      embedded: 0,
+      total: 2,
+    });
+    expect(Date.parse(entry.finished_at)).toBeGreaterThanOrEqual(Date.parse(entry.started_at));
+  });
+
+  it('refuses to start a second sync while one is running in the process', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    let release!: () => void;
+    vi.doMock('../src/commands/auth.js', () => ({
+      ensureAuth: vi.fn(() => new Promise<string>((resolve) => { release = () => resolve('token'); })),
+    }));
+    vi.doMock('../src/lib/github.js', () => ({
+      createOctokit: vi.fn().mockReturnValue({}),
+      streamStars: streamPages([]),
+      fetchStarLists: vi.fn().mockResolvedValue([]),
+      fetchStarredTotalCount: vi.fn().mockResolvedValue(0),
+      fetchStarredFullNames: vi.fn().mockResolvedValue([]),
+    }));
+    vi.doMock('../src/lib/embeddings.js', () => ({
+      generateAndStoreEmbeddings: vi.fn(),
+    }));
+
+    const { runSync, isSyncRunning } = await import('../src/commands/sync.js');
+    const first = runSync({ noEmbeddings: true });
+    expect(isSyncRunning()).toBe(true);
+    await expect(runSync({ noEmbeddings: true })).rejects.toThrow('A sync is already running in this process.');
+
+    release();
+    await first;
+    expect(isSyncRunning()).toBe(false);
+  });
 });
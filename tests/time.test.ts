@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { resolveStarredTimeRange } from '../src/lib/time.js';
+import { parseDuration, resolveStarredTimeRange } from '../src/lib/time.js';
 
 describe('resolveStarredTimeRange', () => {
   it('uses explicit since/until when provided', () => {
@@ -33,3 +33,17 @@ describe('resolveStarredTimeRange', () => {
     ).toThrow();
   });
 });
+
+describe('parseDuration', () => {
+  it('parses unit suffixes and treats bare numbers as minutes', () => {
+    expect(parseDuration('90s', '--interval')).toBe(90_000);
+    expect(parseDuration('30m', '--interval')).toBe(1_800_000);
+    expect(parseDuration('2H', '--interval')).toBe(7_200_000);
+    expect(parseDuration('15', '--interval')).toBe(900_000);
+  });
+
+  it('rejects malformed and too-short intervals', () => {
+    expect(() => parseDuration('soon', '--interval')).toThrow('Invalid --interval value: "soon"');
+    expect(() => parseDuration('10s', '--interval')).toThrow('at least 60 seconds');
+  });
+});
@@ -0,0 +1,10 @@
+import { describe, expect, it } from 'vitest';
+import { parseTopics } from '../src/lib/topics.js';
+
+describe('parseTopics', () => {
+  it('reads JSON arrays and the plain-text form of older rows', () => {
+    expect(parseTopics('["cli","rust"]')).toEqual(['cli', 'rust']);
+    expect(parseTopics('cli  rust')).toEqual(['cli', 'rust']);
+    expect(parseTopics('')).toEqual([]);
+  });
+});
@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { startWatcher } from '../src/lib/watch.js';
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('startWatcher', () => {
+  it('schedules the next cycle only after the previous one settles', async () => {
+    let finishFirst!: () => void;
+    const run = vi.fn()
+      .mockImplementationOnce(() => new Promise<void>((resolve) => { finishFirst = resolve; }))
+      .mockResolvedValue(undefined);
+    const watcher = startWatcher({ intervalMs: 60_000, run, log: () => {} });
+
+    await vi.advanceTimersByTimeAsync(5 * 60_000);
+    expect(run).toHaveBeenCalledTimes(1);
+
+    finishFirst();
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(run).toHaveBeenCalledTimes(2);
+    expect(run).toHaveBeenLastCalledWith(2);
+    await watcher.stop();
+  });
+
+  it('logs failed cycles, keeps going and stops after the running cycle', async () => {
+    const logs: string[] = [];
+    let finishThird!: () => void;
+    const run = vi.fn()
+      .mockRejectedValueOnce(new Error('network down'))
+      .mockResolvedValueOnce(undefined)
+      .mockImplementationOnce(() => new Promise<void>((resolve) => { finishThird = resolve; }));
+    const watcher = startWatcher({ intervalMs: 60_000, run, log: (message) => logs.push(message) });
+
+    await vi.advanceTimersByTimeAsync(2 * 60_000);
+    expect(run).toHaveBeenCalledTimes(3);
+    expect(logs.some((line) => line.endsWith('Sync cycle 1 failed: network down'))).toBe(true);
+
+    let stopped = false;
+    const stopping = watcher.stop().then(() => { stopped = true; });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(stopped).toBe(false);
+    finishThird();
+    await stopping;
+
+    await vi.advanceTimersByTimeAsync(10 * 60_000);
+    expect(run).toHaveBeenCalledTimes(3);
+  });
+});